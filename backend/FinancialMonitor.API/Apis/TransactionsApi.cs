@@ -1,8 +1,10 @@
 using FinancialMonitor.API.DTOs;
 using FinancialMonitor.API.Interfaces;
 using FinancialMonitor.API.Models;
+using FinancialMonitor.API.Services;
 using Microsoft.AspNetCore.Http.HttpResults;
 using Microsoft.AspNetCore.Builder;
+using Microsoft.Extensions.Options;
 
 namespace FinancialMonitor.API.Apis;
 
@@ -18,6 +20,8 @@ namespace FinancialMonitor.API.Apis;
 /// </summary>
 public static class TransactionsApi
 {
+    private const int MaxBatchSize = 1000;
+
     public static IEndpointRouteBuilder MapTransactionsApi(this IEndpointRouteBuilder app)
     {
         var group = app.MapGroup("/api/transactions")
@@ -25,16 +29,25 @@ public static class TransactionsApi
             .WithOpenApi();
 
         group.MapPost("/",    UpsertTransaction);
+        group.MapPost("/batch", UpsertBatch);
         group.MapGet("/",     GetTransactions);
         group.MapGet("/stats", GetStats);
+        group.MapGet("/stats/timeseries", GetTimeSeries);
+        group.MapGet("/cursor", GetTransactionsByCursor);
+        group.MapGet("/changes", GetChanges);
+        group.MapGet("/export", ExportTransactions);
         group.MapGet("/{id}", GetTransaction);
+        group.MapGet("/{id}/history", GetStatusHistory);
 
         return app;
     }
 
     // ─── Handlers ───────────────────────────────────────────────────────────
 
-    /// <summary>POST /api/transactions — create or update a transaction</summary>
+    /// <summary>
+    /// POST /api/transactions — create (201) or update (200) a transaction.
+    /// 400 body: { error, errors: { field: message } } — `errors` is keyed by JSON field name.
+    /// </summary>
     private static async Task<Results<Created<Transaction>, Ok<Transaction>, BadRequest<object>>>
         UpsertTransaction(
             CreateTransactionRequest request,
@@ -42,6 +55,14 @@ public static class TransactionsApi
             ITransactionPublisher publisher)
     {
         var transaction = request.ToTransaction();
+
+        if (TransactionValidator.ValidateField(transaction) is { } invalid)
+            return TypedResults.BadRequest<object>(new
+            {
+                error  = invalid.Message,
+                errors = new Dictionary<string, string> { [invalid.Field] = invalid.Message },
+            });
+
         var (isNew, error) = await transactionService.UpsertTransactionAsync(transaction);
 
         if (error != null)
@@ -54,17 +75,58 @@ public static class TransactionsApi
             : TypedResults.Ok(transaction);
     }
 
-    /// <summary>GET /api/transactions?page=1&amp;pageSize=50&amp;status=Failed</summary>
-    private static async Task<Ok<PagedResult<Transaction>>> GetTransactions(
+    /// <summary>
+    /// POST /api/transactions/batch — up to 1000 transactions in one request.
+    /// Always 200 with a result per item (created / updated / rejected + reason);
+    /// 400 only when the body itself is unusable. Stored items are published like single upserts.
+    /// </summary>
+    private static async Task<Results<Ok<BatchUpsertResponse>, BadRequest<object>>> UpsertBatch(
+        IReadOnlyList<CreateTransactionRequest?> requests,
         ITransactionService transactionService,
-        int page      = 1,
-        int pageSize  = 50,
-        TransactionStatus? status = null)
+        ITransactionPublisher publisher)
+    {
+        if (requests.Count > MaxBatchSize)
+            return TypedResults.BadRequest<object>(new { error = $"A batch may hold at most {MaxBatchSize} transactions" });
+
+        var nullIndex = requests.ToList().FindIndex(r => r is null);
+        if (nullIndex >= 0)
+            return TypedResults.BadRequest<object>(new { error = $"Item {nullIndex} is null" });
+
+        var transactions = requests.Select(r => r!.ToTransaction()).ToList();
+        var results = await transactionService.UpsertBatchAsync(transactions);
+
+        foreach (var result in results.Where(r => r.Outcome != UpsertOutcome.Rejected))
+            await publisher.PublishAsync(transactions[result.Index]);
+
+        return TypedResults.Ok(new BatchUpsertResponse(
+            Created:  results.Count(r => r.Outcome == UpsertOutcome.Created),
+            Updated:  results.Count(r => r.Outcome == UpsertOutcome.Updated),
+            Rejected: results.Count(r => r.Outcome == UpsertOutcome.Rejected),
+            Results:  results));
+    }
+
+    /// <summary>
+    /// GET /api/transactions?page=1&amp;pageSize=50&amp;status=Failed&amp;idPrefix=3fa8&amp;currency=EUR
+    ///     &amp;minAmount=100&amp;maxAmount=5000&amp;from=2025-01-01T00:00:00Z&amp;to=2025-01-31T23:59:59Z
+    ///     &amp;sortBy=amount&amp;sortDir=desc
+    /// </summary>
+    private static async Task<Results<Ok<PagedResult<Transaction>>, BadRequest<object>>> GetTransactions(
+        ITransactionService transactionService,
+        [AsParameters] TransactionFilter filter,
+        int page        = 1,
+        int pageSize    = 50,
+        string? sortBy  = null,
+        string? sortDir = null)
     {
         pageSize = Math.Clamp(pageSize, 1, 200);
         page     = Math.Max(1, page);
 
-        var (items, totalCount) = await transactionService.GetPagedAsync(page, pageSize, status);
+        var (sort, sortError) = TransactionSort.Parse(sortBy, sortDir);
+        var error = sortError ?? filter.Validate();
+        if (error != null)
+            return TypedResults.BadRequest<object>(new { error });
+
+        var (items, totalCount) = await transactionService.GetPagedAsync(page, pageSize, filter, sort);
 
         var result = new PagedResult<Transaction>(
             Items:      items,
@@ -76,14 +138,147 @@ public static class TransactionsApi
         return TypedResults.Ok(result);
     }
 
-    /// <summary>GET /api/transactions/stats</summary>
-    private static async Task<Ok<TransactionStatsDto>> GetStats(
-        ITransactionService transactionService)
+    /// <summary>
+    /// GET /api/transactions/cursor?cursor=&lt;opaque&gt;&amp;pageSize=50 (+ the same filters as above)
+    /// Keyset paging, newest first — for infinite scroll while live inserts are arriving.
+    /// Omit cursor for the first page; pass back NextCursor for the next one.
+    /// </summary>
+    private static async Task<Results<Ok<CursorPage<Transaction>>, BadRequest<object>>> GetTransactionsByCursor(
+        ITransactionService transactionService,
+        [AsParameters] TransactionFilter filter,
+        string? cursor = null,
+        int pageSize   = 50)
+    {
+        pageSize = Math.Clamp(pageSize, 1, 200);
+
+        var after = TransactionCursor.TryDecode(cursor);
+        if (!string.IsNullOrWhiteSpace(cursor) && after is null)
+            return TypedResults.BadRequest<object>(new { error = "cursor is invalid" });
+
+        var error = filter.Validate();
+        if (error != null)
+            return TypedResults.BadRequest<object>(new { error });
+
+        var (items, hasMore) = await transactionService.GetAfterCursorAsync(after, pageSize, filter);
+        var next = hasMore ? TransactionCursor.From(items[^1]).Encode() : null;
+
+        return TypedResults.Ok(new CursorPage<Transaction>(items, next));
+    }
+
+    /// <summary>
+    /// GET /api/transactions/changes?since=2025-01-01T12:00:00Z&amp;afterId=&lt;id&gt;&amp;limit=500
+    /// Everything upserted at or after `since` (server clock, UpdatedAt), oldest first —
+    /// lets a reconnecting client replay the events it missed instead of reloading.
+    /// Page with since = last item's UpdatedAt, afterId = its TransactionId.
+    /// </summary>
+    private static async Task<Results<Ok<ChangeFeed<Transaction>>, BadRequest<object>>> GetChanges(
+        ITransactionService transactionService,
+        DateTime? since,
+        string? afterId = null,
+        int limit       = 500)
+    {
+        if (since is null)
+            return TypedResults.BadRequest<object>(new { error = "since is required" });
+
+        limit = Math.Clamp(limit, 1, 1000);
+
+        var from = new ChangeFeedPosition(since.Value.ToUniversalTime(), afterId);
+        var (items, hasMore) = await transactionService.GetChangedSinceAsync(from, limit);
+
+        return TypedResults.Ok(new ChangeFeed<Transaction>(items, hasMore));
+    }
+
+    /// <summary>
+    /// GET /api/transactions/export?format=csv|json|ndjson (+ the same filters and sort as GET /)
+    /// Streams every matching row straight from the DB cursor to the response — nothing is paged
+    /// or buffered whole. X-Total-Count carries the row count up front for client-side progress.
+    /// </summary>
+    private static async Task<Results<PushStreamHttpResult, BadRequest<object>>> ExportTransactions(
+        HttpContext httpContext,
+        ITransactionService transactionService,
+        IOptions<Microsoft.AspNetCore.Http.Json.JsonOptions> jsonOptions,
+        [AsParameters] TransactionFilter filter,
+        string? format  = null,
+        string? sortBy  = null,
+        string? sortDir = null)
+    {
+        var exportFormat = ExportFormat.Parse(format);
+        if (exportFormat is null)
+            return TypedResults.BadRequest<object>(new
+            {
+                error = $"format must be one of: {string.Join(", ", ExportFormat.All.Select(f => f.Name))}",
+            });
+
+        var (sort, sortError) = TransactionSort.Parse(sortBy, sortDir);
+        var error = sortError ?? filter.Validate();
+        if (error != null)
+            return TypedResults.BadRequest<object>(new { error });
+
+        // A snapshot count — rows upserted mid-export may make the stream run slightly over
+        var total = await transactionService.CountAsync(filter);
+        httpContext.Response.Headers["X-Total-Count"] = total.ToString();
+
+        var fileName = $"transactions-{DateTime.UtcNow:yyyyMMddTHHmmssZ}.{exportFormat.Extension}";
+        var aborted  = httpContext.RequestAborted;
+
+        return TypedResults.Stream(
+            body => TransactionExporter.WriteAsync(
+                body,
+                transactionService.StreamAsync(filter, sort, aborted),
+                exportFormat,
+                jsonOptions.Value.SerializerOptions,
+                aborted),
+            exportFormat.ContentType,
+            fileName);
+    }
+
+    /// <summary>
+    /// GET /api/transactions/stats?window=5m|1h|24h|all
+    /// Counts, failure rate, amount average/percentiles and volume for transactions
+    /// whose Timestamp falls in the window. Omitted or "all" → all-time totals.
+    /// </summary>
+    private static async Task<Results<Ok<TransactionStatsDto>, BadRequest<object>>> GetStats(
+        ITransactionService transactionService,
+        string? window = null)
     {
-        var stats = await transactionService.GetStatsAsync();
+        DateTime? since = null;
+        if (!string.IsNullOrWhiteSpace(window) && !window.Equals("all", StringComparison.OrdinalIgnoreCase))
+        {
+            var w = TimeSeriesWindow.Parse(window);
+            if (w is null)
+                return TypedResults.BadRequest<object>(new
+                {
+                    error = $"window must be all or one of: {string.Join(", ", TimeSeriesWindow.All.Select(x => x.Name))}",
+                });
+            since = DateTime.UtcNow - w.Span;
+        }
+
+        var stats = await transactionService.GetStatsAsync(since);
         return TypedResults.Ok(stats);
     }
 
+    /// <summary>
+    /// GET /api/transactions/stats/timeseries?window=5m|1h|24h
+    /// Status transitions and volume per currency in fixed time buckets — backfill for the trend charts.
+    /// </summary>
+    private static async Task<Results<Ok<TimeSeriesDto>, BadRequest<object>>> GetTimeSeries(
+        ITransactionService transactionService,
+        string? window = null)
+    {
+        var w = TimeSeriesWindow.Parse(window);
+        if (w is null)
+            return TypedResults.BadRequest<object>(new
+            {
+                error = $"window must be one of: {string.Join(", ", TimeSeriesWindow.All.Select(x => x.Name))}",
+            });
+
+        var to      = DateTime.UtcNow;
+        var from    = to - w.Span;
+        var buckets = await transactionService.GetTimeSeriesAsync(from, w.Bucket);
+
+        return TypedResults.Ok(new TimeSeriesDto(w.Name, (int)w.Bucket.TotalSeconds, from, to, buckets));
+    }
+
     /// <summary>GET /api/transactions/{id}</summary>
     private static async Task<Results<Ok<Transaction>, NotFound<object>>> GetTransaction(
         string id,
@@ -94,4 +289,18 @@ public static class TransactionsApi
             ? TypedResults.Ok(tx)
             : TypedResults.NotFound<object>(new { error = $"Transaction {id} not found" });
     }
+
+    /// <summary>GET /api/transactions/{id}/history — status transitions, oldest first</summary>
+    private static async Task<Results<Ok<IReadOnlyList<TransactionStatusChange>>, NotFound<object>>> GetStatusHistory(
+        string id,
+        ITransactionService transactionService)
+    {
+        var history = await transactionService.GetStatusHistoryAsync(id);
+
+        // Transactions stored before history tracking existed have no entries — still a 200
+        if (history.Count == 0 && await transactionService.GetByIdAsync(id) is null)
+            return TypedResults.NotFound<object>(new { error = $"Transaction {id} not found" });
+
+        return TypedResults.Ok(history);
+    }
 }
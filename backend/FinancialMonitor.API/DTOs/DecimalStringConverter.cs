@@ -0,0 +1,36 @@
+using System.Globalization;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace FinancialMonitor.API.DTOs;
+
+/// <summary>
+/// Writes every decimal as a JSON string ("0.00012345"), reads either a string or a number.
+/// JSON numbers become IEEE doubles in JavaScript — a BTC amount with satoshi precision,
+/// or any amount past 2^53 minor units, would be rounded before the client could see it.
+/// Trailing zeros are dropped so a numeric(28,18) column doesn't pad every amount.
+/// </summary>
+public sealed class DecimalStringConverter : JsonConverter<decimal>
+{
+    private const NumberStyles Styles =
+        NumberStyles.AllowLeadingSign | NumberStyles.AllowDecimalPoint | NumberStyles.AllowExponent;
+
+    public override decimal Read(ref Utf8JsonReader reader, Type typeToConvert, JsonSerializerOptions options)
+    {
+        if (reader.TokenType == JsonTokenType.Number)
+            return reader.GetDecimal();
+
+        if (reader.TokenType == JsonTokenType.String
+            && decimal.TryParse(reader.GetString(), Styles, CultureInfo.InvariantCulture, out var value))
+            return value;
+
+        throw new JsonException("Expected a decimal number or numeric string");
+    }
+
+    public override void Write(Utf8JsonWriter writer, decimal value, JsonSerializerOptions options) =>
+        writer.WriteStringValue(Format(value));
+
+    /// <summary>Exact invariant form without trailing zeros — also used by the CSV export.</summary>
+    public static string Format(decimal value) =>
+        value.ToString("0.############################", CultureInfo.InvariantCulture);
+}
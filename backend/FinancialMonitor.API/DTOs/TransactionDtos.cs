@@ -23,6 +23,142 @@ public record CreateTransactionRequest(
     };
 }
 
+/// <summary>What a batch upsert did with one item.</summary>
+public enum UpsertOutcome
+{
+    Created,
+    Updated,
+    Rejected
+}
+
+/// <summary>
+/// Per-item result of POST /api/transactions/batch — Index is the item's position in the request.
+/// </summary>
+public record UpsertResult(int Index, string? TransactionId, UpsertOutcome Outcome, string? Error = null)
+{
+    /// <summary>Timestamp guard lost — the stored (or a later in-batch) version is newer.</summary>
+    public const string StaleError = "A newer version of this transaction is already stored";
+
+    public static UpsertResult Reject(int index, string? transactionId, string error) =>
+        new(index, transactionId, UpsertOutcome.Rejected, error);
+}
+
+public record BatchUpsertResponse(
+    int Created,
+    int Updated,
+    int Rejected,
+    IReadOnlyList<UpsertResult> Results);
+
+/// <summary>
+/// Query-string filters for GET /api/transactions, bound with [AsParameters].
+/// Every criterion is optional; supplied ones are ANDed together.
+/// Shared by all ITransactionService implementations via Apply().
+/// </summary>
+public record TransactionFilter(
+    TransactionStatus? Status    = null,
+    string?            IdPrefix  = null,
+    string?            Currency  = null,
+    decimal?           MinAmount = null,
+    decimal?           MaxAmount = null,
+    DateTime?          From      = null,
+    DateTime?          To        = null)
+{
+    /// <summary>Returns an error message for contradictory ranges, null if valid.</summary>
+    public string? Validate()
+    {
+        if (MinAmount > MaxAmount) return "minAmount must not be greater than maxAmount";
+        if (From > To)             return "from must not be later than to";
+        return null;
+    }
+
+    /// <summary>Translatable by EF Core — runs as SQL WHERE clauses, not in memory.</summary>
+    public IQueryable<Transaction> Apply(IQueryable<Transaction> query)
+    {
+        if (Status.HasValue)
+            query = query.Where(t => t.Status == Status.Value);
+        if (!string.IsNullOrWhiteSpace(IdPrefix))
+        {
+            var prefix = IdPrefix.Trim();
+            query = query.Where(t => t.TransactionId.StartsWith(prefix));
+        }
+        if (!string.IsNullOrWhiteSpace(Currency))
+        {
+            var currency = Currency.Trim().ToUpperInvariant();
+            query = query.Where(t => t.Currency == currency);
+        }
+        if (MinAmount.HasValue)
+            query = query.Where(t => t.Amount >= MinAmount.Value);
+        if (MaxAmount.HasValue)
+            query = query.Where(t => t.Amount <= MaxAmount.Value);
+        if (From.HasValue)
+            query = query.Where(t => t.Timestamp >= From.Value);
+        if (To.HasValue)
+            query = query.Where(t => t.Timestamp <= To.Value);
+        return query;
+    }
+}
+
+/// <summary>Columns GET /api/transactions can be ordered by.</summary>
+public enum TransactionSortField
+{
+    Timestamp,
+    Amount,
+    Status,
+    Currency
+}
+
+/// <summary>
+/// Ordering for GET /api/transactions (?sortBy=amount&amp;sortDir=desc).
+/// Always tie-broken by TransactionId so offset pages are deterministic.
+/// </summary>
+public record TransactionSort(
+    TransactionSortField Field = TransactionSortField.Timestamp,
+    bool Descending = true)
+{
+    public static readonly TransactionSort Default = new();
+
+    /// <summary>Case-insensitive parse of the raw query values; missing values fall back to the default.</summary>
+    public static (TransactionSort? Sort, string? Error) Parse(string? sortBy, string? sortDir)
+    {
+        var field = TransactionSortField.Timestamp;
+        if (!string.IsNullOrWhiteSpace(sortBy)
+            && (!Enum.TryParse(sortBy, ignoreCase: true, out field) || !Enum.IsDefined(field)))
+            return (null, $"sortBy must be one of: {string.Join(", ", Enum.GetNames<TransactionSortField>())}");
+
+        var descending = true;
+        if (!string.IsNullOrWhiteSpace(sortDir))
+        {
+            if (sortDir.Equals("asc", StringComparison.OrdinalIgnoreCase))       descending = false;
+            else if (!sortDir.Equals("desc", StringComparison.OrdinalIgnoreCase)) return (null, "sortDir must be asc or desc");
+        }
+
+        return (new TransactionSort(field, descending), null);
+    }
+
+    /// <summary>Translatable by EF Core — runs as SQL ORDER BY.</summary>
+    public IOrderedQueryable<Transaction> Apply(IQueryable<Transaction> query)
+    {
+        var ordered = Field switch
+        {
+            // SQLite can't ORDER BY decimal — REAL is precise enough for ordering
+            TransactionSortField.Amount   => OrderBy(query, t => (double)t.Amount),
+            TransactionSortField.Currency => OrderBy(query, t => t.Currency),
+            // Lifecycle order (not alphabetical) — same result for every provider
+            TransactionSortField.Status   => OrderBy(query, t =>
+                t.Status == TransactionStatus.Pending   ? 0 :
+                t.Status == TransactionStatus.Completed ? 1 : 2),
+            _                             => OrderBy(query, t => t.Timestamp),
+        };
+        return Descending
+            ? ordered.ThenByDescending(t => t.TransactionId)
+            : ordered.ThenBy(t => t.TransactionId);
+    }
+
+    private IOrderedQueryable<Transaction> OrderBy<TKey>(
+        IQueryable<Transaction> query, System.Linq.Expressions.Expression<Func<Transaction, TKey>> key) =>
+        Descending ? query.OrderByDescending(key) : query.OrderBy(key);
+}
+
 /// <summary>
 /// Paginated result envelope — generic, works for any list.
 /// Record with init-only properties is perfect here.
@@ -38,13 +174,169 @@ public record PagedResult<T>(
     public bool HasPrev => Page > 1;
 }
 
+/// <summary>
+/// Opaque keyset position (Timestamp, TransactionId) for cursor paging.
+/// Serialized as base64url so clients treat it as a token, not as data.
+/// </summary>
+public record TransactionCursor(DateTime Timestamp, string TransactionId)
+{
+    public static TransactionCursor From(Transaction transaction) =>
+        new(transaction.Timestamp, transaction.TransactionId);
+
+    public string Encode()
+    {
+        var raw = $"{Timestamp.Ticks}:{TransactionId}";
+        return Convert.ToBase64String(System.Text.Encoding.UTF8.GetBytes(raw))
+            .TrimEnd('=').Replace('+', '-').Replace('/', '_');
+    }
+
+    /// <summary>Rows strictly after this position in the default (Timestamp DESC, TransactionId DESC) order.</summary>
+    public IQueryable<Transaction> ApplyAfter(IQueryable<Transaction> query)
+    {
+        var timestamp = Timestamp;
+        var id        = TransactionId;
+        return query.Where(t => t.Timestamp < timestamp
+                             || (t.Timestamp == timestamp && string.Compare(t.TransactionId, id) < 0));
+    }
+
+    public static TransactionCursor? TryDecode(string? token)
+    {
+        if (string.IsNullOrWhiteSpace(token)) return null;
+        try
+        {
+            var base64 = token.Replace('-', '+').Replace('_', '/');
+            base64 = base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '=');
+            var raw   = System.Text.Encoding.UTF8.GetString(Convert.FromBase64String(base64));
+            var parts = raw.Split(':', 2);
+            if (parts.Length != 2 || !long.TryParse(parts[0], out var ticks)) return null;
+            return new TransactionCursor(new DateTime(ticks, DateTimeKind.Utc), parts[1]);
+        }
+        catch (Exception ex) when (ex is FormatException or ArgumentOutOfRangeException)
+        {
+            return null;
+        }
+    }
+}
+
+/// <summary>
+/// Cursor-paged result — newest first, keyed on (Timestamp, TransactionId).
+/// No total count: counting millions of rows per scroll step is what we're avoiding.
+/// </summary>
+public record CursorPage<T>(
+    IReadOnlyList<T> Items,
+    string? NextCursor)
+{
+    public bool HasMore => NextCursor is not null;
+}
+
+/// <summary>
+/// Position in the change feed — (UpdatedAt, TransactionId) ascending.
+/// Without <see cref="AfterId"/> the position is inclusive of <see cref="Since"/>;
+/// with it, rows at exactly <see cref="Since"/> resume after that ID (next page).
+/// </summary>
+public record ChangeFeedPosition(DateTime Since, string? AfterId = null)
+{
+    public IQueryable<Transaction> ApplyFrom(IQueryable<Transaction> query)
+    {
+        var since   = Since;
+        var afterId = AfterId;
+        return afterId is null
+            ? query.Where(t => t.UpdatedAt >= since)
+            : query.Where(t => t.UpdatedAt > since
+                            || (t.UpdatedAt == since && string.Compare(t.TransactionId, afterId) > 0));
+    }
+
+    /// <summary>Oldest change first — replaying in this order reproduces the live stream.</summary>
+    public static IQueryable<Transaction> Order(IQueryable<Transaction> query) =>
+        query.OrderBy(t => t.UpdatedAt).ThenBy(t => t.TransactionId);
+}
+
+/// <summary>
+/// Change feed page — what a client missed while its SignalR connection was down.
+/// Items are the current state of each changed transaction, not every intermediate event.
+/// </summary>
+public record ChangeFeed<T>(
+    IReadOnlyList<T> Items,
+    bool HasMore);
+
+/// <summary>
+/// Time-series window for GET /api/transactions/stats/timeseries?window=5m|1h|24h.
+/// The 5m window is bucketed per second, the longer ones per minute.
+/// </summary>
+public record TimeSeriesWindow(string Name, TimeSpan Span, TimeSpan Bucket)
+{
+    public static readonly TimeSeriesWindow FiveMinutes = new("5m",  TimeSpan.FromMinutes(5), TimeSpan.FromSeconds(1));
+    public static readonly TimeSeriesWindow OneHour     = new("1h",  TimeSpan.FromHours(1),   TimeSpan.FromMinutes(1));
+    public static readonly TimeSeriesWindow OneDay      = new("24h", TimeSpan.FromHours(24),  TimeSpan.FromMinutes(1));
+
+    public static readonly IReadOnlyList<TimeSeriesWindow> All = [FiveMinutes, OneHour, OneDay];
+
+    /// <summary>Null for an unknown name — the endpoint answers 400.</summary>
+    public static TimeSeriesWindow? Parse(string? name) =>
+        All.FirstOrDefault(w => string.Equals(w.Name, name ?? "5m", StringComparison.OrdinalIgnoreCase));
+}
+
+/// <summary>
+/// File format for GET /api/transactions/export?format=csv|json|ndjson.
+/// </summary>
+public record ExportFormat(string Name, string ContentType, string Extension)
+{
+    public static readonly ExportFormat Csv    = new("csv",    "text/csv; charset=utf-8", "csv");
+    public static readonly ExportFormat Json   = new("json",   "application/json",        "json");
+    public static readonly ExportFormat Ndjson = new("ndjson", "application/x-ndjson",    "ndjson");
+
+    public static readonly IReadOnlyList<ExportFormat> All = [Csv, Json, Ndjson];
+
+    /// <summary>Null for an unknown name — the endpoint answers 400. Omitted → CSV.</summary>
+    public static ExportFormat? Parse(string? name) =>
+        All.FirstOrDefault(f => string.Equals(f.Name, name ?? "csv", StringComparison.OrdinalIgnoreCase));
+}
+
+/// <summary>
+/// One time bucket. Status counts are transitions INTO each status during the bucket
+/// (from the status history); volume is new transactions by their own Timestamp.
+/// </summary>
+public record TimeSeriesBucket(
+    DateTime Start,
+    int Pending,
+    int Completed,
+    int Failed,
+    Dictionary<string, decimal> VolumeByCurrency);
+
+/// <summary>
+/// Time-bucketed stats — only non-empty buckets are listed, oldest first.
+/// </summary>
+public record TimeSeriesDto(
+    string Window,
+    int BucketSeconds,
+    DateTime From,
+    DateTime To,
+    IReadOnlyList<TimeSeriesBucket> Buckets);
+
 /// <summary>
 /// Aggregated stats returned from /stats endpoint.
 /// Record — pure output, never mutated after construction.
+/// From is the start of the window (by Timestamp), null for all-time stats.
+/// Amount figures mix currencies as stored — no FX conversion server-side.
 /// </summary>
 public record TransactionStatsDto(
     int Total,
     int Completed,
     int Failed,
     int Pending,
-    Dictionary<string, decimal> VolumeByCurrency);
+    Dictionary<string, decimal> VolumeByCurrency,
+    double FailureRate     = 0,
+    decimal AverageAmount  = 0,
+    decimal P50Amount      = 0,
+    decimal P95Amount      = 0,
+    decimal P99Amount      = 0,
+    DateTime? From         = null)
+{
+    /// <summary>Failed share of settled (Completed + Failed) transactions — Pending ones haven't failed yet.</summary>
+    public static double FailureRateOf(int completed, int failed) =>
+        completed + failed == 0 ? 0 : (double)failed / (completed + failed);
+
+    /// <summary>Zero-based index of the nearest-rank percentile in an ascending list of <paramref name="count"/>.</summary>
+    public static int NearestRank(int count, double percentile) =>
+        Math.Clamp((int)Math.Ceiling(percentile * count) - 1, 0, Math.Max(count - 1, 0));
+}
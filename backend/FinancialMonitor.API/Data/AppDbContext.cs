@@ -8,6 +8,7 @@ public class AppDbContext : DbContext
     public AppDbContext(DbContextOptions<AppDbContext> options) : base(options) { }
 
     public DbSet<Transaction> Transactions => Set<Transaction>();
+    public DbSet<TransactionStatusChange> StatusChanges => Set<TransactionStatusChange>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -21,11 +22,28 @@ public class AppDbContext : DbContext
             // Index on Status — accelerates filtering
             entity.HasIndex(t => t.Status);
 
+            // Index on (UpdatedAt, Id) — change feed for reconnect gap recovery
+            entity.HasIndex(t => new { t.UpdatedAt, t.TransactionId });
+
             // Status saved as string (Pending/Completed/Failed)
             entity.Property(t => t.Status).HasConversion<string>();
 
-            // Amount — full precision for finances
-            entity.Property(t => t.Amount).HasColumnType("decimal(18,4)");
+            // Amount — full precision for finances, down to satoshi / wei (18 places)
+            entity.Property(t => t.Amount).HasColumnType("decimal(28,18)");
+
+            // Always UTC — SQLite drops the kind, and clients echo this value back as ?since=
+            entity.Property(t => t.UpdatedAt)
+                .HasConversion(v => v, v => DateTime.SpecifyKind(v, DateTimeKind.Utc));
+        });
+
+        modelBuilder.Entity<TransactionStatusChange>(entity =>
+        {
+            entity.HasKey(c => c.Id);
+
+            // History is always read per transaction, in time order
+            entity.HasIndex(c => new { c.TransactionId, c.Timestamp });
+
+            entity.Property(c => c.Status).HasConversion<string>();
         });
     }
 }
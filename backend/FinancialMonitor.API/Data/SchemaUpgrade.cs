@@ -0,0 +1,119 @@
+using Microsoft.EntityFrameworkCore;
+
+namespace FinancialMonitor.API.Data;
+
+/// <summary>
+/// Brings a database created by an earlier version up to the current model.
+///
+/// The schema comes from EnsureCreated, which does nothing once the database
+/// exists — so tables, columns and indexes added since are applied here, at
+/// startup, right after it. Every step is idempotent: on a fresh database
+/// (already complete) or one upgraded before, it changes nothing.
+///
+/// When AppDbContext gains a table, column, index or type change, add the
+/// matching step for both providers.
+/// </summary>
+public static class SchemaUpgrade
+{
+    public static Task ApplyAsync(AppDbContext db) =>
+        db.Database.IsNpgsql() ? UpgradePostgresAsync(db) : UpgradeSqliteAsync(db);
+
+    private static async Task UpgradePostgresAsync(AppDbContext db)
+    {
+        // Status history
+        await db.Database.ExecuteSqlRawAsync("""
+            CREATE TABLE IF NOT EXISTS "StatusChanges" (
+                "Id"            bigint GENERATED BY DEFAULT AS IDENTITY,
+                "TransactionId" text NOT NULL,
+                "Status"        text NOT NULL,
+                "Timestamp"     timestamp with time zone NOT NULL,
+                CONSTRAINT "PK_StatusChanges" PRIMARY KEY ("Id")
+            )
+            """);
+        await db.Database.ExecuteSqlRawAsync("""
+            CREATE INDEX IF NOT EXISTS "IX_StatusChanges_TransactionId_Timestamp"
+                ON "StatusChanges" ("TransactionId", "Timestamp")
+            """);
+
+        // Change feed — rows from before it get their event time as the last change
+        if (!await HasColumnAsync(db, """
+                SELECT COUNT(*)::int AS "Value" FROM information_schema.columns
+                WHERE table_schema = current_schema()
+                  AND table_name = 'Transactions' AND column_name = 'UpdatedAt'
+                """))
+        {
+            // Column and backfill together — a crash in between mustn't leave placeholder values
+            await using var dbTransaction = await db.Database.BeginTransactionAsync();
+            await db.Database.ExecuteSqlRawAsync("""
+                ALTER TABLE "Transactions"
+                    ADD COLUMN "UpdatedAt" timestamp with time zone NOT NULL DEFAULT '-infinity'
+                """);
+            await db.Database.ExecuteSqlRawAsync("""
+                UPDATE "Transactions" SET "UpdatedAt" = "Timestamp"
+                """);
+            await dbTransaction.CommitAsync();
+        }
+        await db.Database.ExecuteSqlRawAsync("""
+            CREATE INDEX IF NOT EXISTS "IX_Transactions_UpdatedAt_TransactionId"
+                ON "Transactions" ("UpdatedAt", "TransactionId")
+            """);
+
+        // Amount precision — decimal(18,4) before crypto; widening keeps every value
+        if (!await HasColumnAsync(db, """
+                SELECT COUNT(*)::int AS "Value" FROM information_schema.columns
+                WHERE table_schema = current_schema()
+                  AND table_name = 'Transactions' AND column_name = 'Amount'
+                  AND numeric_precision = 28 AND numeric_scale = 18
+                """))
+        {
+            await db.Database.ExecuteSqlRawAsync("""
+                ALTER TABLE "Transactions" ALTER COLUMN "Amount" TYPE numeric(28,18)
+                """);
+        }
+    }
+
+    private static async Task UpgradeSqliteAsync(AppDbContext db)
+    {
+        // Status history
+        await db.Database.ExecuteSqlRawAsync("""
+            CREATE TABLE IF NOT EXISTS "StatusChanges" (
+                "Id"            INTEGER NOT NULL CONSTRAINT "PK_StatusChanges" PRIMARY KEY AUTOINCREMENT,
+                "TransactionId" TEXT NOT NULL,
+                "Status"        TEXT NOT NULL,
+                "Timestamp"     TEXT NOT NULL
+            )
+            """);
+        await db.Database.ExecuteSqlRawAsync("""
+            CREATE INDEX IF NOT EXISTS "IX_StatusChanges_TransactionId_Timestamp"
+                ON "StatusChanges" ("TransactionId", "Timestamp")
+            """);
+
+        // Change feed — SQLite can't ADD COLUMN IF NOT EXISTS, so look first
+        if (!await HasColumnAsync(db, """
+                SELECT COUNT(*) AS "Value" FROM pragma_table_info('Transactions')
+                WHERE name = 'UpdatedAt'
+                """))
+        {
+            await using var dbTransaction = await db.Database.BeginTransactionAsync();
+            await db.Database.ExecuteSqlRawAsync("""
+                ALTER TABLE "Transactions"
+                    ADD COLUMN "UpdatedAt" TEXT NOT NULL DEFAULT '0001-01-01 00:00:00'
+                """);
+            await db.Database.ExecuteSqlRawAsync("""
+                UPDATE "Transactions" SET "UpdatedAt" = "Timestamp"
+                """);
+            await dbTransaction.CommitAsync();
+        }
+        await db.Database.ExecuteSqlRawAsync("""
+            CREATE INDEX IF NOT EXISTS "IX_Transactions_UpdatedAt_TransactionId"
+                ON "Transactions" ("UpdatedAt", "TransactionId")
+            """);
+
+        // Amount precision needs no step: SQLite ignores the declared precision,
+        // and decimal(18,4) and decimal(28,18) have the same (NUMERIC) affinity.
+    }
+
+    /// <summary>Runs a count query over the provider's catalog — non-zero when the column is there.</summary>
+    private static async Task<bool> HasColumnAsync(AppDbContext db, string countSql) =>
+        await db.Database.SqlQueryRaw<int>(countSql).SingleAsync() > 0;
+}
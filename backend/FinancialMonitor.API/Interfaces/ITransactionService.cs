@@ -11,12 +11,46 @@ public interface ITransactionService
 {
     Task<(bool IsNew, string? Error)> UpsertTransactionAsync(Transaction transaction);
 
+    /// <summary>
+    /// Upserts many transactions in one call. Never throws for bad items — each gets
+    /// a result (same index as the input) saying created, updated or rejected with a reason.
+    /// </summary>
+    Task<IReadOnlyList<UpsertResult>> UpsertBatchAsync(IReadOnlyList<Transaction> transactions);
+
     Task<(IReadOnlyList<Transaction> Items, int TotalCount)> GetPagedAsync(
-        int page, int pageSize, TransactionStatus? status = null);
+        int page, int pageSize, TransactionFilter? filter = null, TransactionSort? sort = null);
+
+    /// <summary>
+    /// Keyset page, newest first: rows strictly after <paramref name="after"/> in
+    /// (Timestamp DESC, TransactionId DESC) order. Stable while new rows are inserted.
+    /// </summary>
+    Task<(IReadOnlyList<Transaction> Items, bool HasMore)> GetAfterCursorAsync(
+        TransactionCursor? after, int pageSize, TransactionFilter? filter = null);
+
+    /// <summary>Number of transactions matching <paramref name="filter"/> (all when null).</summary>
+    Task<int> CountAsync(TransactionFilter? filter = null);
+
+    /// <summary>
+    /// Every matching transaction in <paramref name="sort"/> order, streamed row by row —
+    /// for exports too large to page through or hold in memory.
+    /// </summary>
+    IAsyncEnumerable<Transaction> StreamAsync(
+        TransactionFilter? filter = null, TransactionSort? sort = null, CancellationToken cancellationToken = default);
+
+    /// <summary>Transactions upserted at or after <paramref name="from"/> (server clock), oldest change first.</summary>
+    Task<(IReadOnlyList<Transaction> Items, bool HasMore)> GetChangedSinceAsync(
+        ChangeFeedPosition from, int limit);
 
     Task<Transaction?> GetByIdAsync(string id);
 
-    Task<TransactionStatsDto> GetStatsAsync();
+    /// <summary>Status transitions for one transaction, oldest first (empty if unknown).</summary>
+    Task<IReadOnlyList<TransactionStatusChange>> GetStatusHistoryAsync(string id);
+
+    /// <summary>Stats over transactions with Timestamp at or after <paramref name="since"/> — all time when null.</summary>
+    Task<TransactionStatsDto> GetStatsAsync(DateTime? since = null);
+
+    /// <summary>Non-empty buckets of width <paramref name="bucket"/> from <paramref name="from"/> until now, oldest first.</summary>
+    Task<IReadOnlyList<TimeSeriesBucket>> GetTimeSeriesAsync(DateTime from, TimeSpan bucket);
 
     // Used by tests and initial cache load
     Task<IReadOnlyList<Transaction>> GetAllAsync();
@@ -35,4 +35,29 @@ public class Transaction
 
     /// <summary>Transaction time — ISO 8601</summary>
     public DateTime Timestamp { get; set; }
+
+    /// <summary>
+    /// Server clock at the last accepted upsert — set by the service, never by clients.
+    /// Lets reconnecting clients ask for "everything changed since X".
+    /// </summary>
+    public DateTime UpdatedAt { get; set; }
+}
+
+/// <summary>
+/// One step in a transaction's lifecycle (e.g. Pending → Failed → Completed).
+/// Append-only — written by the upsert whenever a transaction is created
+/// or its status changes, so the overwrite-in-place on Transaction
+/// doesn't lose how it got there.
+/// </summary>
+public class TransactionStatusChange
+{
+    public long Id { get; set; }
+
+    public required string TransactionId { get; set; }
+
+    /// <summary>Status the transaction moved into</summary>
+    public TransactionStatus Status { get; set; }
+
+    /// <summary>Timestamp of the upsert that caused the change</summary>
+    public DateTime Timestamp { get; set; }
 }
@@ -1,5 +1,6 @@
 using FinancialMonitor.API.Apis;
 using FinancialMonitor.API.Data;
+using FinancialMonitor.API.DTOs;
 using FinancialMonitor.API.Hubs;
 using FinancialMonitor.API.Interfaces;
 using FinancialMonitor.API.Messaging;
@@ -10,9 +11,13 @@ using StackExchange.Redis;
 var builder = WebApplication.CreateBuilder(args);
 
 // ─── JSON ───────────────────────────────────────────────────────────────────
+// Amounts travel as strings (DecimalStringConverter) — same on HTTP and SignalR
 builder.Services.ConfigureHttpJsonOptions(o =>
+{
     o.SerializerOptions.Converters.Add(
-        new System.Text.Json.Serialization.JsonStringEnumConverter()));
+        new System.Text.Json.Serialization.JsonStringEnumConverter());
+    o.SerializerOptions.Converters.Add(new DecimalStringConverter());
+});
 
 // ─── DATABASE ───────────────────────────────────────────────────────────────
 // Dev  → SQLite  (zero setup, file on disk)
@@ -54,7 +59,8 @@ builder.Services.AddDbContextFactory<AppDbContext>(options =>
 var redisConn = builder.Configuration["Redis:ConnectionString"];
 var hasRedis  = false;
 
-var signalRBuilder = builder.Services.AddSignalR();
+var signalRBuilder = builder.Services.AddSignalR()
+    .AddJsonProtocol(o => o.PayloadSerializerOptions.Converters.Add(new DecimalStringConverter()));
 
 if (!string.IsNullOrWhiteSpace(redisConn))
 {
@@ -113,15 +119,18 @@ var allowedOrigins = builder.Configuration["CORS:AllowedOrigins"]?.Split(',') ??
 builder.Services.AddCors(o =>
     o.AddPolicy("AllowFrontend", p =>
         p.WithOrigins(allowedOrigins)
-         .AllowAnyHeader().AllowAnyMethod().AllowCredentials()));
+         .AllowAnyHeader().AllowAnyMethod().AllowCredentials()
+         // Export progress (row count) and file name, readable from fetch
+         .WithExposedHeaders("X-Total-Count", "Content-Disposition")));
 
 var app = builder.Build();
 
-// Auto-create DB schema on startup
+// Auto-create DB schema on startup — and bring a database from an earlier version up to date
 using (var scope = app.Services.CreateScope())
 {
     var db = scope.ServiceProvider.GetRequiredService<AppDbContext>();
     await db.Database.EnsureCreatedAsync();
+    await SchemaUpgrade.ApplyAsync(db);
 }
 
 app.UseSwagger();
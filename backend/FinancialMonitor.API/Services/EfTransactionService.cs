@@ -1,4 +1,5 @@
 using System.Collections.Concurrent;
+using System.Runtime.CompilerServices;
 using Microsoft.EntityFrameworkCore;
 using FinancialMonitor.API.Data;
 using FinancialMonitor.API.DTOs;
@@ -31,46 +32,184 @@ public class EfTransactionService : ITransactionService, ITransactionCacheUpdate
 
     public async Task<(bool IsNew, string? Error)> UpsertTransactionAsync(Transaction transaction)
     {
-        if (string.IsNullOrWhiteSpace(transaction.TransactionId))
-            return (false, "TransactionId is required");
-        if (!Guid.TryParse(transaction.TransactionId, out _))
-            return (false, "TransactionId must be a valid GUID");
-        if (string.IsNullOrWhiteSpace(transaction.Currency))
-            return (false, "Currency is required");
+        var (outcome, error) = await UpsertOneAsync(transaction);
+
+        // A stale version isn't an error to single-row callers — it just changes nothing
+        return (outcome == UpsertOutcome.Created, error == UpsertResult.StaleError ? null : error);
+    }
+
+    /// <summary>
+    /// The guarded single-row upsert. Unlike the public signature it tells a stale
+    /// version (Rejected with StaleError) apart from an update, for the batch fallback.
+    /// </summary>
+    private async Task<(UpsertOutcome Outcome, string? Error)> UpsertOneAsync(Transaction transaction)
+    {
+        var error = TransactionValidator.Validate(transaction);
+        if (error != null)
+            return (UpsertOutcome.Rejected, error);
 
         await EnsureCacheLoadedAsync();
 
         // Timestamp guard — ignore stale/out-of-order messages
         if (_cache.TryGetValue(transaction.TransactionId, out var existing)
             && transaction.Timestamp <= existing.Timestamp)
-            return (false, null);
+            return (UpsertOutcome.Rejected, UpsertResult.StaleError);
 
         var isNew = !_cache.ContainsKey(transaction.TransactionId);
+        var statusChanged = existing is null || existing.Status != transaction.Status;
+        transaction.UpdatedAt = DateTime.UtcNow;
 
         await using var db = await _dbFactory.CreateDbContextAsync();
         if (isNew)
         {
             db.Transactions.Add(transaction);
+            db.StatusChanges.Add(ToStatusChange(transaction));
             await db.SaveChangesAsync();
         }
         else
         {
-            await db.Transactions
+            // ExecuteUpdate commits on its own — keep it and the history row in one DB transaction,
+            // so a failed history write can't leave an update without its transition
+            await using var dbTransaction = await db.Database.BeginTransactionAsync();
+
+            var updated = await db.Transactions
                 .Where(t => t.TransactionId == transaction.TransactionId
                          && t.Timestamp < transaction.Timestamp)
                 .ExecuteUpdateAsync(s => s
                     .SetProperty(t => t.Status,    transaction.Status)
                     .SetProperty(t => t.Amount,    transaction.Amount)
                     .SetProperty(t => t.Currency,  transaction.Currency)
-                    .SetProperty(t => t.Timestamp, transaction.Timestamp));
+                    .SetProperty(t => t.Timestamp, transaction.Timestamp)
+                    .SetProperty(t => t.UpdatedAt, transaction.UpdatedAt));
+
+            // The DB holds a newer version than the cache knew of — nothing changed
+            if (updated == 0)
+                return (UpsertOutcome.Rejected, UpsertResult.StaleError);
+
+            // Only record a transition if the row actually moved to a new status
+            if (statusChanged)
+            {
+                db.StatusChanges.Add(ToStatusChange(transaction));
+                await db.SaveChangesAsync();
+            }
+            await dbTransaction.CommitAsync();
         }
 
-        _cache.AddOrUpdate(
-            transaction.TransactionId,
-            transaction,
-            (_, old) => transaction.Timestamp > old.Timestamp ? transaction : old);
+        UpdateCache(transaction);
+
+        return (isNew ? UpsertOutcome.Created : UpsertOutcome.Updated, null);
+    }
+
+    /// <summary>
+    /// One context, one existence query and one SaveChanges (a single DB transaction)
+    /// for the whole batch, instead of a round trip per row. Within the batch, the latest
+    /// Timestamp per ID wins and earlier copies are rejected as stale — same rule as across calls.
+    /// </summary>
+    public async Task<IReadOnlyList<UpsertResult>> UpsertBatchAsync(IReadOnlyList<Transaction> transactions)
+    {
+        var results = new UpsertResult[transactions.Count];
+
+        // Index of the version to store per ID
+        var latest = new Dictionary<string, int>();
+        for (var i = 0; i < transactions.Count; i++)
+        {
+            var transaction = transactions[i];
+            var error = TransactionValidator.Validate(transaction);
+            if (error != null)
+            {
+                results[i] = UpsertResult.Reject(i, transaction.TransactionId, error);
+                continue;
+            }
+
+            if (latest.TryGetValue(transaction.TransactionId, out var other))
+            {
+                var (keep, drop) = transaction.Timestamp > transactions[other].Timestamp ? (i, other) : (other, i);
+                results[drop] = UpsertResult.Reject(drop, transaction.TransactionId, UpsertResult.StaleError);
+                latest[transaction.TransactionId] = keep;
+            }
+            else
+            {
+                latest[transaction.TransactionId] = i;
+            }
+        }
+
+        if (latest.Count == 0)
+            return results;
 
-        return (isNew, null);
+        try
+        {
+            await SaveBatchAsync(transactions, latest, results);
+        }
+        catch (DbUpdateException)
+        {
+            // Another writer inserted one of these IDs in between — nothing was saved,
+            // so fall back to the guarded row-by-row path for this batch
+            foreach (var i in latest.Values)
+            {
+                var (outcome, error) = await UpsertOneAsync(transactions[i]);
+                results[i] = error != null
+                    ? UpsertResult.Reject(i, transactions[i].TransactionId, error)
+                    : new UpsertResult(i, transactions[i].TransactionId, outcome);
+            }
+        }
+
+        return results;
+    }
+
+    private async Task SaveBatchAsync(
+        IReadOnlyList<Transaction> transactions, Dictionary<string, int> latest, UpsertResult[] results)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync();
+
+        // The DB, not the bounded cache, decides what already exists
+        var ids = latest.Keys.ToList();
+        var existing = await db.Transactions
+            .Where(t => ids.Contains(t.TransactionId))
+            .ToDictionaryAsync(t => t.TransactionId);
+
+        // Outcomes reach `results` only once SaveChanges succeeds — if it throws, the
+        // fallback starts from untouched slots, not from Created/Updated that never happened
+        var outcomes = new List<UpsertResult>(latest.Count);
+        var now = DateTime.UtcNow;
+        var accepted = new List<Transaction>(latest.Count);
+        foreach (var (id, i) in latest)
+        {
+            var transaction = transactions[i];
+            transaction.UpdatedAt = now;
+
+            if (existing.TryGetValue(id, out var row))
+            {
+                // Timestamp guard — ignore stale/out-of-order versions
+                if (transaction.Timestamp <= row.Timestamp)
+                {
+                    outcomes.Add(UpsertResult.Reject(i, id, UpsertResult.StaleError));
+                    continue;
+                }
+                if (row.Status != transaction.Status)
+                    db.StatusChanges.Add(ToStatusChange(transaction));
+
+                row.Amount    = transaction.Amount;
+                row.Currency  = transaction.Currency;
+                row.Status    = transaction.Status;
+                row.Timestamp = transaction.Timestamp;
+                row.UpdatedAt = transaction.UpdatedAt;
+                outcomes.Add(new UpsertResult(i, id, UpsertOutcome.Updated));
+            }
+            else
+            {
+                db.Transactions.Add(transaction);
+                db.StatusChanges.Add(ToStatusChange(transaction));
+                outcomes.Add(new UpsertResult(i, id, UpsertOutcome.Created));
+            }
+            accepted.Add(transaction);
+        }
+
+        await db.SaveChangesAsync();
+
+        foreach (var outcome in outcomes)
+            results[outcome.Index] = outcome;
+        foreach (var transaction in accepted)
+            UpdateCache(transaction);
     }
 
     public void UpdateCache(Transaction transaction) =>
@@ -83,17 +222,16 @@ public class EfTransactionService : ITransactionService, ITransactionCacheUpdate
     /// Pagination directly on DB — doesn't load everything into memory.
     /// </summary>
     public async Task<(IReadOnlyList<Transaction> Items, int TotalCount)> GetPagedAsync(
-        int page, int pageSize, TransactionStatus? status = null)
+        int page, int pageSize, TransactionFilter? filter = null, TransactionSort? sort = null)
     {
         await using var db = await _dbFactory.CreateDbContextAsync();
 
         var query = db.Transactions.AsNoTracking();
-        if (status.HasValue)
-            query = query.Where(t => t.Status == status.Value);
+        if (filter is not null)
+            query = filter.Apply(query);
 
         var totalCount = await query.CountAsync();
-        var items = await query
-            .OrderByDescending(t => t.Timestamp)
+        var items = await (sort ?? TransactionSort.Default).Apply(query)
             .Skip((page - 1) * pageSize)
             .Take(pageSize)
             .ToListAsync();
@@ -101,29 +239,151 @@ public class EfTransactionService : ITransactionService, ITransactionCacheUpdate
         return (items.AsReadOnly(), totalCount);
     }
 
+    /// <summary>
+    /// Keyset pagination — WHERE (Timestamp, Id) &lt; cursor instead of OFFSET,
+    /// so deep pages cost the same as the first and live inserts can't shift rows.
+    /// </summary>
+    public async Task<(IReadOnlyList<Transaction> Items, bool HasMore)> GetAfterCursorAsync(
+        TransactionCursor? after, int pageSize, TransactionFilter? filter = null)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync();
+
+        var query = db.Transactions.AsNoTracking();
+        if (filter is not null)
+            query = filter.Apply(query);
+        if (after is not null)
+            query = after.ApplyAfter(query);
+
+        // Fetch one extra row to learn whether another page exists without a COUNT
+        var items = await TransactionSort.Default.Apply(query)
+            .Take(pageSize + 1)
+            .ToListAsync();
+
+        var hasMore = items.Count > pageSize;
+        if (hasMore) items.RemoveAt(pageSize);
+        return (items.AsReadOnly(), hasMore);
+    }
+
+    public async Task<int> CountAsync(TransactionFilter? filter = null)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync();
+        var query = db.Transactions.AsNoTracking();
+        if (filter is not null)
+            query = filter.Apply(query);
+        return await query.CountAsync();
+    }
+
+    /// <summary>
+    /// One DB cursor for the whole export — rows are yielded as they are read,
+    /// so memory stays flat however many match. Cancelling stops the query.
+    /// </summary>
+    public async IAsyncEnumerable<Transaction> StreamAsync(
+        TransactionFilter? filter = null,
+        TransactionSort? sort = null,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync(cancellationToken);
+
+        var query = db.Transactions.AsNoTracking();
+        if (filter is not null)
+            query = filter.Apply(query);
+
+        var rows = (sort ?? TransactionSort.Default).Apply(query)
+            .AsAsyncEnumerable()
+            .WithCancellation(cancellationToken);
+        await foreach (var tx in rows)
+            yield return tx;
+    }
+
+    /// <summary>
+    /// Change feed straight from the DB — the cache only holds the newest 2000 by
+    /// Timestamp, while an update to an older row is just as much a missed event.
+    /// </summary>
+    public async Task<(IReadOnlyList<Transaction> Items, bool HasMore)> GetChangedSinceAsync(
+        ChangeFeedPosition from, int limit)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync();
+
+        var query = from.ApplyFrom(db.Transactions.AsNoTracking());
+        var items = await ChangeFeedPosition.Order(query)
+            .Take(limit + 1)
+            .ToListAsync();
+
+        var hasMore = items.Count > limit;
+        if (hasMore) items.RemoveAt(limit);
+        return (items.AsReadOnly(), hasMore);
+    }
+
     /// <summary>
     /// Stats via GROUP BY in SQL — not loading everything into memory.
+    /// Percentiles are one ORDER BY … OFFSET k LIMIT 1 each; amounts are cast to
+    /// double for ordering/averaging because SQLite can't do either on decimal.
     /// </summary>
-    public async Task<TransactionStatsDto> GetStatsAsync()
+    public async Task<TransactionStatsDto> GetStatsAsync(DateTime? since = null)
     {
         await using var db = await _dbFactory.CreateDbContextAsync();
 
-        var total     = await db.Transactions.CountAsync();
-        var completed = await db.Transactions.CountAsync(t => t.Status == TransactionStatus.Completed);
-        var failed    = await db.Transactions.CountAsync(t => t.Status == TransactionStatus.Failed);
-        var pending   = await db.Transactions.CountAsync(t => t.Status == TransactionStatus.Pending);
+        var query = db.Transactions.AsNoTracking();
+        if (since is not null)
+            query = query.Where(t => t.Timestamp >= since);
+
+        var total     = await query.CountAsync();
+        var completed = await query.CountAsync(t => t.Status == TransactionStatus.Completed);
+        var failed    = await query.CountAsync(t => t.Status == TransactionStatus.Failed);
+        var pending   = await query.CountAsync(t => t.Status == TransactionStatus.Pending);
 
-        var volumes = await db.Transactions
+        var volumes = await query
             .GroupBy(t => t.Currency)
             .Select(g => new { Currency = g.Key, Total = g.Sum(t => t.Amount) })
             .ToListAsync();
 
+        var average = total == 0 ? 0 : (decimal)await query.AverageAsync(t => (double)t.Amount);
+
+        var byAmount = query.OrderBy(t => (double)t.Amount).Select(t => t.Amount);
+        async Task<decimal> Percentile(double p) =>
+            total == 0 ? 0 : await byAmount.Skip(TransactionStatsDto.NearestRank(total, p)).FirstAsync();
+
         return new TransactionStatsDto(
             Total:              total,
             Completed:          completed,
             Failed:             failed,
             Pending:            pending,
-            VolumeByCurrency:   volumes.ToDictionary(v => v.Currency, v => v.Total));
+            VolumeByCurrency:   volumes.ToDictionary(v => v.Currency, v => v.Total),
+            FailureRate:        TransactionStatsDto.FailureRateOf(completed, failed),
+            AverageAmount:      average,
+            P50Amount:          await Percentile(0.50),
+            P95Amount:          await Percentile(0.95),
+            P99Amount:          await Percentile(0.99),
+            From:               since);
+    }
+
+    /// <summary>
+    /// Bucketing happens in memory over a narrow streamed projection — date
+    /// truncation isn't portable across SQLite and PostgreSQL in LINQ.
+    /// </summary>
+    public async Task<IReadOnlyList<TimeSeriesBucket>> GetTimeSeriesAsync(DateTime from, TimeSpan bucket)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync();
+        var builder = new TimeSeriesBuilder(from, bucket);
+        var since   = builder.From;
+
+        var changes = db.StatusChanges
+            .AsNoTracking()
+            .Where(c => c.Timestamp >= since)
+            .Select(c => new { c.Timestamp, c.Status })
+            .AsAsyncEnumerable();
+        await foreach (var c in changes)
+            builder.AddStatus(c.Timestamp, c.Status);
+
+        var volumes = db.Transactions
+            .AsNoTracking()
+            .Where(t => t.Timestamp >= since)
+            .Select(t => new { t.Timestamp, t.Currency, t.Amount })
+            .AsAsyncEnumerable();
+        await foreach (var v in volumes)
+            builder.AddVolume(v.Timestamp, v.Currency, v.Amount);
+
+        return builder.Build();
     }
 
     public async Task<Transaction?> GetByIdAsync(string id)
@@ -135,6 +395,17 @@ public class EfTransactionService : ITransactionService, ITransactionCacheUpdate
         return await db.Transactions.FindAsync(id);
     }
 
+    public async Task<IReadOnlyList<TransactionStatusChange>> GetStatusHistoryAsync(string id)
+    {
+        await using var db = await _dbFactory.CreateDbContextAsync();
+        var history = await db.StatusChanges
+            .AsNoTracking()
+            .Where(c => c.TransactionId == id)
+            .OrderBy(c => c.Timestamp)
+            .ToListAsync();
+        return history.AsReadOnly();
+    }
+
     public async Task<IReadOnlyList<Transaction>> GetAllAsync()
     {
         await EnsureCacheLoadedAsync();
@@ -151,6 +422,13 @@ public class EfTransactionService : ITransactionService, ITransactionCacheUpdate
             .AsReadOnly();
     }
 
+    private static TransactionStatusChange ToStatusChange(Transaction transaction) => new()
+    {
+        TransactionId = transaction.TransactionId,
+        Status        = transaction.Status,
+        Timestamp     = transaction.Timestamp,
+    };
+
     private async Task EnsureCacheLoadedAsync()
     {
         if (_cacheLoaded) return;
@@ -1,4 +1,5 @@
 using System.Collections.Concurrent;
+using System.Runtime.CompilerServices;
 using FinancialMonitor.API.DTOs;
 using FinancialMonitor.API.Interfaces;
 using FinancialMonitor.API.Models;
@@ -13,25 +14,63 @@ namespace FinancialMonitor.API.Services;
 public class InMemoryTransactionService : ITransactionService, ITransactionCacheUpdater
 {
     private readonly ConcurrentDictionary<string, Transaction> _transactions = new();
+    private readonly ConcurrentDictionary<string, List<TransactionStatusChange>> _history = new();
 
     public Task<(bool IsNew, string? Error)> UpsertTransactionAsync(Transaction transaction)
     {
-        if (string.IsNullOrWhiteSpace(transaction.TransactionId))
-            return Task.FromResult<(bool, string?)>((false, "TransactionId is required"));
-        if (!Guid.TryParse(transaction.TransactionId, out _))
-            return Task.FromResult<(bool, string?)>((false, "TransactionId must be a valid GUID"));
-        if (string.IsNullOrWhiteSpace(transaction.Currency))
-            return Task.FromResult<(bool, string?)>((false, "Currency is required"));
-
-        var isNew = !_transactions.ContainsKey(transaction.TransactionId);
-        _transactions.AddOrUpdate(
+        var error = TransactionValidator.Validate(transaction);
+        if (error != null)
+            return Task.FromResult<(bool, string?)>((false, error));
+
+        transaction.UpdatedAt = DateTime.UtcNow;
+        _transactions.TryGetValue(transaction.TransactionId, out var previous);
+        var isNew = previous is null;
+        var stored = _transactions.AddOrUpdate(
             transaction.TransactionId,
             transaction,
             (_, old) => transaction.Timestamp > old.Timestamp ? transaction : old);
 
+        // Record a transition only when this upsert won and moved the status
+        if (ReferenceEquals(stored, transaction) && previous?.Status != transaction.Status)
+            RecordStatusChange(transaction);
+
         return Task.FromResult<(bool, string?)>((isNew, null));
     }
 
+    public Task<IReadOnlyList<UpsertResult>> UpsertBatchAsync(IReadOnlyList<Transaction> transactions)
+    {
+        var results = new List<UpsertResult>(transactions.Count);
+        for (var i = 0; i < transactions.Count; i++)
+        {
+            var transaction = transactions[i];
+            var error = TransactionValidator.Validate(transaction);
+            if (error != null)
+            {
+                results.Add(UpsertResult.Reject(i, transaction.TransactionId, error));
+                continue;
+            }
+
+            transaction.UpdatedAt = DateTime.UtcNow;
+            _transactions.TryGetValue(transaction.TransactionId, out var previous);
+            var stored = _transactions.AddOrUpdate(
+                transaction.TransactionId,
+                transaction,
+                (_, old) => transaction.Timestamp > old.Timestamp ? transaction : old);
+
+            if (!ReferenceEquals(stored, transaction))
+            {
+                results.Add(UpsertResult.Reject(i, transaction.TransactionId, UpsertResult.StaleError));
+                continue;
+            }
+            if (previous?.Status != transaction.Status)
+                RecordStatusChange(transaction);
+
+            results.Add(new UpsertResult(
+                i, transaction.TransactionId, previous is null ? UpsertOutcome.Created : UpsertOutcome.Updated));
+        }
+        return Task.FromResult<IReadOnlyList<UpsertResult>>(results);
+    }
+
     public void UpdateCache(Transaction transaction) =>
         _transactions.AddOrUpdate(
             transaction.TransactionId,
@@ -39,28 +78,108 @@ public class InMemoryTransactionService : ITransactionService, ITransactionCache
             (_, old) => transaction.Timestamp > old.Timestamp ? transaction : old);
 
     public Task<(IReadOnlyList<Transaction> Items, int TotalCount)> GetPagedAsync(
-        int page, int pageSize, TransactionStatus? status = null)
+        int page, int pageSize, TransactionFilter? filter = null, TransactionSort? sort = null)
     {
-        var query = _transactions.Values.AsEnumerable();
-        if (status.HasValue) query = query.Where(t => t.Status == status.Value);
-        var ordered = query.OrderByDescending(t => t.Timestamp).ToList();
+        var query = _transactions.Values.AsQueryable();
+        if (filter is not null) query = filter.Apply(query);
+        var ordered = (sort ?? TransactionSort.Default).Apply(query).ToList();
         var items   = ordered.Skip((page - 1) * pageSize).Take(pageSize).ToList();
         return Task.FromResult<(IReadOnlyList<Transaction>, int)>((items.AsReadOnly(), ordered.Count));
     }
 
+    public Task<(IReadOnlyList<Transaction> Items, bool HasMore)> GetAfterCursorAsync(
+        TransactionCursor? after, int pageSize, TransactionFilter? filter = null)
+    {
+        var query = _transactions.Values.AsQueryable();
+        if (filter is not null) query = filter.Apply(query);
+        if (after is not null)  query = after.ApplyAfter(query);
+        var items   = TransactionSort.Default.Apply(query).Take(pageSize + 1).ToList();
+        var hasMore = items.Count > pageSize;
+        if (hasMore) items.RemoveAt(pageSize);
+        return Task.FromResult<(IReadOnlyList<Transaction>, bool)>((items.AsReadOnly(), hasMore));
+    }
+
+    public Task<int> CountAsync(TransactionFilter? filter = null)
+    {
+        var query = _transactions.Values.AsQueryable();
+        if (filter is not null) query = filter.Apply(query);
+        return Task.FromResult(query.Count());
+    }
+
+    public async IAsyncEnumerable<Transaction> StreamAsync(
+        TransactionFilter? filter = null,
+        TransactionSort? sort = null,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var query = _transactions.Values.AsQueryable();
+        if (filter is not null) query = filter.Apply(query);
+        var items = (sort ?? TransactionSort.Default).Apply(query).ToList();
+
+        await Task.Yield();
+        foreach (var tx in items)
+        {
+            cancellationToken.ThrowIfCancellationRequested();
+            yield return tx;
+        }
+    }
+
+    public Task<(IReadOnlyList<Transaction> Items, bool HasMore)> GetChangedSinceAsync(
+        ChangeFeedPosition from, int limit)
+    {
+        var query   = from.ApplyFrom(_transactions.Values.AsQueryable());
+        var items   = ChangeFeedPosition.Order(query).Take(limit + 1).ToList();
+        var hasMore = items.Count > limit;
+        if (hasMore) items.RemoveAt(limit);
+        return Task.FromResult<(IReadOnlyList<Transaction>, bool)>((items.AsReadOnly(), hasMore));
+    }
+
     public Task<Transaction?> GetByIdAsync(string id) =>
         Task.FromResult(_transactions.GetValueOrDefault(id));
 
-    public Task<TransactionStatsDto> GetStatsAsync()
+    public Task<IReadOnlyList<TransactionStatusChange>> GetStatusHistoryAsync(string id)
+    {
+        if (!_history.TryGetValue(id, out var changes))
+            return Task.FromResult<IReadOnlyList<TransactionStatusChange>>([]);
+        lock (changes)
+            return Task.FromResult<IReadOnlyList<TransactionStatusChange>>(
+                changes.OrderBy(c => c.Timestamp).ToList().AsReadOnly());
+    }
+
+    public Task<TransactionStatsDto> GetStatsAsync(DateTime? since = null)
     {
-        var all = _transactions.Values;
+        var all = _transactions.Values.Where(t => since is null || t.Timestamp >= since).ToList();
+        var amounts   = all.Select(t => t.Amount).Order().ToList();
+        var completed = all.Count(t => t.Status == TransactionStatus.Completed);
+        var failed    = all.Count(t => t.Status == TransactionStatus.Failed);
+
+        decimal Percentile(double p) =>
+            amounts.Count == 0 ? 0 : amounts[TransactionStatsDto.NearestRank(amounts.Count, p)];
+
         return Task.FromResult(new TransactionStatsDto(
-            Total:             all.Count(),
-            Completed:         all.Count(t => t.Status == TransactionStatus.Completed),
-            Failed:            all.Count(t => t.Status == TransactionStatus.Failed),
+            Total:             all.Count,
+            Completed:         completed,
+            Failed:            failed,
             Pending:           all.Count(t => t.Status == TransactionStatus.Pending),
             VolumeByCurrency:  all.GroupBy(t => t.Currency)
-                                  .ToDictionary(g => g.Key, g => g.Sum(t => t.Amount))));
+                                  .ToDictionary(g => g.Key, g => g.Sum(t => t.Amount)),
+            FailureRate:       TransactionStatsDto.FailureRateOf(completed, failed),
+            AverageAmount:     amounts.Count == 0 ? 0 : amounts.Average(),
+            P50Amount:         Percentile(0.50),
+            P95Amount:         Percentile(0.95),
+            P99Amount:         Percentile(0.99),
+            From:              since));
+    }
+
+    public Task<IReadOnlyList<TimeSeriesBucket>> GetTimeSeriesAsync(DateTime from, TimeSpan bucket)
+    {
+        var builder = new TimeSeriesBuilder(from, bucket);
+        foreach (var changes in _history.Values)
+            lock (changes)
+                foreach (var change in changes)
+                    builder.AddStatus(change.Timestamp, change.Status);
+        foreach (var tx in _transactions.Values)
+            builder.AddVolume(tx.Timestamp, tx.Currency, tx.Amount);
+        return Task.FromResult(builder.Build());
     }
 
     public Task<IReadOnlyList<Transaction>> GetAllAsync() =>
@@ -71,4 +190,16 @@ public class InMemoryTransactionService : ITransactionService, ITransactionCache
         Task.FromResult<IReadOnlyList<Transaction>>(
             _transactions.Values.Where(t => t.Status == status)
                 .OrderByDescending(t => t.Timestamp).ToList().AsReadOnly());
+
+    private void RecordStatusChange(Transaction transaction)
+    {
+        var changes = _history.GetOrAdd(transaction.TransactionId, _ => []);
+        lock (changes)
+            changes.Add(new TransactionStatusChange
+            {
+                TransactionId = transaction.TransactionId,
+                Status        = transaction.Status,
+                Timestamp     = transaction.Timestamp,
+            });
+    }
 }
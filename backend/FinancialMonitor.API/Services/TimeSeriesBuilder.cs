@@ -0,0 +1,71 @@
+using FinancialMonitor.API.DTOs;
+using FinancialMonitor.API.Models;
+
+namespace FinancialMonitor.API.Services;
+
+/// <summary>
+/// Accumulates status transitions and volumes into fixed-width time buckets.
+/// Shared by both ITransactionService implementations so bucketing rules can't drift.
+/// Memory is O(buckets), not O(rows) — rows can be streamed through it.
+/// </summary>
+public sealed class TimeSeriesBuilder
+{
+    private readonly long _fromTicks;
+    private readonly long _bucketTicks;
+    private readonly SortedDictionary<long, Bucket> _buckets = new();
+
+    public TimeSeriesBuilder(DateTime from, TimeSpan bucket)
+    {
+        _bucketTicks = bucket.Ticks;
+        // Align to the bucket grid so every window shares boundaries with the live client buckets
+        _fromTicks = from.Ticks - from.Ticks % _bucketTicks;
+    }
+
+    public DateTime From => new(_fromTicks, DateTimeKind.Utc);
+
+    public void AddStatus(DateTime timestamp, TransactionStatus status)
+    {
+        var bucket = BucketAt(timestamp);
+        if (bucket is null) return;
+        switch (status)
+        {
+            case TransactionStatus.Pending:   bucket.Pending++;   break;
+            case TransactionStatus.Completed: bucket.Completed++; break;
+            case TransactionStatus.Failed:    bucket.Failed++;    break;
+        }
+    }
+
+    public void AddVolume(DateTime timestamp, string currency, decimal amount)
+    {
+        var bucket = BucketAt(timestamp);
+        if (bucket is null) return;
+        bucket.Volume[currency] = bucket.Volume.GetValueOrDefault(currency) + amount;
+    }
+
+    public IReadOnlyList<TimeSeriesBucket> Build() =>
+        _buckets
+            .Select(kv => new TimeSeriesBucket(
+                new DateTime(kv.Key, DateTimeKind.Utc),
+                kv.Value.Pending, kv.Value.Completed, kv.Value.Failed, kv.Value.Volume))
+            .ToList()
+            .AsReadOnly();
+
+    private Bucket? BucketAt(DateTime timestamp)
+    {
+        // Timestamps are stored as UTC; SQLite just forgets the Kind
+        var ticks = timestamp.Ticks;
+        if (ticks < _fromTicks) return null;
+        var start = ticks - (ticks - _fromTicks) % _bucketTicks;
+        if (!_buckets.TryGetValue(start, out var bucket))
+            _buckets[start] = bucket = new Bucket();
+        return bucket;
+    }
+
+    private sealed class Bucket
+    {
+        public int Pending;
+        public int Completed;
+        public int Failed;
+        public readonly Dictionary<string, decimal> Volume = new();
+    }
+}
@@ -0,0 +1,87 @@
+using System.Globalization;
+using System.Text;
+using System.Text.Json;
+using FinancialMonitor.API.DTOs;
+using FinancialMonitor.API.Models;
+
+namespace FinancialMonitor.API.Services;
+
+/// <summary>
+/// Writes a transaction stream to CSV, JSON or NDJSON as rows arrive.
+/// Every format puts one transaction per line (JSON too: "[", one element per line, "]"),
+/// so clients can count newlines for progress without parsing the body.
+/// </summary>
+public static class TransactionExporter
+{
+    public const string CsvHeader = "transactionId,amount,currency,status,timestamp,updatedAt";
+
+    /// <summary>Rows buffered between flushes — keeps the response moving without a flush per row</summary>
+    private const int FlushEvery = 500;
+
+    private static readonly UTF8Encoding Utf8NoBom = new(encoderShouldEmitUTF8Identifier: false);
+
+    /// <summary>Returns the number of rows written.</summary>
+    public static async Task<int> WriteAsync(
+        Stream output,
+        IAsyncEnumerable<Transaction> rows,
+        ExportFormat format,
+        JsonSerializerOptions jsonOptions,
+        CancellationToken cancellationToken = default)
+    {
+        await using var writer = new StreamWriter(output, Utf8NoBom, bufferSize: 16 * 1024, leaveOpen: true);
+        writer.NewLine = "\n";
+
+        if (format == ExportFormat.Csv)  await writer.WriteLineAsync(CsvHeader);
+        if (format == ExportFormat.Json) await writer.WriteLineAsync("[");
+
+        var count = 0;
+        await foreach (var tx in rows.WithCancellation(cancellationToken))
+        {
+            if (format == ExportFormat.Csv)
+            {
+                await writer.WriteLineAsync(ToCsvLine(tx));
+            }
+            else
+            {
+                // JSON: the separator goes before the element, so the last line needs no lookahead
+                if (format == ExportFormat.Json && count > 0) await writer.WriteLineAsync(",");
+                await writer.WriteAsync(JsonSerializer.Serialize(tx, jsonOptions));
+                if (format == ExportFormat.Ndjson) await writer.WriteLineAsync();
+            }
+
+            if (++count % FlushEvery == 0)
+                await writer.FlushAsync(cancellationToken);
+        }
+
+        if (format == ExportFormat.Json)
+        {
+            if (count > 0) await writer.WriteLineAsync();
+            await writer.WriteLineAsync("]");
+        }
+
+        await writer.FlushAsync(cancellationToken);
+        return count;
+    }
+
+    public static string ToCsvLine(Transaction tx) => string.Join(',',
+        CsvField(tx.TransactionId),
+        DecimalStringConverter.Format(tx.Amount),
+        CsvField(tx.Currency),
+        tx.Status.ToString(),
+        tx.Timestamp.ToString("O", CultureInfo.InvariantCulture),
+        tx.UpdatedAt.ToString("O", CultureInfo.InvariantCulture));
+
+    /// <summary>
+    /// RFC 4180 quoting, plus a leading ' on anything a spreadsheet would run as a
+    /// formula (=, +, -, @, tab, CR) — ids and currencies come from clients.
+    /// </summary>
+    private static string CsvField(string value)
+    {
+        if (value.Length > 0 && "=+-@\t\r".Contains(value[0]))
+            value = "'" + value;
+
+        return value.IndexOfAny([',', '"', '\n', '\r']) >= 0
+            ? $"\"{value.Replace("\"", "\"\"")}\""
+            : value;
+    }
+}
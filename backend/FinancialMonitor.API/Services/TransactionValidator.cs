@@ -0,0 +1,30 @@
+using FinancialMonitor.API.Models;
+
+namespace FinancialMonitor.API.Services;
+
+/// <summary>
+/// Upsert rules shared by both ITransactionService implementations, single and batch,
+/// so what gets accepted can't drift. The frontend mirrors these in transactionValidation.ts.
+/// </summary>
+public static class TransactionValidator
+{
+    /// <summary>Returns an error message, null if the transaction may be stored.</summary>
+    public static string? Validate(Transaction transaction) => ValidateField(transaction)?.Message;
+
+    /// <summary>
+    /// The first failing rule with the JSON name of the field it concerns —
+    /// lets the API point a form at the offending input.
+    /// </summary>
+    public static (string Field, string Message)? ValidateField(Transaction transaction)
+    {
+        if (string.IsNullOrWhiteSpace(transaction.TransactionId))
+            return ("transactionId", "TransactionId is required");
+        if (!Guid.TryParse(transaction.TransactionId, out _))
+            return ("transactionId", "TransactionId must be a valid GUID");
+        if (transaction.Amount <= 0)
+            return ("amount", "Amount must be positive");
+        if (string.IsNullOrWhiteSpace(transaction.Currency))
+            return ("currency", "Currency is required");
+        return null;
+    }
+}
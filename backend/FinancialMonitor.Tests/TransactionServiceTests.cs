@@ -1,4 +1,6 @@
+using System.Text.Json;
 using Xunit;
+using FinancialMonitor.API.DTOs;
 using FinancialMonitor.API.Models;
 using FinancialMonitor.API.Services;
 
@@ -78,6 +80,49 @@ public class TransactionServiceTests
         Assert.Equal(TransactionStatus.Completed, result.Status);
     }
 
+    // ═══════════════════════════════════════
+    // STATUS HISTORY
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task StatusHistory_RecordsEachTransitionInOrder()
+    {
+        var service = new InMemoryTransactionService();
+        var id = Guid.NewGuid().ToString();
+        var now = DateTime.UtcNow;
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Pending,   now));
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Failed,    now.AddSeconds(1)));
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Completed, now.AddSeconds(2)));
+        var history = await service.GetStatusHistoryAsync(id);
+        Assert.Equal(
+            new[] { TransactionStatus.Pending, TransactionStatus.Failed, TransactionStatus.Completed },
+            history.Select(c => c.Status));
+    }
+
+    [Fact]
+    public async Task StatusHistory_SameStatusUpdate_DoesNotAddEntry()
+    {
+        var service = new InMemoryTransactionService();
+        var id = Guid.NewGuid().ToString();
+        var now = DateTime.UtcNow;
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Pending, now));
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Pending, now.AddSeconds(1)));
+        Assert.Single(await service.GetStatusHistoryAsync(id));
+    }
+
+    [Fact]
+    public async Task StatusHistory_StaleUpdate_IsNotRecorded()
+    {
+        var service = new InMemoryTransactionService();
+        var id = Guid.NewGuid().ToString();
+        var now = DateTime.UtcNow;
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Completed, now));
+        await service.UpsertTransactionAsync(CreateTx(id, TransactionStatus.Pending,   now.AddMinutes(-5)));
+        var history = await service.GetStatusHistoryAsync(id);
+        Assert.Single(history);
+        Assert.Equal(TransactionStatus.Completed, history[0].Status);
+    }
+
     // ═══════════════════════════════════════
     // SORTING & FILTERING
     // ═══════════════════════════════════════
@@ -109,6 +154,250 @@ public class TransactionServiceTests
         Assert.Equal(2, failed.Count);
     }
 
+    [Fact]
+    public async Task GetPaged_FilterByCurrencyAndAmountRange_ReturnsOnlyMatches()
+    {
+        var service = new InMemoryTransactionService();
+        await service.UpsertTransactionAsync(CreateTx(currency: "EUR", amount: 50m));
+        await service.UpsertTransactionAsync(CreateTx(currency: "EUR", amount: 500m));
+        await service.UpsertTransactionAsync(CreateTx(currency: "USD", amount: 500m));
+        var (items, total) = await service.GetPagedAsync(1, 50,
+            new TransactionFilter(Currency: "eur", MinAmount: 100m, MaxAmount: 1000m));
+        Assert.Equal(1, total);
+        Assert.Equal(500m, items[0].Amount);
+        Assert.Equal("EUR", items[0].Currency);
+    }
+
+    [Fact]
+    public async Task GetPaged_FilterByIdPrefixAndTimeRange_ReturnsOnlyMatches()
+    {
+        var service = new InMemoryTransactionService();
+        var now = DateTime.UtcNow;
+        var target = Guid.NewGuid().ToString();
+        await service.UpsertTransactionAsync(CreateTx(target, timestamp: now));
+        await service.UpsertTransactionAsync(CreateTx(timestamp: now.AddDays(-2)));
+        var (byPrefix, _) = await service.GetPagedAsync(1, 50, new TransactionFilter(IdPrefix: target[..8]));
+        var (byRange, _)  = await service.GetPagedAsync(1, 50,
+            new TransactionFilter(From: now.AddHours(-1), To: now.AddHours(1)));
+        Assert.Equal(target, Assert.Single(byPrefix).TransactionId);
+        Assert.Equal(target, Assert.Single(byRange).TransactionId);
+    }
+
+    [Fact]
+    public async Task GetPaged_SortByAmountAscending_ReturnsSmallestFirst()
+    {
+        var service = new InMemoryTransactionService();
+        await service.UpsertTransactionAsync(CreateTx(amount: 300m));
+        await service.UpsertTransactionAsync(CreateTx(amount: 100m));
+        await service.UpsertTransactionAsync(CreateTx(amount: 200m));
+        var (items, _) = await service.GetPagedAsync(1, 50,
+            sort: new TransactionSort(TransactionSortField.Amount, Descending: false));
+        Assert.Equal(new[] { 100m, 200m, 300m }, items.Select(t => t.Amount));
+    }
+
+    [Fact]
+    public void SortParse_IsCaseInsensitive_AndRejectsUnknownFields()
+    {
+        var (sort, error) = TransactionSort.Parse("AMOUNT", "Asc");
+        Assert.Null(error);
+        Assert.Equal(new TransactionSort(TransactionSortField.Amount, Descending: false), sort);
+
+        var (_, badField) = TransactionSort.Parse("nope", null);
+        Assert.NotNull(badField);
+    }
+
+    [Fact]
+    public void Filter_InvertedAmountRange_IsInvalid()
+    {
+        var filter = new TransactionFilter(MinAmount: 10m, MaxAmount: 1m);
+        Assert.NotNull(filter.Validate());
+    }
+
+    // ═══════════════════════════════════════
+    // CURSOR PAGING
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task Cursor_NewInsertsBetweenPages_NoSkipsOrRepeats()
+    {
+        var service = new InMemoryTransactionService();
+        var now = DateTime.UtcNow;
+        for (var i = 0; i < 5; i++)
+            await service.UpsertTransactionAsync(CreateTx(timestamp: now.AddMinutes(-i)));
+
+        var (first, hasMore) = await service.GetAfterCursorAsync(null, 2);
+        Assert.True(hasMore);
+
+        // A live insert lands at the top — offset paging would shift everything by one
+        await service.UpsertTransactionAsync(CreateTx(timestamp: now.AddMinutes(1)));
+
+        var seen = first.Select(t => t.TransactionId).ToList();
+        var cursor = TransactionCursor.From(first[^1]);
+        while (true)
+        {
+            var (page, more) = await service.GetAfterCursorAsync(cursor, 2);
+            seen.AddRange(page.Select(t => t.TransactionId));
+            if (!more) break;
+            cursor = TransactionCursor.From(page[^1]);
+        }
+
+        Assert.Equal(5, seen.Count);
+        Assert.Equal(5, seen.Distinct().Count());
+    }
+
+    [Fact]
+    public void Cursor_EncodeDecode_RoundTrips()
+    {
+        var cursor = new TransactionCursor(DateTime.UtcNow, Guid.NewGuid().ToString());
+        Assert.Equal(cursor, TransactionCursor.TryDecode(cursor.Encode()));
+        Assert.Null(TransactionCursor.TryDecode("not a cursor!"));
+    }
+
+    // ═══════════════════════════════════════
+    // CHANGE FEED
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task ChangeFeed_ReturnsUpdatesToOldTransactions()
+    {
+        var service = new InMemoryTransactionService();
+        var old = CreateTx(status: TransactionStatus.Pending, timestamp: DateTime.UtcNow.AddDays(-1));
+        await service.UpsertTransactionAsync(old);
+        var since = old.UpdatedAt.AddTicks(1);
+
+        // Business timestamp is a day old, but the change happened now — it must be replayed
+        await service.UpsertTransactionAsync(
+            CreateTx(old.TransactionId, TransactionStatus.Completed, old.Timestamp.AddSeconds(1)));
+
+        var (items, hasMore) = await service.GetChangedSinceAsync(new ChangeFeedPosition(since), 10);
+
+        Assert.False(hasMore);
+        var changed = Assert.Single(items);
+        Assert.Equal(TransactionStatus.Completed, changed.Status);
+    }
+
+    [Fact]
+    public async Task ChangeFeed_Paging_NoSkipsOrRepeats()
+    {
+        var service = new InMemoryTransactionService();
+        var since = DateTime.UtcNow;
+        for (var i = 0; i < 5; i++)
+            await service.UpsertTransactionAsync(CreateTx());
+
+        var seen = new List<string>();
+        var from = new ChangeFeedPosition(since);
+        while (true)
+        {
+            var (page, more) = await service.GetChangedSinceAsync(from, 2);
+            seen.AddRange(page.Select(t => t.TransactionId));
+            if (!more) break;
+            from = new ChangeFeedPosition(page[^1].UpdatedAt, page[^1].TransactionId);
+        }
+
+        Assert.Equal(5, seen.Count);
+        Assert.Equal(5, seen.Distinct().Count());
+    }
+
+    [Fact]
+    public async Task ChangeFeed_StaleUpdate_IsNotAChange()
+    {
+        var service = new InMemoryTransactionService();
+        var tx = CreateTx(timestamp: DateTime.UtcNow);
+        await service.UpsertTransactionAsync(tx);
+        var since = tx.UpdatedAt.AddTicks(1);
+
+        await service.UpsertTransactionAsync(CreateTx(tx.TransactionId, timestamp: tx.Timestamp.AddMinutes(-1)));
+
+        var (items, _) = await service.GetChangedSinceAsync(new ChangeFeedPosition(since), 10);
+        Assert.Empty(items);
+    }
+
+    // ═══════════════════════════════════════
+    // STATS
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task Stats_Window_OnlyCountsRecentTransactions()
+    {
+        var service = new InMemoryTransactionService();
+        var now = DateTime.UtcNow;
+        await service.UpsertTransactionAsync(CreateTx(status: TransactionStatus.Failed, timestamp: now.AddHours(-2)));
+        await service.UpsertTransactionAsync(CreateTx(status: TransactionStatus.Failed, timestamp: now, amount: 30m));
+        await service.UpsertTransactionAsync(CreateTx(status: TransactionStatus.Completed, timestamp: now, amount: 10m));
+        await service.UpsertTransactionAsync(CreateTx(status: TransactionStatus.Pending, timestamp: now, amount: 20m));
+
+        var stats = await service.GetStatsAsync(now.AddHours(-1));
+
+        Assert.Equal(3, stats.Total);
+        Assert.Equal(1, stats.Failed);
+        Assert.Equal(0.5, stats.FailureRate); // of settled only — Pending excluded
+        Assert.Equal(20m, stats.AverageAmount);
+        Assert.Equal(20m, stats.P50Amount);
+        Assert.Equal(30m, stats.P99Amount);
+        Assert.Equal(4, (await service.GetStatsAsync()).Total);
+    }
+
+    [Fact]
+    public async Task Stats_StatusTransition_MovesCountBetweenStatuses()
+    {
+        var service = new InMemoryTransactionService();
+        var tx = CreateTx(status: TransactionStatus.Pending);
+        await service.UpsertTransactionAsync(tx);
+        await service.UpsertTransactionAsync(
+            CreateTx(tx.TransactionId, TransactionStatus.Completed, tx.Timestamp.AddSeconds(1)));
+
+        var stats = await service.GetStatsAsync();
+
+        Assert.Equal(1, stats.Total);
+        Assert.Equal(0, stats.Pending);
+        Assert.Equal(1, stats.Completed);
+    }
+
+    [Fact]
+    public void NearestRank_PicksCeilingRank()
+    {
+        Assert.Equal(0, TransactionStatsDto.NearestRank(1, 0.99));
+        Assert.Equal(49, TransactionStatsDto.NearestRank(100, 0.50));
+        Assert.Equal(98, TransactionStatsDto.NearestRank(100, 0.99));
+        Assert.Equal(0, TransactionStatsDto.NearestRank(0, 0.5));
+    }
+
+    // ═══════════════════════════════════════
+    // TIME SERIES
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task TimeSeries_BucketsTransitionsAndVolume()
+    {
+        var service = new InMemoryTransactionService();
+        var from = new DateTime(2025, 1, 1, 12, 0, 0, DateTimeKind.Utc);
+        var tx = CreateTx(status: TransactionStatus.Pending, timestamp: from.AddSeconds(10), amount: 100m);
+        await service.UpsertTransactionAsync(tx);
+        await service.UpsertTransactionAsync(
+            CreateTx(tx.TransactionId, TransactionStatus.Failed, from.AddSeconds(70), amount: 100m));
+        await service.UpsertTransactionAsync(CreateTx(timestamp: from.AddSeconds(20), currency: "EUR", amount: 50m));
+        await service.UpsertTransactionAsync(CreateTx(timestamp: from.AddMinutes(-5))); // before the window
+
+        var buckets = await service.GetTimeSeriesAsync(from, TimeSpan.FromMinutes(1));
+
+        Assert.Equal(2, buckets.Count);
+        Assert.Equal(from, buckets[0].Start);
+        Assert.Equal(1, buckets[0].Pending);
+        Assert.Equal(1, buckets[0].Completed);
+        Assert.Equal(50m, buckets[0].VolumeByCurrency["EUR"]);
+        Assert.Equal(1, buckets[1].Failed);
+        // Volume follows the transaction's current Timestamp, counted once
+        Assert.Equal(100m, buckets[1].VolumeByCurrency["USD"]);
+    }
+
+    [Fact]
+    public void TimeSeriesWindow_Parse_KnownNamesOnly()
+    {
+        Assert.Equal(TimeSeriesWindow.FiveMinutes, TimeSeriesWindow.Parse(null));
+        Assert.Equal(TimeSeriesWindow.OneDay, TimeSeriesWindow.Parse("24H"));
+        Assert.Null(TimeSeriesWindow.Parse("7d"));
+    }
+
     // ═══════════════════════════════════════
     // VALIDATION
     // ═══════════════════════════════════════
@@ -123,6 +412,27 @@ public class TransactionServiceTests
         Assert.Contains("GUID", error!);
     }
 
+    [Theory]
+    [InlineData(0)]
+    [InlineData(-5)]
+    public async Task Upsert_NonPositiveAmount_ReturnsError(int amount)
+    {
+        var service = new InMemoryTransactionService();
+        var (_, error) = await service.UpsertTransactionAsync(CreateTx(amount: amount));
+        Assert.Contains("positive", error!);
+    }
+
+    [Fact]
+    public void Validator_NamesTheOffendingJsonField()
+    {
+        var badId = CreateTx(id: "not-a-guid");
+        var badAmount = CreateTx(amount: -1m);
+
+        Assert.Equal("transactionId", TransactionValidator.ValidateField(badId)?.Field);
+        Assert.Equal("amount", TransactionValidator.ValidateField(badAmount)?.Field);
+        Assert.Null(TransactionValidator.ValidateField(CreateTx()));
+    }
+
     [Fact]
     public async Task Upsert_EmptyCurrency_ReturnsError()
     {
@@ -133,6 +443,46 @@ public class TransactionServiceTests
         Assert.NotNull(error);
     }
 
+    // ═══════════════════════════════════════
+    // BATCH UPSERT
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task UpsertBatch_ReportsCreatedUpdatedAndRejected_PerIndex()
+    {
+        var service = new InMemoryTransactionService();
+        var existing = CreateTx(timestamp: DateTime.UtcNow.AddMinutes(-5));
+        await service.UpsertTransactionAsync(existing);
+
+        var update = CreateTx(id: existing.TransactionId, status: TransactionStatus.Failed, timestamp: DateTime.UtcNow);
+        var results = await service.UpsertBatchAsync([CreateTx(), update, CreateTx(id: "not-a-guid")]);
+
+        Assert.Equal(
+            new[] { UpsertOutcome.Created, UpsertOutcome.Updated, UpsertOutcome.Rejected },
+            results.Select(r => r.Outcome));
+        Assert.Equal(new[] { 0, 1, 2 }, results.Select(r => r.Index));
+        Assert.Contains("GUID", results[2].Error!);
+        Assert.Equal(TransactionStatus.Failed, (await service.GetByIdAsync(existing.TransactionId))!.Status);
+    }
+
+    [Fact]
+    public async Task UpsertBatch_OlderVersion_IsRejectedAsStale()
+    {
+        var service = new InMemoryTransactionService();
+        var id = Guid.NewGuid().ToString();
+        var now = DateTime.UtcNow;
+
+        var results = await service.UpsertBatchAsync([
+            CreateTx(id: id, status: TransactionStatus.Completed, timestamp: now),
+            CreateTx(id: id, status: TransactionStatus.Pending,   timestamp: now.AddSeconds(-10)),
+        ]);
+
+        Assert.Equal(UpsertOutcome.Created, results[0].Outcome);
+        Assert.Equal(UpsertOutcome.Rejected, results[1].Outcome);
+        Assert.Equal(UpsertResult.StaleError, results[1].Error);
+        Assert.Equal(TransactionStatus.Completed, (await service.GetByIdAsync(id))!.Status);
+    }
+
     // ═══════════════════════════════════════
     // CONCURRENCY
     // ═══════════════════════════════════════
@@ -158,6 +508,108 @@ public class TransactionServiceTests
         Assert.Single(await service.GetAllAsync());
     }
 
+    // ═══════════════════════════════════════
+    // AMOUNT SERIALIZATION
+    // ═══════════════════════════════════════
+
+    private static readonly JsonSerializerOptions AmountJson = new(JsonSerializerDefaults.Web)
+    {
+        Converters = { new DecimalStringConverter() },
+    };
+
+    [Fact]
+    public void DecimalConverter_WritesExactString_WithoutTrailingZeros()
+    {
+        var json = JsonSerializer.Serialize(CreateTx(amount: 0.00012345m, currency: "BTC"), AmountJson);
+        Assert.Contains("\"amount\":\"0.00012345\"", json);
+
+        Assert.Equal("\"1500.5\"", JsonSerializer.Serialize(1500.500000000000000000m, AmountJson));
+        Assert.Equal("\"12345678901.123456789012345678\"",
+            JsonSerializer.Serialize(12345678901.123456789012345678m, AmountJson));
+    }
+
+    [Fact]
+    public void DecimalConverter_ReadsStringsAndNumbers()
+    {
+        var fromString = JsonSerializer.Deserialize<CreateTransactionRequest>(
+            """{"transactionId":"x","amount":"0.000000000000000001","currency":"ETH","status":"Pending","timestamp":"2025-01-01T00:00:00Z"}""",
+            AmountJson)!;
+        var fromNumber = JsonSerializer.Deserialize<CreateTransactionRequest>(
+            """{"transactionId":"x","amount":1500.50,"currency":"USD","status":"Pending","timestamp":"2025-01-01T00:00:00Z"}""",
+            AmountJson)!;
+
+        Assert.Equal(0.000000000000000001m, fromString.Amount);
+        Assert.Equal(1500.50m, fromNumber.Amount);
+        Assert.Throws<JsonException>(() => JsonSerializer.Deserialize<decimal>("\"12abc\"", AmountJson));
+    }
+
+    // ═══════════════════════════════════════
+    // EXPORT
+    // ═══════════════════════════════════════
+
+    [Fact]
+    public async Task StreamAsync_AppliesFilterAndSort()
+    {
+        var service = new InMemoryTransactionService();
+        await service.UpsertTransactionAsync(CreateTx(amount: 10m));
+        await service.UpsertTransactionAsync(CreateTx(amount: 30m));
+        await service.UpsertTransactionAsync(CreateTx(amount: 20m, status: TransactionStatus.Failed));
+
+        var filter = new TransactionFilter(Status: TransactionStatus.Completed);
+        var sort   = TransactionSort.Parse("amount", "desc").Sort;
+
+        var amounts = new List<decimal>();
+        await foreach (var tx in service.StreamAsync(filter, sort))
+            amounts.Add(tx.Amount);
+
+        Assert.Equal(new[] { 30m, 10m }, amounts);
+        Assert.Equal(2, await service.CountAsync(filter));
+    }
+
+    [Fact]
+    public void ExportCsv_QuotesFields_AndDefusesFormulas()
+    {
+        var line = TransactionExporter.ToCsvLine(CreateTx(
+            id: "=HYPERLINK(\"x\")", currency: "US,D", amount: 0.00012345m,
+            timestamp: new DateTime(2025, 1, 1, 0, 0, 0, DateTimeKind.Utc)));
+
+        Assert.StartsWith("\"'=HYPERLINK(\"\"x\"\")\",\"US,D\",0.00012345,Completed,2025-01-01T00:00:00.0000000Z,", line);
+    }
+
+    [Theory]
+    [InlineData("csv", 3)]    // header + 2 rows
+    [InlineData("ndjson", 2)] // one object per line
+    [InlineData("json", 4)]   // "[" + 2 rows + "]"
+    public async Task Export_WritesOneRowPerLine(string format, int expectedLines)
+    {
+        var service = new InMemoryTransactionService();
+        await service.UpsertTransactionAsync(CreateTx(amount: 1.5m));
+        await service.UpsertTransactionAsync(CreateTx(amount: 2.5m));
+
+        using var output = new MemoryStream();
+        var count = await TransactionExporter.WriteAsync(
+            output, service.StreamAsync(), ExportFormat.Parse(format)!, AmountJson);
+
+        var text  = System.Text.Encoding.UTF8.GetString(output.ToArray());
+        var lines = text.TrimEnd('\n').Split('\n');
+        Assert.Equal(2, count);
+        Assert.Equal(expectedLines, lines.Length);
+
+        if (format == "json")
+            Assert.Equal(2, JsonSerializer.Deserialize<JsonElement>(text).GetArrayLength());
+        if (format == "ndjson")
+            Assert.All(lines, l =>
+                Assert.Equal(JsonValueKind.String, JsonDocument.Parse(l).RootElement.GetProperty("amount").ValueKind));
+    }
+
+    [Fact]
+    public void ExportFormat_Parse_DefaultsToCsv_AndRejectsUnknown()
+    {
+        Assert.Equal(ExportFormat.Csv, ExportFormat.Parse(null));
+        Assert.Equal(ExportFormat.Ndjson, ExportFormat.Parse("NDJSON"));
+        Assert.Null(ExportFormat.Parse("xml"));
+    }
+
     // ═══════════════════════════════════════
     // HELPER
     // ═══════════════════════════════════════
@@ -165,11 +617,13 @@ public class TransactionServiceTests
     private static Transaction CreateTx(
         string? id = null,
         TransactionStatus status = TransactionStatus.Completed,
-        DateTime? timestamp = null) => new()
+        DateTime? timestamp = null,
+        string currency = "USD",
+        decimal amount = 1500.50m) => new()
     {
         TransactionId = id ?? Guid.NewGuid().ToString(),
-        Amount        = 1500.50m,
-        Currency      = "USD",
+        Amount        = amount,
+        Currency      = currency,
         Status        = status,
         Timestamp     = timestamp ?? DateTime.UtcNow,
     };
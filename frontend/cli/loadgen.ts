@@ -0,0 +1,207 @@
+// cli/loadgen.ts
+// Headless load generator — the simulator's load-test scenarios from a
+// terminal, for scripted and nightly runs against a running stack. Sends
+// through the same API client and transaction model as the browser, and
+// listens on the SignalR hub to time how long each transaction takes to be
+// published back.
+//
+//   npm run loadgen -- --url http://localhost:8080 --scenario steady --count 5000 --rate 100
+//
+// The summary goes to stdout as JSON; progress and warnings go to stderr.
+// Exit code: 0 when everything was accepted, 1 when anything failed, 2 on bad
+// usage or when the API / hub can't be reached.
+
+import { parseArgs } from 'node:util';
+import * as signalR from '@microsoft/signalr';
+import { TransactionApiClient, TransactionSchema } from '../src/services/TransactionApiClient';
+import { upsertTransaction, upsertTransactions } from '../src/services/transactionUpsert';
+import {
+  RAMP_PROFILES,
+  SCENARIO_PRESETS,
+  runLoadTest,
+  scenarioError,
+  type LoadScenario,
+  type LoadTarget,
+  type RampProfile,
+  type SendMode,
+} from '../src/services/loadTest';
+import { parse } from '../src/services/schema';
+import type { Transaction } from '../src/types/transaction';
+
+const DEFAULT_URL = 'http://localhost:8080';
+
+const USAGE = `Usage: npm run loadgen -- [options]
+
+  --url <base>           API / hub origin                  (default ${DEFAULT_URL})
+  --scenario <name>      preset: ${Object.keys(SCENARIO_PRESETS).join(', ')} (default burst)
+  --count <n>            transactions to send              (default: the scenario's)
+  --rate <tx/s|max>      target rate; max = no pacing      (default: the scenario's)
+  --concurrency <n>      requests in flight at most
+  --mode <single|batched>
+  --batch-size <n>       transactions per batch request
+  --ramp <${RAMP_PROFILES.join('|')}> --ramp-seconds <s>
+  --update-share <0-1>   share of status-change upserts
+  --name <text>          run name in the summary
+  --no-feed              don't connect to the hub (no publish latency)
+  --help`;
+
+class UsageError extends Error {}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      url:            { type: 'string', default: DEFAULT_URL },
+      scenario:       { type: 'string', default: 'burst' },
+      count:          { type: 'string' },
+      rate:           { type: 'string' },
+      concurrency:    { type: 'string' },
+      mode:           { type: 'string' },
+      'batch-size':   { type: 'string' },
+      ramp:           { type: 'string' },
+      'ramp-seconds': { type: 'string' },
+      'update-share': { type: 'string' },
+      name:           { type: 'string' },
+      'no-feed':      { type: 'boolean', default: false },
+      help:           { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const preset = Object.hasOwn(SCENARIO_PRESETS, values.scenario) ? SCENARIO_PRESETS[values.scenario] : undefined;
+  if (!preset) throw new UsageError(`Unknown scenario "${values.scenario}"`);
+
+  const scenario: LoadScenario = {
+    ...preset,
+    name:        values.name ?? preset.name,
+    total:       numberOption('count', values.count) ?? preset.total,
+    concurrency: numberOption('concurrency', values.concurrency) ?? preset.concurrency,
+    batchSize:   numberOption('batch-size', values['batch-size']) ?? preset.batchSize,
+    rampSeconds: numberOption('ramp-seconds', values['ramp-seconds']) ?? preset.rampSeconds,
+    updateShare: numberOption('update-share', values['update-share']) ?? preset.updateShare,
+    mode:        choiceOption<SendMode>('mode', values.mode, ['single', 'batched']) ?? preset.mode,
+    ramp:        choiceOption<RampProfile>('ramp', values.ramp, RAMP_PROFILES) ?? preset.ramp,
+    rate:        values.rate === 'max' ? null : numberOption('rate', values.rate) ?? preset.rate,
+  };
+  if (scenario.rate === null) scenario.ramp = 'none';
+  if (!(scenario.updateShare >= 0 && scenario.updateShare <= 1)) throw new UsageError('--update-share must be 0–1');
+  const invalid = scenarioError(scenario);
+  if (invalid) throw new UsageError(invalid);
+
+  const origin = values.url.replace(/\/+$/, '');
+  const api = new TransactionApiClient(`${origin}/api/transactions`);
+  await probeApi(api, origin);
+  const feed = values['no-feed'] ? null : await connectFeed(`${origin}/hubs/transactions`);
+
+  const target: LoadTarget = {
+    sendTransaction: tx  => upsertTransaction(api, tx),
+    sendBatch:       txs => upsertTransactions(api, txs),
+    onTransaction:   feed?.subscribe,
+  };
+
+  // Ctrl+C stops sending; the summary still covers what went out
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    process.stderr.write('\nStopping — waiting for requests in flight…\n');
+    controller.abort();
+  });
+
+  const report = await runLoadTest(scenario, target, {
+    signal: controller.signal,
+    onProgress: p => {
+      if (!process.stderr.isTTY) return;
+      process.stderr.write(`\r${p.sent}/${p.total} sent · ${p.failed} failed`);
+    },
+  });
+  if (process.stderr.isTTY) process.stderr.write('\n');
+  await feed?.stop();
+
+  console.log(JSON.stringify({ url: origin, feed: feed !== null, ...report }, null, 2));
+  return report.failed > 0 ? 1 : 0;
+}
+
+// ─── API ──────────────────────────────────────────────────────────────────
+
+/**
+ * One cheap read before the run, so an unreachable API is a setup error
+ * (exit 2) rather than a run where every send failed (exit 1).
+ */
+async function probeApi(api: TransactionApiClient, origin: string): Promise<void> {
+  try {
+    await api.getStats();
+  } catch (err) {
+    throw new Error(`Could not reach the API at ${origin} (${err instanceof Error ? err.message : String(err)})`);
+  }
+}
+
+// ─── Feed ─────────────────────────────────────────────────────────────────
+
+interface Feed {
+  subscribe: (listener: (tx: Transaction) => void) => () => void;
+  stop:      () => Promise<void>;
+}
+
+/** Same hub and event as TransactionHubService, minus the Redux side */
+async function connectFeed(url: string): Promise<Feed> {
+  const listeners = new Set<(tx: Transaction) => void>();
+  const connection = new signalR.HubConnectionBuilder()
+    .withUrl(url)
+    .configureLogging(signalR.LogLevel.Warning)
+    .build();
+
+  connection.on('ReceiveTransaction', (payload: unknown) => {
+    let tx: Transaction;
+    try {
+      tx = parse(TransactionSchema, payload);
+    } catch (err) {
+      process.stderr.write(`Dropped malformed ReceiveTransaction event: ${String(err)}\n`);
+      return;
+    }
+    listeners.forEach(listener => listener(tx));
+  });
+  connection.onclose(err => {
+    if (err) process.stderr.write(`Hub connection lost — publish latency will be incomplete: ${err.message}\n`);
+  });
+
+  try {
+    await connection.start();
+  } catch (err) {
+    throw new Error(`Could not connect to ${url} (${err instanceof Error ? err.message : String(err)}) — use --no-feed to skip it`);
+  }
+  return {
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    stop: () => connection.stop(),
+  };
+}
+
+// ─── Options ──────────────────────────────────────────────────────────────
+
+function numberOption(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (value.trim() === '' || !Number.isFinite(n)) throw new UsageError(`--${name} must be a number`);
+  return n;
+}
+
+function choiceOption<T extends string>(name: string, value: string | undefined, choices: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!choices.includes(value as T)) throw new UsageError(`--${name} must be one of ${choices.join(', ')}`);
+  return value as T;
+}
+
+main().then(
+  code => process.exit(code),
+  err => {
+    if (err instanceof UsageError || (err instanceof Error && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS'))) {
+      process.stderr.write(`${err.message}\n\n${USAGE}\n`);
+    } else {
+      process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n`);
+    }
+    process.exit(2);
+  },
+);
@@ -4,6 +4,7 @@
 import { BrowserRouter, Routes, Route, NavLink, Navigate } from 'react-router-dom';
 import AddTransaction from './pages/AddTransaction';
 import Monitor from './pages/Monitor';
+import TransactionDetail from './pages/TransactionDetail';
 
 export default function App() {
   return (
@@ -46,7 +47,10 @@ export default function App() {
             {/* Redirect from root to /add */}
             <Route path="/" element={<Navigate to="/add" replace />} />
             <Route path="/add" element={<AddTransaction />} />
-            <Route path="/monitor" element={<Monitor />} />
+            <Route path="/monitor" element={<Monitor />}>
+              {/* Detail drawer over the monitor — deep-linkable */}
+              <Route path="tx/:id" element={<TransactionDetail />} />
+            </Route>
           </Routes>
         </main>
       </div>
@@ -0,0 +1,79 @@
+import type { Alert, AlertRule } from '../types/transaction';
+import AlertRuleEditor from './AlertRuleEditor';
+
+interface Props {
+  alerts: Alert[];
+  rules: AlertRule[];
+  onAcknowledge: (id: string) => void;
+  onAcknowledgeAll: () => void;
+  onClear: () => void;
+  /** Open the transaction that triggered an alert */
+  onSelectTransaction: (id: string) => void;
+  onAddRule: (rule: AlertRule) => void;
+  onUpdateRule: (rule: AlertRule) => void;
+  onRemoveRule: (id: string) => void;
+}
+
+/** Triggered alerts (newest first) next to the rules that raise them. */
+export default function AlertPanel({
+  alerts, rules, onAcknowledge, onAcknowledgeAll, onClear, onSelectTransaction,
+  onAddRule, onUpdateRule, onRemoveRule,
+}: Props) {
+  return (
+    <div style={s.panel}>
+      <section style={{ flex: 1, minWidth: 280 }}>
+        <div style={s.heading}>
+          <span>🔔 Alerts</span>
+          {alerts.length > 0 && (
+            <span style={{ display: 'flex', gap: '0.5rem' }}>
+              <button style={s.linkBtn} onClick={onAcknowledgeAll}>mark all read</button>
+              <button style={s.linkBtn} onClick={onClear}>clear</button>
+            </span>
+          )}
+        </div>
+
+        {alerts.length === 0 && <div style={s.empty}>Nothing triggered yet</div>}
+        <div style={s.list}>
+          {alerts.map(alert => (
+            <div key={alert.id}
+              style={{ ...s.alert, ...(alert.acknowledged ? s.alertRead : {}) }}
+              onClick={() => onAcknowledge(alert.id)}>
+              <div style={s.alertTop}>
+                <span style={s.alertRule}>{alert.ruleName}</span>
+                <span style={s.alertTime}>{new Date(alert.triggeredAt).toLocaleTimeString()}</span>
+              </div>
+              <div style={s.alertMessage}>
+                {alert.message}
+                {alert.transactionId && (
+                  <button style={s.linkBtn}
+                    onClick={e => { e.stopPropagation(); onAcknowledge(alert.id); onSelectTransaction(alert.transactionId!); }}>
+                    open
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section style={{ flex: 1, minWidth: 320 }}>
+        <div style={s.heading}><span>⚙️ Rules</span></div>
+        <AlertRuleEditor rules={rules} onAdd={onAddRule} onUpdate={onUpdateRule} onRemove={onRemoveRule} />
+      </section>
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  panel:        { display: 'flex', gap: '1.5rem', flexWrap: 'wrap', background: 'rgba(255,255,255,0.03)', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 12, padding: '1rem', marginBottom: '1rem' },
+  heading:      { display: 'flex', justifyContent: 'space-between', alignItems: 'center', color: '#94a3b8', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: '0.5rem' },
+  empty:        { color: '#475569', fontSize: '0.8rem', padding: '0.5rem 0' },
+  list:         { maxHeight: 280, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '0.4rem' },
+  alert:        { background: 'rgba(239,68,68,0.08)', border: '1px solid rgba(239,68,68,0.25)', borderRadius: 8, padding: '0.5rem 0.75rem', cursor: 'pointer' },
+  alertRead:    { background: 'transparent', borderColor: 'rgba(255,255,255,0.06)', opacity: 0.6 },
+  alertTop:     { display: 'flex', justifyContent: 'space-between', gap: '0.5rem' },
+  alertRule:    { color: '#fca5a5', fontWeight: 600, fontSize: '0.8rem' },
+  alertTime:    { color: '#64748b', fontSize: '0.75rem', fontFamily: 'monospace' },
+  alertMessage: { color: '#cbd5e1', fontSize: '0.8rem', fontFamily: 'monospace' },
+  linkBtn:      { background: 'none', border: 'none', color: '#818cf8', cursor: 'pointer', textDecoration: 'underline', fontSize: '0.75rem', padding: '0 0.25rem', textTransform: 'none', letterSpacing: 0 },
+};
@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { TRANSACTION_STATUSES } from '../types/transaction';
+import type { AlertRule, TransactionStatus } from '../types/transaction';
+import { describeRule } from '../services/alertRules';
+import { parseDecimal } from '../services/decimal';
+import { notificationsSupported, requestNotificationPermission } from '../services/alertNotifications';
+
+interface Props {
+  rules: AlertRule[];
+  onAdd: (rule: AlertRule) => void;
+  onUpdate: (rule: AlertRule) => void;
+  onRemove: (id: string) => void;
+}
+
+interface Draft {
+  name:      string;
+  status:    TransactionStatus | '';
+  currency:  string;
+  minAmount: string;
+  maxAmount: string;
+  useRate:   boolean;
+  count:     string;
+  windowSec: string;
+}
+
+const EMPTY_DRAFT: Draft = {
+  name: '', status: '', currency: '', minAmount: '', maxAmount: '',
+  useRate: false, count: '20', windowSec: '60',
+};
+
+/**
+ * Alert rules: toggle, notification / sound switches, delete — plus a form
+ * for new rules. Saved to localStorage by the alert listener, not here.
+ */
+export default function AlertRuleEditor({ rules, onAdd, onUpdate, onRemove }: Props) {
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  const set = (key: keyof Draft) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setDraft(d => ({ ...d, [key]: e.target.type === 'checkbox' ? (e.target as HTMLInputElement).checked : e.target.value }));
+
+  const toggleNotify = async (rule: AlertRule) => {
+    // Permission prompt needs this click — it can't be requested from the listener
+    if (!rule.notify && await requestNotificationPermission() !== 'granted') return;
+    onUpdate({ ...rule, notify: !rule.notify });
+  };
+
+  const add = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rule = fromDraft(draft);
+    if (!rule) return;
+    onAdd(rule);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <div>
+      {rules.length === 0 && <div style={s.empty}>No rules yet</div>}
+      {rules.map(rule => (
+        <div key={rule.id} style={{ ...s.rule, opacity: rule.enabled ? 1 : 0.5 }}>
+          <input type="checkbox" checked={rule.enabled} title="Enabled"
+            onChange={() => onUpdate({ ...rule, enabled: !rule.enabled })} />
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={s.ruleName}>{rule.name}</div>
+            <div style={s.ruleSummary}>{describeRule(rule)}</div>
+          </div>
+          {notificationsSupported() && (
+            <button style={{ ...s.iconBtn, ...(rule.notify ? s.iconBtnOn : {}) }}
+              onClick={() => toggleNotify(rule)} title="Browser notification">🔔</button>
+          )}
+          <button style={{ ...s.iconBtn, ...(rule.sound ? s.iconBtnOn : {}) }}
+            onClick={() => onUpdate({ ...rule, sound: !rule.sound })} title="Sound">🔊</button>
+          <button style={s.iconBtn} onClick={() => onRemove(rule.id)} title="Delete rule">✕</button>
+        </div>
+      ))}
+
+      <form style={s.form} onSubmit={add}>
+        <input style={{ ...s.input, flex: 2 }} placeholder="Rule name" value={draft.name} onChange={set('name')} />
+        <select style={s.input} value={draft.status} onChange={set('status')}>
+          <option value="">Any status</option>
+          {TRANSACTION_STATUSES.map(st => <option key={st} value={st}>{st}</option>)}
+        </select>
+        <input style={{ ...s.input, width: 70 }} placeholder="Currency" maxLength={3} value={draft.currency} onChange={set('currency')} />
+        <input style={{ ...s.input, width: 90 }} type="number" step="any" min={0} placeholder="Min amount" value={draft.minAmount} onChange={set('minAmount')} />
+        <input style={{ ...s.input, width: 90 }} type="number" step="any" min={0} placeholder="Max amount" value={draft.maxAmount} onChange={set('maxAmount')} />
+        <label style={s.label}>
+          <input type="checkbox" checked={draft.useRate} onChange={set('useRate')} />
+          more than
+        </label>
+        <input style={{ ...s.input, width: 60 }} type="number" min={1} disabled={!draft.useRate} value={draft.count} onChange={set('count')} />
+        <span style={s.label}>in</span>
+        <input style={{ ...s.input, width: 60 }} type="number" min={1} disabled={!draft.useRate} value={draft.windowSec} onChange={set('windowSec')} />
+        <span style={s.label}>s</span>
+        <button type="submit" style={s.addBtn} disabled={!draft.name.trim()}>＋ Add rule</button>
+      </form>
+    </div>
+  );
+}
+
+function fromDraft(d: Draft): AlertRule | null {
+  const name = d.name.trim();
+  if (!name) return null;
+
+  const rule: AlertRule = {
+    id: crypto.randomUUID(), name, enabled: true, condition: {}, notify: false, sound: false,
+  };
+  if (d.status)           rule.condition.status    = d.status;
+  if (d.currency.trim())  rule.condition.currency  = d.currency.trim().toUpperCase();
+  const minAmount = parseDecimal(d.minAmount), maxAmount = parseDecimal(d.maxAmount);
+  if (minAmount !== null) rule.condition.minAmount = minAmount;
+  if (maxAmount !== null) rule.condition.maxAmount = maxAmount;
+
+  const count = Number(d.count), windowSec = Number(d.windowSec);
+  if (d.useRate && Number.isInteger(count) && count > 0 && Number.isInteger(windowSec) && windowSec > 0) {
+    rule.rate = { count, windowSec };
+  }
+  return rule;
+}
+
+const s: Record<string, React.CSSProperties> = {
+  empty:       { color: '#475569', fontSize: '0.8rem', padding: '0.5rem 0' },
+  rule:        { display: 'flex', alignItems: 'center', gap: '0.6rem', padding: '0.45rem 0', borderBottom: '1px solid rgba(255,255,255,0.05)' },
+  ruleName:    { color: '#e2e8f0', fontSize: '0.85rem', fontWeight: 600 },
+  ruleSummary: { color: '#64748b', fontSize: '0.75rem' },
+  iconBtn:     { background: 'transparent', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 6, padding: '0.2rem 0.45rem', cursor: 'pointer', color: '#94a3b8', opacity: 0.5 },
+  iconBtnOn:   { opacity: 1, borderColor: 'rgba(99,102,241,0.5)', background: 'rgba(99,102,241,0.15)' },
+  form:        { display: 'flex', gap: '0.4rem', flexWrap: 'wrap', alignItems: 'center', marginTop: '0.75rem' },
+  input:       { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 8, padding: '0.4rem 0.6rem', color: '#f1f5f9', fontSize: '0.8rem', outline: 'none', colorScheme: 'dark' },
+  label:       { display: 'flex', alignItems: 'center', gap: '0.25rem', color: '#64748b', fontSize: '0.75rem' },
+  addBtn:      { padding: '0.4rem 0.9rem', borderRadius: 8, border: '1px solid rgba(99,102,241,0.4)', background: 'rgba(99,102,241,0.2)', color: '#a5b4fc', cursor: 'pointer', fontSize: '0.8rem' },
+};
@@ -4,9 +4,10 @@ interface Props {
   state: ConnectionState;
 }
 
-const CONFIG: Record<ConnectionState, { color: string; bg: string; label: string; anim?: string }> = {
+const CONFIG: Record<ConnectionState, { color: string; bg: string; label: string; anim?: string; title?: string }> = {
   connected:    { color: '#10b981', bg: 'rgba(16,185,129,0.1)',  label: '● Live'          },
   connecting:   { color: '#f59e0b', bg: 'rgba(245,158,11,0.1)',  label: '◌ Connecting...', anim: 'pulse 1.5s infinite' },
+  polling:      { color: '#3b82f6', bg: 'rgba(59,130,246,0.1)',  label: '◐ Polling',       title: 'WebSocket unavailable — updating over REST' },
   disconnected: { color: '#ef4444', bg: 'rgba(239,68,68,0.1)',   label: '○ Disconnected'  },
   error:        { color: '#ef4444', bg: 'rgba(239,68,68,0.1)',   label: '✕ Error'         },
 };
@@ -14,7 +15,7 @@ const CONFIG: Record<ConnectionState, { color: string; bg: string; label: string
 export default function ConnectionBadge({ state }: Props) {
   const cfg = CONFIG[state];
   return (
-    <div style={{
+    <div title={cfg.title} style={{
       padding: '0.5rem 1rem', borderRadius: 20, background: cfg.bg,
       color: cfg.color, fontWeight: 600, fontSize: '0.9rem', animation: cfg.anim,
     }}>
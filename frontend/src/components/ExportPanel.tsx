@@ -0,0 +1,70 @@
+import { EXPORT_FORMATS, type ExportFormat } from '../types/transaction';
+import { MEMORY_EXPORT_MAX_ROWS, canStreamToDisk, type ExportProgress } from '../services/exportDownload';
+import type { ExportStatus } from '../hooks/useExport';
+
+interface Props {
+  status:   ExportStatus;
+  format:   ExportFormat | null;
+  progress: ExportProgress | null;
+  error:    string | null;
+  onExport: (format: ExportFormat) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Export buttons for the History tab — the server streams every row matching
+ * the current filters and sort, not just the page on screen. Browsers that
+ * can't write to disk as it arrives get a row limit, shown up front.
+ */
+export default function ExportPanel({ status, format, progress, error, onExport, onCancel }: Props) {
+  const running = status === 'running';
+  const pct = progress?.total ? Math.min(100, (progress.rows / progress.total) * 100) : null;
+
+  return (
+    <div style={s.container}>
+      <span style={s.label}>⬇ Export</span>
+      {EXPORT_FORMATS.map(f => (
+        <button key={f} style={{ ...s.btn, ...(running && format === f ? s.btnActive : {}) }}
+          disabled={running} onClick={() => onExport(f)}
+          title={`Download every transaction matching the current filters as ${f.toUpperCase()}`}>
+          {f.toUpperCase()}
+        </button>
+      ))}
+      {!canStreamToDisk() && status === 'idle' && (
+        <span style={s.status} title="This browser holds the export in memory until the download starts">
+          up to {MEMORY_EXPORT_MAX_ROWS.toLocaleString()} rows
+        </span>
+      )}
+
+      {running && (
+        <>
+          <div style={s.track}>
+            <div style={{ ...s.bar, width: `${pct ?? 0}%` }} />
+          </div>
+          <span style={s.status}>
+            {progress
+              ? `${progress.rows.toLocaleString()}${progress.total !== null ? ` / ${progress.total.toLocaleString()}` : ''} rows`
+              : 'Starting…'}
+          </span>
+          <button style={s.cancelBtn} onClick={onCancel}>✕ Cancel</button>
+        </>
+      )}
+      {status === 'done' && progress && (
+        <span style={{ ...s.status, color: '#4ade80' }}>✓ {progress.rows.toLocaleString()} rows exported</span>
+      )}
+      {status === 'cancelled' && <span style={s.status}>Export cancelled</span>}
+      {status === 'error' && <span style={{ ...s.status, color: '#fca5a5' }}>❌ {error}</span>}
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  container: { display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap', marginBottom: '0.75rem' },
+  label:     { color: '#64748b', fontSize: '0.8rem' },
+  btn:       { padding: '0.35rem 0.75rem', borderRadius: 8, border: '1px solid rgba(255,255,255,0.1)', background: 'rgba(255,255,255,0.04)', color: '#94a3b8', cursor: 'pointer', fontSize: '0.8rem' },
+  btnActive: { background: 'rgba(99,102,241,0.2)', color: '#a5b4fc', borderColor: 'rgba(99,102,241,0.4)' },
+  track:     { width: 160, height: 6, borderRadius: 3, background: 'rgba(255,255,255,0.08)', overflow: 'hidden' },
+  bar:       { height: '100%', background: '#6366f1', transition: 'width 0.2s' },
+  status:    { color: '#94a3b8', fontSize: '0.8rem' },
+  cancelBtn: { padding: '0.35rem 0.75rem', borderRadius: 8, border: '1px solid rgba(239,68,68,0.3)', background: 'rgba(239,68,68,0.1)', color: '#fca5a5', cursor: 'pointer', fontSize: '0.8rem' },
+};
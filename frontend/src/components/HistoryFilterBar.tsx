@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import type { TransactionFilters } from '../types/transaction';
+import { parseDecimal } from '../services/decimal';
+
+interface Props {
+  filters: TransactionFilters;
+  /** Called with the new filters on Apply / Enter — status is left to the caller's buttons */
+  onApply: (filters: TransactionFilters) => void;
+}
+
+interface Draft {
+  idPrefix:  string;
+  currency:  string;
+  minAmount: string;
+  maxAmount: string;
+  from:      string; // datetime-local value
+  to:        string;
+}
+
+/**
+ * Server-side search for the History tab: ID prefix, currency,
+ * amount range and timestamp range. Edits are kept as a local draft
+ * and only hit the API on Apply, so typing doesn't fire a request per key.
+ */
+export default function HistoryFilterBar({ filters, onApply }: Props) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(filters));
+
+  // URL changed underneath us (back/forward, shared link) — resync the inputs
+  const filtersKey = JSON.stringify(filters);
+  useEffect(() => setDraft(toDraft(filters)), [filtersKey]);
+
+  const set = (key: keyof Draft) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft(d => ({ ...d, [key]: e.target.value }));
+
+  const apply = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    onApply({ status: filters.status, ...fromDraft(draft) });
+  };
+
+  const reset = () => onApply({ status: filters.status });
+
+  const hasFilters = Object.values(draft).some(v => v !== '');
+
+  return (
+    <form style={s.bar} onSubmit={apply}>
+      <input style={{ ...s.input, flex: 2 }} placeholder="ID prefix" value={draft.idPrefix} onChange={set('idPrefix')} />
+      <input style={{ ...s.input, width: 80 }} placeholder="Currency" maxLength={3} value={draft.currency} onChange={set('currency')} />
+      <input style={{ ...s.input, width: 110 }} type="number" step="any" min={0} placeholder="Min amount" value={draft.minAmount} onChange={set('minAmount')} />
+      <input style={{ ...s.input, width: 110 }} type="number" step="any" min={0} placeholder="Max amount" value={draft.maxAmount} onChange={set('maxAmount')} />
+      <label style={s.label}>
+        From
+        <input style={s.input} type="datetime-local" step={1} value={draft.from} onChange={set('from')} />
+      </label>
+      <label style={s.label}>
+        To
+        <input style={s.input} type="datetime-local" step={1} value={draft.to} onChange={set('to')} />
+      </label>
+      <button type="submit" style={s.applyBtn}>🔍 Apply</button>
+      {hasFilters && <button type="button" style={s.resetBtn} onClick={reset}>Reset</button>}
+    </form>
+  );
+}
+
+// ─── Draft <-> filters ────────────────────────────────────────────────────
+
+function toDraft(f: TransactionFilters): Draft {
+  return {
+    idPrefix:  f.idPrefix ?? '',
+    currency:  f.currency ?? '',
+    minAmount: f.minAmount ?? '',
+    maxAmount: f.maxAmount ?? '',
+    from:      f.from ? toLocalInput(f.from) : '',
+    to:        f.to   ? toLocalInput(f.to)   : '',
+  };
+}
+
+function fromDraft(d: Draft): TransactionFilters {
+  const out: TransactionFilters = {};
+  const minAmount = parseDecimal(d.minAmount), maxAmount = parseDecimal(d.maxAmount);
+  if (d.idPrefix.trim())  out.idPrefix  = d.idPrefix.trim();
+  if (d.currency.trim())  out.currency  = d.currency.trim().toUpperCase();
+  if (minAmount !== null) out.minAmount = minAmount;
+  if (maxAmount !== null) out.maxAmount = maxAmount;
+  if (d.from)             out.from      = new Date(d.from).toISOString();
+  if (d.to)               out.to        = new Date(d.to).toISOString();
+  return out;
+}
+
+/** ISO string → `YYYY-MM-DDTHH:mm:ss` in local time, as datetime-local expects. */
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 19);
+}
+
+const s: Record<string, React.CSSProperties> = {
+  bar:      { display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'flex-end', marginBottom: '0.75rem' },
+  input:    { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 8, padding: '0.5rem 0.75rem', color: '#f1f5f9', fontSize: '0.85rem', outline: 'none', colorScheme: 'dark' },
+  label:    { display: 'flex', flexDirection: 'column', gap: '0.2rem', color: '#64748b', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em' },
+  applyBtn: { padding: '0.5rem 1rem', borderRadius: 8, border: '1px solid rgba(99,102,241,0.4)', background: 'rgba(99,102,241,0.2)', color: '#a5b4fc', cursor: 'pointer', fontSize: '0.85rem' },
+  resetBtn: { padding: '0.5rem 1rem', borderRadius: 8, border: '1px solid rgba(255,255,255,0.12)', background: 'transparent', color: '#94a3b8', cursor: 'pointer', fontSize: '0.85rem' },
+};
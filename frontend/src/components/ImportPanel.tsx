@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react';
+import {
+  DEFAULT_IMPORT_CONCURRENCY,
+  MAX_IMPORT_CONCURRENCY,
+  guessMapping,
+  mapRows,
+  readImportFile,
+  type ColumnMapping,
+  type ImportProgress,
+  type ImportReport,
+  type ImportTable,
+} from '../services/transactionImport';
+import { TRANSACTION_FIELDS, type Transaction, type TransactionField } from '../types/transaction';
+
+interface Props {
+  isRunning: boolean;
+  progress:  ImportProgress | null;
+  report:    ImportReport | null;
+  onImport:  (rows: { row: number; transaction: Transaction }[], concurrency: number) => void;
+  onCancel:  () => void;
+  /** Clear the last report — called when another file is loaded */
+  onReset:   () => void;
+}
+
+const FIELD_LABELS: Record<TransactionField, string> = {
+  transactionId: 'Transaction ID',
+  amount:        'Amount',
+  currency:      'Currency',
+  status:        'Status',
+  timestamp:     'Timestamp',
+};
+
+/** Rows shown in the preview and error lists — the counts always cover the whole file */
+const PREVIEW_ROWS = 8;
+const MAX_LISTED   = 100;
+
+/**
+ * Bulk import: drop a CSV / JSON / NDJSON file, map its columns onto the
+ * transaction fields, review per-row validation errors, then send the valid rows.
+ * Invalid rows are never sent; the report lists them alongside server rejections.
+ */
+export default function ImportPanel({ isRunning, progress, report, onImport, onCancel, onReset }: Props) {
+  const [fileName,    setFileName]    = useState<string | null>(null);
+  const [table,       setTable]       = useState<ImportTable | null>(null);
+  const [mapping,     setMapping]     = useState<ColumnMapping | null>(null);
+  const [readError,   setReadError]   = useState<string | null>(null);
+  const [isReading,   setIsReading]   = useState(false);
+  const [dragOver,    setDragOver]    = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_IMPORT_CONCURRENCY);
+
+  const rows    = useMemo(() => (table && mapping ? mapRows(table, mapping) : []), [table, mapping]);
+  const valid   = useMemo(() => rows.flatMap(r => (r.ok ? [{ row: r.row, transaction: r.transaction }] : [])), [rows]);
+  const invalid = useMemo(() => rows.filter(r => !r.ok), [rows]);
+
+  async function loadFile(file: File) {
+    setIsReading(true);
+    setReadError(null);
+    onReset();
+    try {
+      const parsed = await readImportFile(file);
+      setFileName(file.name);
+      setTable(parsed);
+      setMapping(guessMapping(parsed.columns));
+    } catch (err) {
+      setTable(null);
+      setMapping(null);
+      setReadError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsReading(false);
+    }
+  }
+
+  const pct = progress && progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <div>
+      {/* Drop zone */}
+      <label
+        style={{ ...s.dropZone, ...(dragOver ? s.dropZoneActive : {}) }}
+        onDragOver={e => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setDragOver(false);
+          const file = e.dataTransfer.files[0];
+          if (file && !isRunning) loadFile(file);
+        }}>
+        <input type="file" accept=".csv,.tsv,.txt,.json,.ndjson,.jsonl" style={{ display: 'none' }}
+          disabled={isRunning}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) loadFile(file);
+            e.target.value = '';
+          }} />
+        {isReading ? '⏳ Reading…'
+          : fileName ? `📄 ${fileName} — ${table?.rows.length.toLocaleString() ?? 0} rows · drop another file to replace`
+          : '📂 Drop a CSV or JSON file here, or click to choose'}
+      </label>
+
+      {readError && <div style={s.error}>❌ {readError}</div>}
+
+      {table && mapping && (
+        <>
+          {/* Column mapping */}
+          <div style={s.sectionTitle}>Column mapping</div>
+          <div style={s.mappingGrid}>
+            {TRANSACTION_FIELDS.map(field => (
+              <label key={field} style={s.label}>
+                {FIELD_LABELS[field]}
+                <select style={s.input} value={mapping[field] ?? ''} disabled={isRunning}
+                  onChange={e => setMapping({ ...mapping, [field]: e.target.value || null })}>
+                  <option value="">— not in file —</option>
+                  {table.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {/* Preview */}
+          <div style={s.sectionTitle}>
+            Preview · <span style={{ color: '#10b981' }}>{valid.length.toLocaleString()} valid</span>
+            {invalid.length > 0 && <span style={{ color: '#ef4444' }}> · {invalid.length.toLocaleString()} with errors</span>}
+          </div>
+          <div style={s.tableWrap}>
+            <table style={s.table}>
+              <thead>
+                <tr>
+                  <th style={s.th}>#</th>
+                  {TRANSACTION_FIELDS.map(f => <th key={f} style={s.th}>{FIELD_LABELS[f]}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, PREVIEW_ROWS).map(r => (
+                  <tr key={r.row}>
+                    <td style={s.td}>{r.ok ? '✓' : '✕'} {r.row}</td>
+                    {TRANSACTION_FIELDS.map(f => {
+                      const error = r.ok ? undefined : r.errors[f];
+                      return (
+                        <td key={f} style={{ ...s.td, ...(error ? s.tdError : {}) }} title={error}>
+                          {r.input[f] ?? ''}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {invalid.length > 0 && (
+            <ul style={s.errorList}>
+              {invalid.slice(0, MAX_LISTED).map(r => !r.ok && (
+                <li key={r.row}>
+                  Row {r.row}: {Object.values(r.errors).join('; ')}
+                </li>
+              ))}
+              {invalid.length > MAX_LISTED && <li>…and {(invalid.length - MAX_LISTED).toLocaleString()} more</li>}
+            </ul>
+          )}
+
+          {/* Submit */}
+          <div style={s.submitRow}>
+            <label style={{ ...s.label, flex: '0 0 auto' }}>
+              Concurrent requests
+              <input style={{ ...s.input, width: 90 }} type="number" min={1} max={MAX_IMPORT_CONCURRENCY}
+                value={concurrency} disabled={isRunning}
+                onChange={e => setConcurrency(Math.min(MAX_IMPORT_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))} />
+            </label>
+            <button style={{ ...s.btn, ...s.btnGreen, opacity: isRunning || valid.length === 0 ? 0.6 : 1 }}
+              disabled={isRunning || valid.length === 0}
+              onClick={() => onImport(valid, concurrency)}>
+              {isRunning
+                ? `⏳ Importing… ${pct}%`
+                : `📥 Import ${valid.length.toLocaleString()} valid row${valid.length === 1 ? '' : 's'}`}
+            </button>
+            {isRunning && <button style={{ ...s.btn, ...s.btnRed }} onClick={onCancel}>⏹ Stop</button>}
+          </div>
+
+          {isRunning && progress && (
+            <div style={s.progressWrap}>
+              <div style={{ ...s.progressBar, width: `${pct}%` }} />
+              <span style={s.progressLabel}>{progress.done.toLocaleString()} / {progress.total.toLocaleString()}</span>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Report */}
+      {report && (
+        <div style={s.report}>
+          <div style={s.sectionTitle}>
+            {report.cancelled ? '⏹ Import stopped' : '📊 Import finished'} in {report.durationMs.toLocaleString()}ms
+          </div>
+          <div style={s.reportStats}>
+            <span style={{ color: '#10b981' }}>✓ {report.succeeded.toLocaleString()} imported</span>
+            <span style={{ color: '#ef4444' }}>✕ {report.rejected.length.toLocaleString()} rejected by the server</span>
+            <span style={{ color: '#f59e0b' }}>⚠ {invalid.length.toLocaleString()} skipped as invalid</span>
+            {report.cancelled && <span style={{ color: '#94a3b8' }}>{(valid.length - report.total).toLocaleString()} not sent</span>}
+          </div>
+          {report.rejected.length > 0 && (
+            <ul style={s.errorList}>
+              {report.rejected.slice(0, MAX_LISTED).map(r => (
+                <li key={r.row}>Row {r.row} ({r.transactionId}): {r.reason}</li>
+              ))}
+              {report.rejected.length > MAX_LISTED && (
+                <li>…and {(report.rejected.length - MAX_LISTED).toLocaleString()} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  dropZone:      { display: 'block', border: '2px dashed rgba(255,255,255,0.15)', borderRadius: 10, padding: '1.5rem', textAlign: 'center', color: '#94a3b8', cursor: 'pointer', fontSize: '0.9rem' },
+  dropZoneActive:{ borderColor: '#3b82f6', background: 'rgba(59,130,246,0.08)', color: '#bfdbfe' },
+  sectionTitle:  { color: '#e2e8f0', fontSize: '0.85rem', fontWeight: 600, margin: '1.25rem 0 0.5rem' },
+  mappingGrid:   { display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '0.75rem' },
+  label:         { display: 'flex', flexDirection: 'column', gap: '0.4rem', color: '#94a3b8', fontSize: '0.8rem', fontWeight: 600 },
+  input:         { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.15)', borderRadius: 6, padding: '0.5rem 0.7rem', color: '#f1f5f9', fontSize: '0.85rem', outline: 'none', colorScheme: 'dark' },
+  tableWrap:     { overflowX: 'auto', borderRadius: 8, border: '1px solid rgba(255,255,255,0.08)' },
+  table:         { width: '100%', borderCollapse: 'collapse', fontSize: '0.75rem', fontFamily: 'monospace' },
+  th:            { textAlign: 'left', padding: '0.4rem 0.6rem', color: '#64748b', borderBottom: '1px solid rgba(255,255,255,0.08)', whiteSpace: 'nowrap' },
+  td:            { padding: '0.35rem 0.6rem', color: '#cbd5e1', whiteSpace: 'nowrap', maxWidth: 220, overflow: 'hidden', textOverflow: 'ellipsis' },
+  tdError:       { color: '#fca5a5', background: 'rgba(239,68,68,0.1)' },
+  errorList:     { color: '#fca5a5', fontSize: '0.8rem', maxHeight: 180, overflowY: 'auto', margin: '0.75rem 0 0', paddingLeft: '1.25rem', lineHeight: 1.6 },
+  error:         { marginTop: '0.75rem', color: '#fca5a5', fontSize: '0.85rem' },
+  submitRow:     { display: 'flex', gap: '0.75rem', alignItems: 'flex-end', marginTop: '1.25rem' },
+  btn:           { padding: '0.75rem 1.5rem', borderRadius: 8, border: 'none', cursor: 'pointer', fontWeight: 600, fontSize: '0.95rem' },
+  btnGreen:      { background: 'linear-gradient(135deg,#10b981,#059669)', color: '#fff', flex: 1 },
+  btnRed:        { background: 'rgba(239,68,68,0.2)', color: '#fca5a5', border: '1px solid rgba(239,68,68,0.3)' },
+  progressWrap:  { background: 'rgba(255,255,255,0.05)', borderRadius: 8, height: 24, position: 'relative', marginTop: '1rem', overflow: 'hidden' },
+  progressBar:   { position: 'absolute', left: 0, top: 0, height: '100%', background: 'linear-gradient(90deg,#3b82f6,#10b981)', transition: 'width 0.2s', borderRadius: 8 },
+  progressLabel: { position: 'absolute', right: 8, top: '50%', transform: 'translateY(-50%)', color: '#f1f5f9', fontSize: '0.8rem', fontWeight: 600 },
+  report:        { marginTop: '1.25rem', padding: '1rem', background: 'rgba(0,0,0,0.2)', borderRadius: 8 },
+  reportStats:   { display: 'flex', gap: '1.25rem', flexWrap: 'wrap', fontSize: '0.85rem' },
+};
@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import {
+  DEFAULT_SCENARIO,
+  MAX_LOAD_BATCH_SIZE,
+  MAX_LOAD_CONCURRENCY,
+  MAX_LOAD_TOTAL,
+  RAMP_PROFILES,
+  SCENARIO_PRESETS,
+  reportsToCsv,
+  scenarioError,
+  type LatencySummary,
+  type LoadScenario,
+  type LoadTestProgress,
+  type LoadTestReport,
+  type RampProfile,
+} from '../services/loadTest';
+import { downloadBlob } from '../services/exportDownload';
+import { CURRENCY_CODES } from '../types/currency';
+import { TRANSACTION_STATUSES } from '../types/transaction';
+
+interface Props {
+  isRunning:   boolean;
+  progress:    LoadTestProgress | null;
+  /** Newest first */
+  runs:        LoadTestReport[];
+  onStart:     (scenario: LoadScenario) => void;
+  onCancel:    () => void;
+  onClearRuns: () => void;
+}
+
+const RAMP_LABELS: Record<RampProfile, string> = {
+  none:   'No ramp',
+  linear: 'Linear ramp',
+  step:   'Step ramp (4 steps)',
+};
+
+const DEFAULT_RATE = 50;
+
+/**
+ * Load-test scenarios: a preset or a custom mix, paced at a target rate (with
+ * an optional ramp-up) or flat out. Reports latency percentiles per request
+ * and until each transaction shows up on the live feed, and keeps recent runs
+ * side by side for comparison and export.
+ */
+export default function LoadTestPanel({ isRunning, progress, runs, onStart, onCancel, onClearRuns }: Props) {
+  const [scenario, setScenario] = useState<LoadScenario>(DEFAULT_SCENARIO);
+
+  const set = (patch: Partial<LoadScenario>) => setScenario(sc => ({ ...sc, ...patch }));
+  const error  = scenarioError(scenario);
+  const paced  = scenario.rate !== null;
+  const latest = runs[0] ?? null;
+  const pct = progress && progress.total > 0 ? Math.round((progress.sent / progress.total) * 100) : 0;
+
+  function exportRuns(format: 'json' | 'csv') {
+    const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+    const blob = format === 'json'
+      ? new Blob([JSON.stringify(runs, null, 2)], { type: 'application/json' })
+      : new Blob([reportsToCsv(runs)], { type: 'text/csv' });
+    downloadBlob(blob, `load-test-${stamp}.${format}`);
+  }
+
+  return (
+    <div>
+      {/* Presets */}
+      <div style={s.modeRow}>
+        {Object.values(SCENARIO_PRESETS).map(p => (
+          <button key={p.name} style={{ ...s.modeBtn, ...(scenario.name === p.name ? s.modeBtnActive : {}) }}
+            disabled={isRunning} onClick={() => setScenario(p)}>
+            {p.name}
+          </button>
+        ))}
+      </div>
+
+      <div style={s.grid3}>
+        <label style={s.label}>
+          Run name
+          <input style={s.input} value={scenario.name} disabled={isRunning}
+            onChange={e => set({ name: e.target.value })} />
+        </label>
+        <label style={s.label}>
+          Send mode
+          <select style={s.input} value={scenario.mode} disabled={isRunning}
+            onChange={e => set({ mode: e.target.value as LoadScenario['mode'] })}>
+            <option value="single">Per-request — POST /api/transactions</option>
+            <option value="batched">📦 Batched — POST /api/transactions/batch</option>
+          </select>
+        </label>
+        <label style={s.label}>
+          Transactions
+          <input style={s.input} type="number" min={1} max={MAX_LOAD_TOTAL} value={scenario.total} disabled={isRunning}
+            onChange={e => set({ total: Number(e.target.value) })} />
+        </label>
+        <label style={s.label}>
+          Concurrency
+          <input style={s.input} type="number" min={1} max={MAX_LOAD_CONCURRENCY} value={scenario.concurrency} disabled={isRunning}
+            onChange={e => set({ concurrency: Number(e.target.value) })} />
+          <span style={s.hint}>Requests in flight at most</span>
+        </label>
+        <label style={s.label}>
+          Batch size
+          <input style={s.input} type="number" min={1} max={MAX_LOAD_BATCH_SIZE} value={scenario.batchSize}
+            disabled={isRunning || scenario.mode !== 'batched'}
+            onChange={e => set({ batchSize: Number(e.target.value) })} />
+          <span style={s.hint}>Transactions per batch request</span>
+        </label>
+        <label style={s.label}>
+          Status-change upserts
+          <input style={s.input} type="number" min={0} max={100} value={Math.round(scenario.updateShare * 100)} disabled={isRunning}
+            onChange={e => set({ updateShare: Math.min(Math.max(Number(e.target.value), 0), 100) / 100 })} />
+          <span style={s.hint}>% of sends that move an ID this run created to another status</span>
+        </label>
+      </div>
+
+      {/* Pacing */}
+      <h3 style={s.sectionTitle}>Pacing</h3>
+      <div style={s.grid3}>
+        <label style={s.label}>
+          <span style={s.check}>
+            <input type="checkbox" checked={paced} disabled={isRunning}
+              onChange={e => set(e.target.checked ? { rate: DEFAULT_RATE } : { rate: null, ramp: 'none' })} />
+            Target rate (tx/sec)
+          </span>
+          <input style={s.input} type="number" min={1} value={scenario.rate ?? ''} placeholder="As fast as possible"
+            disabled={isRunning || !paced}
+            onChange={e => set({ rate: Number(e.target.value) })} />
+        </label>
+        <label style={s.label}>
+          Ramp-up
+          <select style={s.input} value={scenario.ramp} disabled={isRunning || !paced}
+            onChange={e => set({ ramp: e.target.value as RampProfile })}>
+            {RAMP_PROFILES.map(p => <option key={p} value={p}>{RAMP_LABELS[p]}</option>)}
+          </select>
+        </label>
+        <label style={s.label}>
+          Ramp duration (s)
+          <input style={s.input} type="number" min={1} value={scenario.rampSeconds}
+            disabled={isRunning || scenario.ramp === 'none'}
+            onChange={e => set({ rampSeconds: Number(e.target.value) })} />
+          <span style={s.hint}>Climbs from 10% (linear) or 25% (step) of the target</span>
+        </label>
+      </div>
+
+      {/* Mix */}
+      <h3 style={s.sectionTitle}>Mix (relative weights)</h3>
+      <div style={s.weights}>
+        {TRANSACTION_STATUSES.map(st => (
+          <WeightInput key={st} label={st} value={scenario.statusWeights[st]} disabled={isRunning}
+            onChange={w => set({ statusWeights: { ...scenario.statusWeights, [st]: w } })} />
+        ))}
+      </div>
+      <div style={s.weights}>
+        {CURRENCY_CODES.map(c => (
+          <WeightInput key={c} label={c} value={scenario.currencyWeights[c] ?? 0} disabled={isRunning}
+            onChange={w => set({ currencyWeights: { ...scenario.currencyWeights, [c]: w } })} />
+        ))}
+      </div>
+
+      {isRunning && progress && (
+        <div style={s.progressWrap}>
+          <div style={{ ...s.progressBar, width: `${pct}%` }} />
+          <span style={s.progressLabel}>
+            {progress.sent.toLocaleString()} / {progress.total.toLocaleString()}
+            {progress.failed > 0 && ` · ${progress.failed.toLocaleString()} failed`}
+          </span>
+        </div>
+      )}
+
+      {error && !isRunning && <div style={s.error}>{error}</div>}
+
+      <div style={s.btnRow}>
+        <button style={{ ...s.btn, ...s.btnGreen, flex: 1, opacity: isRunning || error ? 0.6 : 1 }}
+          onClick={() => onStart(scenario)} disabled={isRunning || error !== null}>
+          {isRunning
+            ? `⏳ Sending... ${pct}%`
+            : `🚀 Start Load Test (${scenario.total.toLocaleString()} tx${paced ? ` @ ${scenario.rate} tx/s` : ''})`}
+        </button>
+        {isRunning && (
+          <button style={{ ...s.btn, ...s.btnRed }} onClick={onCancel}>
+            ⏹ Stop
+          </button>
+        )}
+      </div>
+
+      {latest && (
+        <div style={s.results}>
+          <h3 style={s.resultsTitle}>📊 {latest.scenario.name}{latest.cancelled ? ' (stopped)' : ''}</h3>
+          <div style={s.statsGrid}>
+            <StatBox label="Sent"      value={latest.sent}                color="#94a3b8" />
+            <StatBox label="Succeeded" value={latest.succeeded}           color="#10b981" />
+            <StatBox label="Failed"    value={latest.failed}              color="#ef4444" />
+            <StatBox label="Requests"  value={latest.requests}            color="#38bdf8" />
+            <StatBox label="Time"      value={`${latest.durationMs}ms`}   color="#f59e0b" />
+            <StatBox label="tx/sec"    value={latest.txPerSecond}         color="#818cf8" />
+          </div>
+
+          <table style={s.table}>
+            <thead>
+              <tr>
+                <th style={s.th}>Latency (ms)</th>
+                {(['p50', 'p95', 'p99', 'max', 'mean'] as const).map(k => <th key={k} style={s.thNum}>{k}</th>)}
+                <th style={s.thNum}>samples</th>
+              </tr>
+            </thead>
+            <tbody>
+              <LatencyRow label="Request"      summary={latest.requestLatency} />
+              <LatencyRow label="Seen on feed" summary={latest.feedLatency} />
+            </tbody>
+          </table>
+
+          <div style={s.analysis}>
+            {latest.failed === 0 ? '✅ All passed' : `⚠️ ${latest.failed.toLocaleString()} failed`}
+            {latest.updates > 0 && ` · ${latest.updates.toLocaleString()} status changes`}
+            {latest.scenario.rate !== null && ` · ${Math.round((latest.txPerSecond / latest.scenario.rate) * 100)}% of target rate`}
+            {latest.feedMissing > 0 && ` · ${latest.feedMissing.toLocaleString()} never seen on the live feed`}
+          </div>
+          {latest.failureReasons.length > 0 && (
+            <ul style={s.reasonList}>
+              {latest.failureReasons.map(({ reason, count }) => (
+                <li key={reason}><strong style={{ color: '#fca5a5' }}>{count.toLocaleString()}×</strong> {reason}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div style={s.results}>
+          <div style={s.runsHeader}>
+            <h3 style={{ ...s.resultsTitle, margin: 0 }}>🗂 Runs</h3>
+            <div style={s.btnRowSmall}>
+              <button style={s.smallBtn} onClick={() => exportRuns('json')}>⬇ JSON</button>
+              <button style={s.smallBtn} onClick={() => exportRuns('csv')}>⬇ CSV</button>
+              <button style={s.smallBtn} onClick={onClearRuns} disabled={isRunning}>Clear</button>
+            </div>
+          </div>
+          <table style={s.table}>
+            <thead>
+              <tr>
+                <th style={s.th}>Run</th>
+                <th style={s.th}>Mode</th>
+                <th style={s.thNum}>Target</th>
+                <th style={s.thNum}>tx/sec</th>
+                <th style={s.thNum}>Failed</th>
+                <th style={s.thNum}>Req p95</th>
+                <th style={s.thNum}>Feed p95</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(r => (
+                <tr key={r.id}>
+                  <td style={s.td} title={new Date(r.startedAt).toLocaleString()}>{r.scenario.name}</td>
+                  <td style={s.td}>{r.scenario.mode === 'batched' ? `batch ×${r.scenario.batchSize}` : 'single'}</td>
+                  <td style={s.tdNum}>{r.scenario.rate ?? 'max'}</td>
+                  <td style={s.tdNum}>{r.txPerSecond.toLocaleString()}</td>
+                  <td style={s.tdNum}>{r.failed.toLocaleString()}</td>
+                  <td style={s.tdNum}>{r.requestLatency?.p95 ?? '—'}</td>
+                  <td style={s.tdNum}>{r.feedLatency?.p95 ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function WeightInput({ label, value, disabled, onChange }: {
+  label: string; value: number; disabled: boolean; onChange: (weight: number) => void;
+}) {
+  return (
+    <label style={s.weight}>
+      {label}
+      <input style={{ ...s.input, ...s.weightInput }} type="number" min={0} value={value} disabled={disabled}
+        onChange={e => onChange(Math.max(0, Number(e.target.value)))} />
+    </label>
+  );
+}
+
+function LatencyRow({ label, summary }: { label: string; summary: LatencySummary | null }) {
+  return (
+    <tr>
+      <td style={s.td}>{label}</td>
+      {(['p50', 'p95', 'p99', 'max', 'mean'] as const).map(k => (
+        <td key={k} style={s.tdNum}>{summary ? summary[k] : '—'}</td>
+      ))}
+      <td style={s.tdNum}>{summary ? summary.count.toLocaleString() : 0}</td>
+    </tr>
+  );
+}
+
+function StatBox({ label, value, color }: { label: string; value: string | number; color: string }) {
+  return (
+    <div style={sb.box}>
+      <div style={{ ...sb.val, color }}>{value}</div>
+      <div style={sb.lbl}>{label}</div>
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  modeRow:      { display: 'flex', gap: '0.5rem', marginBottom: '1rem', flexWrap: 'wrap' },
+  modeBtn:      { padding: '0.45rem 1rem', borderRadius: 20, border: '1px solid rgba(255,255,255,0.12)', background: 'transparent', color: '#94a3b8', cursor: 'pointer', fontSize: '0.85rem', fontWeight: 500 },
+  modeBtnActive:{ background: 'rgba(255,255,255,0.1)', color: '#f1f5f9', borderColor: 'rgba(255,255,255,0.25)' },
+  grid3:        { display: 'grid', gridTemplateColumns: 'repeat(3,1fr)', gap: '1rem', marginBottom: '1rem' },
+  sectionTitle: { color: '#cbd5e1', fontSize: '0.9rem', margin: '0.5rem 0 0.75rem' },
+  label:        { display: 'flex', flexDirection: 'column', gap: '0.4rem', color: '#94a3b8', fontSize: '0.85rem', fontWeight: 600 },
+  check:        { display: 'flex', alignItems: 'center', gap: '0.4rem' },
+  input:        { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.15)', borderRadius: 6, padding: '0.6rem 0.8rem', color: '#f1f5f9', fontSize: '0.95rem', outline: 'none' },
+  hint:         { color: '#475569', fontSize: '0.75rem', fontWeight: 400 },
+  weights:      { display: 'flex', gap: '0.5rem', flexWrap: 'wrap', marginBottom: '0.75rem' },
+  weight:       { display: 'flex', flexDirection: 'column', gap: '0.25rem', color: '#94a3b8', fontSize: '0.75rem', fontWeight: 600 },
+  weightInput:  { width: 72, padding: '0.4rem 0.6rem', fontSize: '0.85rem' },
+  error:        { color: '#fca5a5', fontSize: '0.85rem', marginBottom: '0.75rem' },
+  progressWrap: { background: 'rgba(255,255,255,0.05)', borderRadius: 8, height: 24, position: 'relative', margin: '0.5rem 0 1rem', overflow: 'hidden' },
+  progressBar:  { position: 'absolute', left: 0, top: 0, height: '100%', background: 'linear-gradient(90deg,#3b82f6,#10b981)', transition: 'width 0.2s', borderRadius: 8 },
+  progressLabel:{ position: 'absolute', right: 8, top: '50%', transform: 'translateY(-50%)', color: '#f1f5f9', fontSize: '0.8rem', fontWeight: 600 },
+  btnRow:       { display: 'flex', gap: '0.75rem', marginTop: '0.5rem' },
+  btnRowSmall:  { display: 'flex', gap: '0.5rem' },
+  btn:          { padding: '0.75rem 1.5rem', borderRadius: 8, border: 'none', cursor: 'pointer', fontWeight: 600, fontSize: '0.95rem', transition: 'opacity 0.2s' },
+  btnGreen:     { background: 'linear-gradient(135deg,#10b981,#059669)', color: '#fff' },
+  btnRed:       { background: 'rgba(239,68,68,0.2)', color: '#fca5a5', border: '1px solid rgba(239,68,68,0.3)' },
+  smallBtn:     { padding: '0.3rem 0.75rem', borderRadius: 6, border: '1px solid rgba(255,255,255,0.12)', background: 'rgba(255,255,255,0.05)', color: '#cbd5e1', cursor: 'pointer', fontSize: '0.8rem' },
+  results:      { marginTop: '1.5rem', padding: '1rem', background: 'rgba(0,0,0,0.2)', borderRadius: 8 },
+  resultsTitle: { color: '#e2e8f0', margin: '0 0 1rem' },
+  runsHeader:   { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' },
+  statsGrid:    { display: 'grid', gridTemplateColumns: 'repeat(6,1fr)', gap: '0.5rem', marginBottom: '1rem' },
+  table:        { width: '100%', borderCollapse: 'collapse', fontSize: '0.8rem', marginBottom: '0.75rem' },
+  th:           { textAlign: 'left', color: '#64748b', fontWeight: 600, padding: '0.35rem 0.5rem', borderBottom: '1px solid rgba(255,255,255,0.08)' },
+  thNum:        { textAlign: 'right', color: '#64748b', fontWeight: 600, padding: '0.35rem 0.5rem', borderBottom: '1px solid rgba(255,255,255,0.08)' },
+  td:           { color: '#cbd5e1', padding: '0.35rem 0.5rem', borderBottom: '1px solid rgba(255,255,255,0.04)' },
+  tdNum:        { color: '#cbd5e1', padding: '0.35rem 0.5rem', borderBottom: '1px solid rgba(255,255,255,0.04)', textAlign: 'right', fontVariantNumeric: 'tabular-nums' },
+  analysis:     { color: '#94a3b8', fontSize: '0.9rem', lineHeight: 1.6 },
+  reasonList:   { color: '#94a3b8', fontSize: '0.8rem', margin: '0.75rem 0 0', paddingLeft: '1.25rem', lineHeight: 1.6 },
+};
+
+const sb: Record<string, React.CSSProperties> = {
+  box: { background: 'rgba(255,255,255,0.04)', borderRadius: 8, padding: '0.75rem', textAlign: 'center' },
+  val: { fontSize: '1.3rem', fontWeight: 700 },
+  lbl: { color: '#64748b', fontSize: '0.7rem', marginTop: '0.2rem', textTransform: 'uppercase' },
+};
@@ -0,0 +1,90 @@
+import { formatMoney } from '../services/formatting';
+import { OUTBOX_MAX_ATTEMPTS } from '../services/outbox';
+import type { OutboxEntry, OutboxStatus } from '../types/transaction';
+
+interface Props {
+  entries:   OutboxEntry[];
+  onRetry:   (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+const STATUS_STYLE: Record<OutboxStatus, { label: string; color: string; bg: string }> = {
+  pending:  { label: 'Pending',  color: '#fcd34d', bg: 'rgba(245,158,11,0.15)' },
+  retrying: { label: 'Sending…', color: '#93c5fd', bg: 'rgba(59,130,246,0.15)' },
+  failed:   { label: 'Failed',   color: '#fca5a5', bg: 'rgba(239,68,68,0.15)' },
+};
+
+/**
+ * Submissions waiting in the outbox. Pending ones retry on their own with
+ * backoff, and as soon as the connection comes back; failed ones stay until
+ * retried or discarded by hand.
+ */
+export default function OutboxPanel({ entries, onRetry, onDiscard }: Props) {
+  const failed = entries.filter(e => e.status === 'failed').length;
+
+  return (
+    <div>
+      <p style={s.note}>
+        Retrying is always safe: the API upserts by transaction ID, so a submission that did get
+        through is updated in place — never duplicated — and an older version never overwrites a newer one.
+      </p>
+      {failed > 0 && (
+        <div style={s.summary}>
+          {failed} failed permanently — the API rejected {failed === 1 ? 'it' : 'them'} or ran out of
+          {' '}{OUTBOX_MAX_ATTEMPTS} attempts. Retry to start over, or discard.
+        </div>
+      )}
+
+      <ul style={s.list}>
+        {entries.map(entry => {
+          const tx = entry.transaction;
+          const st = STATUS_STYLE[entry.status];
+          return (
+            <li key={entry.id} style={s.item}>
+              <span style={{ ...s.badge, color: st.color, background: st.bg }}>{st.label}</span>
+              <div style={s.body}>
+                <div style={s.title}>
+                  <code style={s.id} title={tx.transactionId}>{tx.transactionId.slice(0, 8)}…</code>
+                  {' '}{formatMoney(tx.amount, tx.currency)} · {tx.status}
+                </div>
+                <div style={s.meta}>
+                  {entry.attempts === 0 ? 'Not sent yet' : `${entry.attempts} attempt${entry.attempts === 1 ? '' : 's'}`}
+                  {entry.status === 'pending' && entry.nextAttemptAt !== null
+                    && (navigator.onLine
+                      ? ` · next try ${new Date(entry.nextAttemptAt).toLocaleTimeString()}`
+                      : ' · waiting for the connection')}
+                  {entry.lastError && <> · <span style={s.error}>{entry.lastError}</span></>}
+                </div>
+              </div>
+              <div style={s.actions}>
+                <button style={s.btn} onClick={() => onRetry(entry.id)} disabled={entry.status === 'retrying'}>
+                  ↻ Retry
+                </button>
+                <button style={{ ...s.btn, ...s.btnDanger }} onClick={() => onDiscard(entry.id)}
+                  title="Drop it — it won't be sent">
+                  ✕ Discard
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  note:      { color: '#64748b', fontSize: '0.8rem', lineHeight: 1.6, margin: '0 0 1rem' },
+  summary:   { color: '#fca5a5', fontSize: '0.85rem', marginBottom: '0.75rem' },
+  list:      { listStyle: 'none', margin: 0, padding: 0, display: 'flex', flexDirection: 'column', gap: '0.5rem' },
+  item:      { display: 'flex', alignItems: 'center', gap: '0.75rem', padding: '0.6rem 0.75rem', background: 'rgba(0,0,0,0.2)', borderRadius: 8 },
+  badge:     { fontSize: '0.7rem', fontWeight: 700, padding: '0.2rem 0.5rem', borderRadius: 10, textTransform: 'uppercase', whiteSpace: 'nowrap' },
+  body:      { flex: 1, minWidth: 0 },
+  title:     { color: '#e2e8f0', fontSize: '0.85rem' },
+  id:        { color: '#94a3b8' },
+  meta:      { color: '#64748b', fontSize: '0.75rem', marginTop: '0.2rem', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' },
+  error:     { color: '#fca5a5' },
+  actions:   { display: 'flex', gap: '0.4rem' },
+  btn:       { padding: '0.3rem 0.7rem', borderRadius: 6, border: '1px solid rgba(255,255,255,0.12)', background: 'rgba(255,255,255,0.05)', color: '#cbd5e1', cursor: 'pointer', fontSize: '0.8rem' },
+  btnDanger: { color: '#fca5a5', borderColor: 'rgba(239,68,68,0.3)' },
+};
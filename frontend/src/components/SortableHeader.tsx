@@ -0,0 +1,49 @@
+import { ROW_GRID } from './TransactionRow';
+import type { SortField, TransactionSort } from '../types/transaction';
+
+interface Props {
+  sort: TransactionSort;
+  onSort: (sort: TransactionSort) => void;
+}
+
+/**
+ * Column header for the History list — aligned with TransactionRow.
+ * Clicking the active column flips direction; a new column starts descending
+ * (largest / newest first), which is what ops usually want.
+ */
+export default function SortableHeader({ sort, onSort }: Props) {
+  const toggle = (field: SortField) => onSort({
+    sortBy:  field,
+    sortDir: sort.sortBy === field && sort.sortDir === 'desc' ? 'asc' : 'desc',
+  });
+
+  const label = (field: SortField, text: string) => {
+    const active = sort.sortBy === field;
+    return (
+      <button style={{ ...s.btn, ...(active ? s.btnActive : {}) }} onClick={() => toggle(field)}
+        title={`Sort by ${text.toLowerCase()}`}>
+        {text}{active && (sort.sortDir === 'desc' ? ' ▼' : ' ▲')}
+      </button>
+    );
+  };
+
+  return (
+    <div style={s.header}>
+      <div>{label('status', 'Status')}</div>
+      <div style={s.static}>ID</div>
+      <div style={s.pair}>
+        {label('amount', 'Amount')}
+        {label('currency', 'Currency')}
+      </div>
+      <div>{label('timestamp', 'Time')}</div>
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  header:    { display: 'grid', gridTemplateColumns: ROW_GRID, alignItems: 'center', gap: '1rem', padding: '0 1rem', marginBottom: '0.4rem' },
+  pair:      { display: 'flex', gap: '0.5rem' },
+  static:    { color: '#475569', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em' },
+  btn:       { background: 'none', border: 'none', padding: 0, color: '#475569', cursor: 'pointer', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', fontWeight: 600 },
+  btnActive: { color: '#a5b4fc' },
+};
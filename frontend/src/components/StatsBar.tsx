@@ -1,65 +1,162 @@
 import { useState, useMemo } from 'react';
-import type { DbStats } from '../store/transactionSlice';
-
-const CURRENCY_SYMBOLS: Record<string, string> = {
-  USD: '$', EUR: '€', ILS: '₪', GBP: '£', JPY: '¥', BTC: '₿', ETH: 'Ξ',
-};
+import { STATS_WINDOWS } from '../types/transaction';
+import type { DbStats, StatsWindow } from '../types/transaction';
+import { CURRENCY_CODES, currencyInfo } from '../types/currency';
+import type { AmountDisplay, Decimal, FxRates } from '../types/currency';
+import { convert, convertTotal } from '../services/fxRates';
+import { decimalToNumber } from '../services/decimal';
+import { formatAmount, formatMoney } from '../services/formatting';
 
 interface Props {
   stats: DbStats;
+  statsWindow: StatsWindow;
+  onWindowChange: (window: StatsWindow) => void;
+  /** Volumes are shown converted into this currency when `fxRates` allows */
+  reportingCurrency: string;
+  fxRates: FxRates | null;
+  fxError?: string | null;
+  onReportingCurrencyChange: (currency: string) => void;
+  amountDisplay: AmountDisplay;
+  onAmountDisplayChange: (display: AmountDisplay) => void;
   onRefresh: () => void;
 }
 
-export default function StatsBar({ stats, onRefresh }: Props) {
+const WINDOW_LABELS: Record<StatsWindow, string> = {
+  all: 'All time', '24h': 'Last 24h', '1h': 'Last hour', '5m': 'Last 5 min',
+};
+
+/** One currency's volume — `converted` is null when there is no rate for it */
+interface VolumeLine {
+  currency:  string;
+  amount:    Decimal;
+  converted: number | null;
+}
+
+export default function StatsBar({
+  stats, statsWindow, onWindowChange,
+  reportingCurrency, fxRates, fxError, onReportingCurrencyChange,
+  amountDisplay, onAmountDisplayChange,
+  onRefresh,
+}: Props) {
   const [showVolume, setShowVolume] = useState(false);
-  const sortedCurrencies = useMemo(
-    () => Object.entries(stats.volumeByCurrency).sort(([, a], [, b]) => b - a),
-    [stats.volumeByCurrency],
+
+  // Largest first by converted value — as-stored amounts only rank unconvertible currencies
+  const volumes = useMemo<VolumeLine[]>(
+    () => Object.entries(stats.volumeByCurrency)
+      .map(([currency, amount]) => ({ currency, amount, converted: convert(amount, currency, reportingCurrency, fxRates) }))
+      .sort((a, b) => (b.converted ?? decimalToNumber(b.amount)) - (a.converted ?? decimalToNumber(a.amount))),
+    [stats.volumeByCurrency, reportingCurrency, fxRates],
+  );
+  const total = useMemo(
+    () => convertTotal(stats.volumeByCurrency, reportingCurrency, fxRates),
+    [stats.volumeByCurrency, reportingCurrency, fxRates],
   );
 
+  const ratesNote = fxRates
+    ? `Rates as of ${new Date(fxRates.asOf).toLocaleString()}${fxError ? ` — refresh failed: ${fxError}` : ''}`
+    : fxError ? `FX rates unavailable: ${fxError}` : 'Loading FX rates…';
+  const totalTitle = [
+    ...volumes.map(v => `${v.currency}  ${formatMoney(v.amount, v.currency)}`),
+    total.missing.length > 0 ? `Not included (no rate): ${total.missing.join(', ')}` : '',
+    ratesNote,
+  ].filter(Boolean).join('\n');
+
   return (
-    <div style={s.bar}>
-      <StatCard label="Total in DB"  value={stats.total.toLocaleString()}     color="#6366f1" />
-      <StatCard label="Completed"    value={stats.completed.toLocaleString()} color="#10b981" />
-      <StatCard label="Failed"       value={stats.failed.toLocaleString()}    color="#ef4444" />
-      <StatCard label="Pending"      value={stats.pending.toLocaleString()}   color="#f59e0b" />
+    <>
+      <div style={s.windowRow}>
+        {STATS_WINDOWS.map(w => (
+          <button key={w} style={{ ...s.windowBtn, ...(w === statsWindow ? s.windowBtnActive : {}) }}
+            onClick={() => onWindowChange(w)}>
+            {WINDOW_LABELS[w]}
+          </button>
+        ))}
+        <label style={s.reportingLabel} title={ratesNote}>
+          Report in
+          <select style={s.reportingSelect} value={reportingCurrency}
+            onChange={e => onReportingCurrencyChange(e.target.value)}>
+            {CURRENCY_CODES.map(c => <option key={c} value={c}>{c} — {currencyInfo(c).name}</option>)}
+          </select>
+          {fxError && <span style={{ color: '#f59e0b' }}>⚠</span>}
+        </label>
+        {(['full', 'compact'] as const).map(d => (
+          <button key={d} style={{ ...s.windowBtn, ...(d === amountDisplay ? s.windowBtnActive : {}) }}
+            onClick={() => onAmountDisplayChange(d)}
+            title={d === 'full' ? 'Every minor unit' : 'Abbreviated — full amount on hover'}>
+            {d === 'full' ? '1,234.56' : '1.2K'}
+          </button>
+        ))}
+      </div>
+      <div style={s.bar}>
+        <StatCard label={statsWindow === 'all' ? 'Total in DB' : 'Total'} value={stats.total.toLocaleString()} color="#6366f1" />
+        <StatCard label="Completed"    value={stats.completed.toLocaleString()} color="#10b981" />
+        <StatCard label="Failed"       value={stats.failed.toLocaleString()}    color="#ef4444" />
+        <StatCard label="Pending"      value={stats.pending.toLocaleString()}   color="#f59e0b" />
+        <StatCard label="Failure rate" value={`${(stats.failureRate * 100).toFixed(1)}%`} color="#fca5a5" />
 
-      <div style={{ ...s.statCard, cursor: 'pointer', gridColumn: 'span 2' }}
-        onClick={() => setShowVolume(v => !v)}>
-        <div style={s.volumeHeader}>
-          Volume by Currency <span style={{ fontSize: '0.7rem' }}>{showVolume ? '▲' : '▼'}</span>
+        <div style={s.statCard} title="Amounts as stored — currencies are not converted">
+          <div style={s.volumeHeader}>Amount</div>
+          <div style={s.amountGrid}>
+            <span>avg</span><span style={s.volumeAmt}>{formatAmount(stats.averageAmount, { display: amountDisplay })}</span>
+            <span>p50</span><span style={s.volumeAmt}>{formatAmount(stats.p50Amount, { display: amountDisplay })}</span>
+            <span>p95</span><span style={s.volumeAmt}>{formatAmount(stats.p95Amount, { display: amountDisplay })}</span>
+            <span>p99</span><span style={s.volumeAmt}>{formatAmount(stats.p99Amount, { display: amountDisplay })}</span>
+          </div>
         </div>
-        {showVolume ? (
-          <div style={s.volumeGrid}>
-            {sortedCurrencies.length === 0
-              ? <span style={{ color: '#475569', fontSize: '0.85rem' }}>—</span>
-              : sortedCurrencies.map(([cur, amt]) => (
-                <div key={cur} style={s.volumeRow}>
-                  <span style={s.currencyTag}>{cur}</span>
-                  <span style={s.volumeAmt}>
-                    {CURRENCY_SYMBOLS[cur] ?? ''}{amt.toLocaleString('en', { maximumFractionDigits: 2 })}
-                  </span>
-                </div>
-              ))}
+
+        <div style={{ ...s.statCard, cursor: 'pointer', gridColumn: 'span 3' }}
+          onClick={() => setShowVolume(v => !v)}>
+          <div style={s.volumeHeader}>
+            Volume in {reportingCurrency} <span style={{ fontSize: '0.7rem' }}>{showVolume ? '▲' : '▼'}</span>
           </div>
-        ) : (
-          <div style={s.volumeSummary}>
-            {sortedCurrencies.slice(0, 3).map(([cur, amt]) => (
-              <span key={cur} style={s.volumeChip}>
-                <span style={s.currencyTag}>{cur}</span>
-                {CURRENCY_SYMBOLS[cur] ?? ''}{amt.toLocaleString('en', { maximumFractionDigits: 0 })}
-              </span>
-            ))}
-            {sortedCurrencies.length > 3 &&
-              <span style={{ color: '#64748b', fontSize: '0.8rem' }}>+{sortedCurrencies.length - 3}</span>}
+          <div style={s.volumeTotal} title={totalTitle}>
+            {volumes.length === 0 ? '—' : formatMoney(total.total, reportingCurrency, { display: amountDisplay })}
+            {total.missing.length > 0 && <span style={s.partial}> + {total.missing.join(', ')}</span>}
           </div>
-        )}
+          {showVolume ? (
+            <div style={s.volumeGrid}>
+              {volumes.map(v => (
+                <div key={v.currency} style={s.volumeRow}>
+                  <span style={s.currencyTag}>{v.currency}</span>
+                  <VolumeAmount line={v} reportingCurrency={reportingCurrency} display={amountDisplay} />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div style={s.volumeSummary}>
+              {volumes.slice(0, 3).map(v => (
+                <span key={v.currency} style={s.volumeChip}>
+                  <span style={s.currencyTag}>{v.currency}</span>
+                  <VolumeAmount line={v} reportingCurrency={reportingCurrency} display={amountDisplay} />
+                </span>
+              ))}
+              {volumes.length > 3 &&
+                <span style={{ color: '#64748b', fontSize: '0.8rem' }}>+{volumes.length - 3}</span>}
+            </div>
+          )}
+        </div>
+
+        <button style={s.refreshBtn} onClick={onRefresh} title="Refresh stats from DB">
+          ↻ Refresh
+        </button>
       </div>
+    </>
+  );
+}
 
-      <button style={s.refreshBtn} onClick={onRefresh} title="Refresh stats from DB">
-        ↻ Refresh
-      </button>
-    </div>
+/** Converted amount, with the exact original one hover away — as stored when there is no rate */
+function VolumeAmount({ line, reportingCurrency, display }: { line: VolumeLine; reportingCurrency: string; display: AmountDisplay }) {
+  const exact = `${formatMoney(line.amount, line.currency)} ${line.currency}`;
+  if (line.converted === null || line.currency === reportingCurrency) {
+    return (
+      <span style={s.volumeAmt} title={line.converted === null ? `${exact} — no FX rate` : exact}>
+        {formatMoney(line.amount, line.currency, { display })}
+      </span>
+    );
+  }
+  return (
+    <span style={s.volumeAmt} title={exact}>
+      {formatMoney(line.converted, reportingCurrency, { display })}
+    </span>
   );
 }
 
@@ -73,7 +170,11 @@ function StatCard({ label, value, color }: { label: string; value: string | numb
 }
 
 const s: Record<string, React.CSSProperties> = {
-  bar:          { display: 'grid', gridTemplateColumns: 'repeat(4,1fr) 2fr auto', gap: '0.75rem', marginBottom: '1rem', alignItems: 'start' },
+  bar:          { display: 'grid', gridTemplateColumns: 'repeat(6,1fr) auto', gap: '0.75rem', marginBottom: '1rem', alignItems: 'start' },
+  windowRow:    { display: 'flex', gap: '0.35rem', marginBottom: '0.5rem' },
+  windowBtn:    { padding: '0.25rem 0.7rem', borderRadius: 20, border: '1px solid rgba(255,255,255,0.12)', background: 'transparent', color: '#94a3b8', cursor: 'pointer', fontSize: '0.75rem' },
+  windowBtnActive: { background: 'rgba(255,255,255,0.1)', color: '#f1f5f9', borderColor: 'rgba(255,255,255,0.25)' },
+  amountGrid:   { display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: '0.5rem', color: '#64748b', fontSize: '0.75rem', textAlign: 'right' },
   statCard:     { background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 10, padding: '0.75rem 1rem' },
   volumeHeader: { color: '#94a3b8', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '0.4rem' },
   volumeGrid:   { display: 'flex', flexDirection: 'column', gap: '0.4rem' },
@@ -82,5 +183,9 @@ const s: Record<string, React.CSSProperties> = {
   volumeChip:   { display: 'flex', gap: '0.3rem', alignItems: 'center', color: '#e2e8f0', fontSize: '0.9rem' },
   currencyTag:  { background: 'rgba(99,102,241,0.2)', color: '#a5b4fc', padding: '0.1rem 0.4rem', borderRadius: 4, fontSize: '0.75rem', fontWeight: 700 },
   volumeAmt:    { color: '#e2e8f0', fontWeight: 600, fontSize: '0.9rem' },
+  volumeTotal:  { color: '#f1f5f9', fontWeight: 700, fontSize: '1.3rem', lineHeight: 1, marginBottom: '0.5rem' },
+  partial:      { color: '#64748b', fontSize: '0.75rem', fontWeight: 400 },
+  reportingLabel:  { marginLeft: 'auto', display: 'flex', gap: '0.4rem', alignItems: 'center', color: '#64748b', fontSize: '0.75rem' },
+  reportingSelect: { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 6, padding: '0.2rem 0.4rem', color: '#94a3b8', fontSize: '0.75rem', outline: 'none', colorScheme: 'dark' },
   refreshBtn:   { padding: '0.5rem 0.75rem', borderRadius: 8, border: '1px solid rgba(255,255,255,0.1)', background: 'transparent', color: '#64748b', cursor: 'pointer', fontSize: '0.8rem', alignSelf: 'start' },
 };
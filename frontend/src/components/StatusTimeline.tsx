@@ -0,0 +1,53 @@
+import { STATUS_CONFIG } from '../types/transaction';
+import type { StatusChange } from '../types/transaction';
+
+interface Props {
+  history: StatusChange[];
+}
+
+/** Vertical timeline of status transitions, oldest at the top. */
+export default function StatusTimeline({ history }: Props) {
+  if (history.length === 0) {
+    return <div style={s.empty}>No status changes recorded</div>;
+  }
+
+  return (
+    <ol style={s.list}>
+      {history.map((change, i) => {
+        const cfg  = STATUS_CONFIG[change.status];
+        const prev = history[i - 1];
+        const gap  = prev ? formatGap(Date.parse(change.timestamp) - Date.parse(prev.timestamp)) : null;
+        return (
+          <li key={`${change.status}-${change.timestamp}`} style={s.item}>
+            <span style={{ ...s.dot, background: cfg.color }} />
+            {i < history.length - 1 && <span style={s.line} />}
+            <div style={s.body}>
+              <span style={{ ...s.label, color: cfg.color }}>{cfg.label}</span>
+              {gap && <span style={s.gap}>+{gap}</span>}
+              <div style={s.time}>{change.timestamp}</div>
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function formatGap(ms: number): string {
+  if (ms < 1000)      return `${ms}ms`;
+  if (ms < 60_000)    return `${(ms / 1000).toFixed(1)}s`;
+  if (ms < 3_600_000) return `${Math.round(ms / 60_000)}m`;
+  return `${(ms / 3_600_000).toFixed(1)}h`;
+}
+
+const s: Record<string, React.CSSProperties> = {
+  list:  { listStyle: 'none', display: 'flex', flexDirection: 'column' },
+  item:  { position: 'relative', paddingLeft: '1.5rem', paddingBottom: '1rem' },
+  dot:   { position: 'absolute', left: 0, top: '0.3rem', width: 10, height: 10, borderRadius: '50%' },
+  line:  { position: 'absolute', left: 4, top: '1rem', bottom: 0, width: 2, background: 'rgba(255,255,255,0.1)' },
+  body:  { display: 'flex', flexWrap: 'wrap', alignItems: 'baseline', gap: '0.5rem' },
+  label: { fontSize: '0.8rem', fontWeight: 700, letterSpacing: '0.05em' },
+  gap:   { color: '#64748b', fontSize: '0.75rem' },
+  time:  { width: '100%', color: '#94a3b8', fontFamily: 'monospace', fontSize: '0.8rem' },
+  empty: { color: '#475569', fontSize: '0.85rem' },
+};
@@ -0,0 +1,316 @@
+import { useState } from 'react';
+import { validateTransaction, type TransactionInput } from '../services/transactionValidation';
+import { formatMoney } from '../services/formatting';
+import { CURRENCY_CODES, currencyInfo } from '../types/currency';
+import {
+  TRANSACTION_STATUSES,
+  type FieldErrors,
+  type SendResult,
+  type Transaction,
+  type TransactionField,
+} from '../types/transaction';
+
+type Mode = 'new' | 'edit';
+
+interface Draft {
+  transactionId: string;
+  amount:        string;
+  currency:      string;
+  status:        string;
+  /** datetime-local value — local time, no zone */
+  timestamp:     string;
+  /** Stamp with the time of submission instead of the picker */
+  useNow:        boolean;
+}
+
+type LoadState =
+  | { kind: 'idle' }
+  | { kind: 'loading' }
+  | { kind: 'loaded'; transaction: Transaction }
+  | { kind: 'error'; message: string };
+
+interface Props {
+  /** A `queued` failure is safe in the outbox — the form moves on */
+  onSubmit: (tx: Transaction) => Promise<SendResult>;
+  /** Resolves null when no transaction has that ID */
+  onLoad:   (id: string) => Promise<Transaction | null>;
+  onSent?:  (result: SendResult) => void;
+}
+
+function newDraft(): Draft {
+  return {
+    transactionId: crypto.randomUUID(),
+    amount:        '1500.50',
+    currency:      'USD',
+    status:        'Completed',
+    timestamp:     toLocalInput(new Date().toISOString()),
+    useNow:        true,
+  };
+}
+
+/**
+ * Manual entry — a new transaction, or an existing one loaded by ID and sent
+ * back as an upsert (e.g. moving a stuck Pending by hand). Fields are checked
+ * with the same rules as the API as you type; the server's per-field errors
+ * show under the same inputs.
+ */
+export default function TransactionForm({ onSubmit, onLoad, onSent }: Props) {
+  const [mode,         setMode]         = useState<Mode>('new');
+  const [draft,        setDraft]        = useState<Draft>(newDraft);
+  const [touched,      setTouched]      = useState<Partial<Record<TransactionField, boolean>>>({});
+  const [attempted,    setAttempted]    = useState(false);
+  const [serverErrors, setServerErrors] = useState<FieldErrors>({});
+  const [submitting,   setSubmitting]   = useState(false);
+  const [result,       setResult]       = useState<SendResult | null>(null);
+  const [lookupId,     setLookupId]     = useState('');
+  const [load,         setLoad]         = useState<LoadState>({ kind: 'idle' });
+
+  const stored = load.kind === 'loaded' ? load.transaction : null;
+
+  // "Now" is checked against the current time; the real stamp is taken at submit
+  const input = (d: Draft): TransactionInput => ({
+    transactionId: d.transactionId,
+    amount:        d.amount,
+    currency:      d.currency,
+    status:        d.status,
+    timestamp:     d.useNow ? new Date().toISOString() : fromLocalInput(d.timestamp),
+  });
+  const validation = validateTransaction(input(draft), { iso4217: true, after: stored?.timestamp });
+  const clientErrors = validation.ok ? {} : validation.errors;
+
+  const errorFor = (field: TransactionField): string | undefined =>
+    serverErrors[field] ?? (touched[field] || attempted ? clientErrors[field] : undefined);
+
+  const edit = (field: TransactionField, patch: Partial<Draft>) => {
+    setDraft(d => ({ ...d, ...patch }));
+    setTouched(t => ({ ...t, [field]: true }));
+    setServerErrors(e => {
+      const next = { ...e };
+      delete next[field];
+      return next;
+    });
+    setResult(null);
+  };
+
+  const reset = (next: Draft) => {
+    setDraft(next);
+    setTouched({});
+    setAttempted(false);
+    setServerErrors({});
+  };
+
+  const switchMode = (next: Mode) => {
+    if (next === mode) return;
+    setMode(next);
+    setLoad({ kind: 'idle' });
+    setResult(null);
+    reset(newDraft());
+  };
+
+  async function loadExisting() {
+    const id = lookupId.trim();
+    if (!id) return;
+    setLoad({ kind: 'loading' });
+    setResult(null);
+    try {
+      const tx = await onLoad(id);
+      if (!tx) {
+        setLoad({ kind: 'error', message: `No transaction with ID ${id}` });
+        return;
+      }
+      setLoad({ kind: 'loaded', transaction: tx });
+      reset(fromTransaction(tx));
+    } catch (err) {
+      setLoad({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  async function submit() {
+    setAttempted(true);
+    setResult(null);
+    const checked = validateTransaction(input(draft), { iso4217: true, after: stored?.timestamp });
+    if (!checked.ok) return;
+
+    setSubmitting(true);
+    const res = await onSubmit(checked.transaction);
+    setSubmitting(false);
+    setResult(res);
+    onSent?.(res);
+
+    if (!res.ok && res.queued) {
+      // Safe in the outbox — free the form for the next one
+      if (mode === 'new') reset({ ...draft, transactionId: crypto.randomUUID() });
+    } else if (!res.ok) {
+      setServerErrors(res.fieldErrors);
+    } else if (mode === 'new') {
+      reset({ ...draft, transactionId: crypto.randomUUID() });
+    } else {
+      setLoad({ kind: 'loaded', transaction: res.transaction });
+      reset(fromTransaction(res.transaction));
+    }
+  }
+
+  const editing = mode === 'edit';
+  const showFields = !editing || stored !== null;
+
+  return (
+    <div>
+      <div style={s.modeRow}>
+        <button style={{ ...s.modeBtn, ...(!editing ? s.modeBtnActive : {}) }}
+          onClick={() => switchMode('new')}>
+          New
+        </button>
+        <button style={{ ...s.modeBtn, ...(editing ? s.modeBtnActive : {}) }}
+          onClick={() => switchMode('edit')}
+          title="Load a transaction by ID, change it and send it back as an upsert">
+          ✏️ Edit existing
+        </button>
+      </div>
+
+      {editing && (
+        <div style={s.lookupRow}>
+          <input style={{ ...s.input, flex: 1 }} placeholder="Transaction ID" value={lookupId}
+            onChange={e => setLookupId(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && loadExisting()} />
+          <button style={{ ...s.btn, ...s.btnGray }} onClick={loadExisting}
+            disabled={!lookupId.trim() || load.kind === 'loading'}>
+            {load.kind === 'loading' ? '⏳ Loading…' : '🔍 Load'}
+          </button>
+        </div>
+      )}
+      {load.kind === 'error' && <div style={s.lookupError}>{load.message}</div>}
+      {stored && (
+        <div style={s.stored}>
+          Stored: <strong>{formatMoney(stored.amount, stored.currency)}</strong> · {stored.status}
+          {' · '}{new Date(stored.timestamp).toLocaleString()}
+        </div>
+      )}
+
+      {showFields && (
+        <>
+          <div style={s.formGrid}>
+            <Field label="Transaction ID" error={errorFor('transactionId')}>
+              <input style={{ ...s.input, ...(errorFor('transactionId') ? s.inputError : {}) }}
+                value={draft.transactionId} readOnly={editing}
+                onChange={e => edit('transactionId', { transactionId: e.target.value })} />
+            </Field>
+            <Field label="Amount" error={errorFor('amount')}>
+              <input style={{ ...s.input, ...(errorFor('amount') ? s.inputError : {}) }}
+                inputMode="decimal" value={draft.amount}
+                onChange={e => edit('amount', { amount: e.target.value })} />
+            </Field>
+            <Field label="Currency" error={errorFor('currency')}>
+              <input style={{ ...s.input, ...(errorFor('currency') ? s.inputError : {}) }}
+                list="transaction-form-currencies" maxLength={3} value={draft.currency}
+                onChange={e => edit('currency', { currency: e.target.value.toUpperCase() })} />
+              <datalist id="transaction-form-currencies">
+                {CURRENCY_CODES.map(c => <option key={c} value={c}>{currencyInfo(c).name}</option>)}
+              </datalist>
+            </Field>
+            <Field label="Status" error={errorFor('status')}>
+              <select style={{ ...s.input, ...(errorFor('status') ? s.inputError : {}) }}
+                value={draft.status}
+                onChange={e => edit('status', { status: e.target.value })}>
+                {TRANSACTION_STATUSES.map(st => <option key={st}>{st}</option>)}
+              </select>
+            </Field>
+            <Field label="Timestamp" error={errorFor('timestamp')} wide>
+              <div style={s.timestampRow}>
+                <label style={s.check}>
+                  <input type="checkbox" checked={draft.useNow}
+                    onChange={e => edit('timestamp', { useNow: e.target.checked })} />
+                  Now (at submit)
+                </label>
+                <input style={{ ...s.input, flex: 1, ...(errorFor('timestamp') ? s.inputError : {}) }}
+                  type="datetime-local" step={1} disabled={draft.useNow} value={draft.timestamp}
+                  onChange={e => edit('timestamp', { timestamp: e.target.value })} />
+              </div>
+            </Field>
+          </div>
+
+          <button style={{ ...s.btn, ...s.btnBlue, width: '100%', marginTop: '1rem', opacity: submitting ? 0.6 : 1 }}
+            onClick={submit} disabled={submitting}>
+            {submitting ? '⏳ Sending…' : editing ? '💾 Save changes' : '📤 Submit'}
+          </button>
+        </>
+      )}
+
+      {result?.ok && (
+        <div style={{ ...s.alert, ...s.alertGreen }}>
+          ✅ {result.outcome} ({result.status}) · {result.transaction.transactionId}
+        </div>
+      )}
+      {result && !result.ok && result.queued && (
+        <div style={{ ...s.alert, ...s.alertAmber }}>
+          📮 {result.error} — queued in the outbox and retried automatically
+        </div>
+      )}
+      {result && !result.ok && !result.queued && (
+        <div style={{ ...s.alert, ...s.alertRed }}>
+          ❌ {result.status !== null ? `${result.status} · ` : ''}{result.error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Field({ label, error, wide, children }: {
+  label: string; error?: string; wide?: boolean; children: React.ReactNode;
+}) {
+  return (
+    <label style={{ ...s.label, ...(wide ? { gridColumn: '1 / -1' } : {}) }}>
+      {label}
+      {children}
+      {error && <span style={s.fieldError}>{error}</span>}
+    </label>
+  );
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/** Editing starts from the stored values, stamped now so the upsert isn't stale */
+function fromTransaction(tx: Transaction): Draft {
+  return {
+    transactionId: tx.transactionId,
+    amount:        tx.amount,
+    currency:      tx.currency,
+    status:        tx.status,
+    timestamp:     toLocalInput(new Date().toISOString()),
+    useNow:        true,
+  };
+}
+
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 19);
+}
+
+/** Empty or unparsable picker values go through as typed — validation names them */
+function fromLocalInput(local: string): string {
+  const ms = Date.parse(local);
+  return Number.isNaN(ms) ? local : new Date(ms).toISOString();
+}
+
+const s: Record<string, React.CSSProperties> = {
+  modeRow:      { display: 'flex', gap: '0.5rem', marginBottom: '1rem' },
+  modeBtn:      { padding: '0.45rem 1rem', borderRadius: 20, border: '1px solid rgba(255,255,255,0.12)', background: 'transparent', color: '#94a3b8', cursor: 'pointer', fontSize: '0.85rem', fontWeight: 500 },
+  modeBtnActive:{ background: 'rgba(255,255,255,0.1)', color: '#f1f5f9', borderColor: 'rgba(255,255,255,0.25)' },
+  lookupRow:    { display: 'flex', gap: '0.5rem', marginBottom: '0.75rem' },
+  lookupError:  { color: '#fca5a5', fontSize: '0.85rem', marginBottom: '0.75rem' },
+  stored:       { color: '#94a3b8', fontSize: '0.85rem', marginBottom: '1rem', padding: '0.6rem 0.8rem', background: 'rgba(0,0,0,0.2)', borderRadius: 6 },
+  formGrid:     { display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '1rem' },
+  label:        { display: 'flex', flexDirection: 'column', gap: '0.4rem', color: '#94a3b8', fontSize: '0.85rem', fontWeight: 600 },
+  input:        { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.15)', borderRadius: 6, padding: '0.6rem 0.8rem', color: '#f1f5f9', fontSize: '0.95rem', outline: 'none', colorScheme: 'dark' },
+  inputError:   { borderColor: 'rgba(239,68,68,0.6)' },
+  fieldError:   { color: '#fca5a5', fontSize: '0.75rem', fontWeight: 400 },
+  timestampRow: { display: 'flex', gap: '0.75rem', alignItems: 'center' },
+  check:        { display: 'flex', alignItems: 'center', gap: '0.4rem', color: '#94a3b8', fontWeight: 400, whiteSpace: 'nowrap' },
+  btn:          { padding: '0.75rem 1.5rem', borderRadius: 8, border: 'none', cursor: 'pointer', fontWeight: 600, fontSize: '0.95rem', transition: 'opacity 0.2s' },
+  btnBlue:      { background: 'linear-gradient(135deg,#3b82f6,#2563eb)', color: '#fff' },
+  btnGray:      { background: 'rgba(100,116,139,0.2)', color: '#e2e8f0', border: '1px solid rgba(255,255,255,0.1)' },
+  alert:        { padding: '0.75rem 1rem', borderRadius: 8, marginTop: '1rem', fontWeight: 500 },
+  alertGreen:   { background: 'rgba(16,185,129,0.15)', color: '#6ee7b7', border: '1px solid rgba(16,185,129,0.3)' },
+  alertRed:     { background: 'rgba(239,68,68,0.15)', color: '#fca5a5', border: '1px solid rgba(239,68,68,0.3)' },
+  alertAmber:   { background: 'rgba(245,158,11,0.15)', color: '#fcd34d', border: '1px solid rgba(245,158,11,0.3)' },
+};
@@ -1,10 +1,8 @@
 import { useRef, useEffect, useState } from 'react';
 import { STATUS_CONFIG } from '../types/transaction';
 import type { Transaction } from '../types/transaction';
-
-const CURRENCY_SYMBOLS: Record<string, string> = {
-  USD: '$', EUR: '€', ILS: '₪', GBP: '£', JPY: '¥', BTC: '₿', ETH: 'Ξ',
-};
+import { currencyInfo } from '../types/currency';
+import { formatMoney } from '../services/formatting';
 
 // Inject keyframes once
 const STYLE = `
@@ -19,13 +17,19 @@ if (typeof document !== 'undefined' && !document.getElementById('tx-row-styles')
   document.head.appendChild(el);
 }
 
+/** Column layout — shared with the sortable History header so they line up */
+export const ROW_GRID = '130px 1fr 1fr auto';
+
 interface Props {
   transaction: Transaction;
+  /** Makes the row clickable (opens the detail drawer) */
+  onSelect?: (transactionId: string) => void;
+  /** Slide in on mount — off for rows that mount because they scrolled into view */
+  animateIn?: boolean;
 }
 
-export default function TransactionRow({ transaction: tx }: Props) {
+export default function TransactionRow({ transaction: tx, onSelect, animateIn = true }: Props) {
   const cfg  = STATUS_CONFIG[tx.status];
-  const sym  = CURRENCY_SYMBOLS[tx.currency] ?? '';
   const time = new Date(tx.timestamp).toLocaleTimeString('en', {
     hour: '2-digit', minute: '2-digit', second: '2-digit',
   });
@@ -33,7 +37,7 @@ export default function TransactionRow({ transaction: tx }: Props) {
   // Track previous status to detect changes
   const prevStatusRef = useRef(tx.status);
   const [statusChanged, setStatusChanged] = useState(false);
-  const [isNew] = useState(true); // always true on mount — row was just added
+  const [isNew] = useState(animateIn); // fixed at mount — row was just added
 
   useEffect(() => {
     if (prevStatusRef.current !== tx.status) {
@@ -50,10 +54,22 @@ export default function TransactionRow({ transaction: tx }: Props) {
   const badgeAnimation = statusChanged ? 'statusFlash 0.6s ease-out' : undefined;
 
   return (
-    <div style={{
-      ...s.row,
-      animation: rowHighlight ?? rowAnimation,
-    }}>
+    <div
+      style={{
+        ...s.row,
+        ...(onSelect ? s.clickable : {}),
+        animation: rowHighlight ?? rowAnimation,
+      }}
+      onClick={onSelect && (() => onSelect(tx.transactionId))}
+      role={onSelect ? 'button' : undefined}
+      tabIndex={onSelect ? 0 : undefined}
+      // ARIA button pattern — Enter activates on press, Space on release (and mustn't scroll the page)
+      onKeyDown={onSelect && (e => {
+        if (e.key === 'Enter') onSelect(tx.transactionId);
+        else if (e.key === ' ') e.preventDefault();
+      })}
+      onKeyUp={onSelect && (e => { if (e.key === ' ') onSelect(tx.transactionId); })}
+    >
       <div style={{
         ...s.statusBadge,
         background: cfg.bg,
@@ -65,10 +81,8 @@ export default function TransactionRow({ transaction: tx }: Props) {
       </div>
       <div style={s.txId}>{tx.transactionId.substring(0, 8)}...</div>
       <div style={s.amount}>
-        <span style={s.amountNum}>
-          {sym}{tx.amount.toLocaleString('en', { minimumFractionDigits: 2 })}
-        </span>
-        <span style={s.currency}>{tx.currency}</span>
+        <span style={s.amountNum}>{formatMoney(tx.amount, tx.currency)}</span>
+        <span style={s.currency} title={currencyInfo(tx.currency).name}>{tx.currency}</span>
       </div>
       <div style={s.timestamp}>{time}</div>
     </div>
@@ -76,7 +90,8 @@ export default function TransactionRow({ transaction: tx }: Props) {
 }
 
 const s: Record<string, React.CSSProperties> = {
-  row:         { display: 'grid', gridTemplateColumns: '130px 1fr 1fr auto', alignItems: 'center', gap: '1rem', background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.07)', borderRadius: 8, padding: '0.75rem 1rem' },
+  row:         { display: 'grid', gridTemplateColumns: ROW_GRID, alignItems: 'center', gap: '1rem', background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.07)', borderRadius: 8, padding: '0.75rem 1rem' },
+  clickable:   { cursor: 'pointer' },
   statusBadge: { padding: '0.3rem 0.7rem', borderRadius: 20, fontSize: '0.75rem', fontWeight: 700, letterSpacing: '0.05em', textAlign: 'center' },
   txId:        { color: '#94a3b8', fontFamily: 'monospace', fontSize: '0.85rem' },
   amount:      { display: 'flex', alignItems: 'baseline', gap: '0.4rem' },
@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from 'react';
+import { STATUS_CONFIG, TIME_SERIES_WINDOWS } from '../types/transaction';
+import type { TimeSeriesWindow } from '../types/transaction';
+import type { SeriesBucket, SeriesResolution } from '../store/timeSeriesSlice';
+import type { AmountDisplay, Decimal, FxRates } from '../types/currency';
+import { convert } from '../services/fxRates';
+import { addDecimal, ZERO } from '../services/decimal';
+import { formatMoney } from '../services/formatting';
+
+interface Props {
+  seriesWindow: TimeSeriesWindow;
+  onWindowChange: (window: TimeSeriesWindow) => void;
+  seconds: SeriesBucket[];
+  minutes: SeriesBucket[];
+  /** Volume lines are converted into this currency, so they share one scale */
+  reportingCurrency: string;
+  fxRates: FxRates | null;
+  amountDisplay: AmountDisplay;
+}
+
+/** Which stored resolution each window reads, and how wide one drawn bar is */
+const VIEW: Record<TimeSeriesWindow, { source: SeriesResolution; spanMs: number; binMs: number; tickMs: number }> = {
+  '5m':  { source: 'seconds', spanMs: 5 * 60_000,       binMs: 1_000,       tickMs: 1_000 },
+  '1h':  { source: 'minutes', spanMs: 60 * 60_000,      binMs: 60_000,      tickMs: 10_000 },
+  '24h': { source: 'minutes', spanMs: 24 * 60 * 60_000, binMs: 15 * 60_000, tickMs: 60_000 },
+};
+
+const CURRENCY_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#06b6d4'];
+
+// SVG viewBox — scaled to the container width, so only the ratio matters
+const W = 1000;
+const H = 120;
+
+/**
+ * Trend charts — status transitions per bucket (stacked bars) with the failure
+ * rate overlaid, and volume per currency (lines). Plain SVG, no chart library.
+ */
+export default function TrendsPanel({ seriesWindow, onWindowChange, seconds, minutes, reportingCurrency, fxRates, amountDisplay }: Props) {
+  const view = VIEW[seriesWindow];
+
+  // Slide the window forward even when no events arrive
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), view.tickMs);
+    return () => clearInterval(id);
+  }, [view.tickMs]);
+
+  const source = view.source === 'seconds' ? seconds : minutes;
+  const bins = useMemo(() => rebin(source, now, view.spanMs, view.binMs), [source, now, view]);
+
+  const totals = useMemo(() => bins.reduce(
+    (acc, b) => ({ completed: acc.completed + b.completed, failed: acc.failed + b.failed, pending: acc.pending + b.pending }),
+    { completed: 0, failed: 0, pending: 0 },
+  ), [bins]);
+  const settled = totals.completed + totals.failed;
+  const failureRate = settled > 0 ? totals.failed / settled : 0;
+
+  return (
+    <div style={s.panel}>
+      <div style={s.header}>
+        <div style={s.summary}>
+          <span>{(totals.completed + totals.failed + totals.pending).toLocaleString()} transitions</span>
+          <span style={{ color: STATUS_CONFIG.Failed.color }}>{(failureRate * 100).toFixed(1)}% failed</span>
+        </div>
+        <div style={{ display: 'flex', gap: '0.35rem' }}>
+          {TIME_SERIES_WINDOWS.map(w => (
+            <button key={w} style={{ ...s.windowBtn, ...(w === seriesWindow ? s.windowBtnActive : {}) }}
+              onClick={() => onWindowChange(w)}>
+              {w}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={s.chartLabel}>Throughput by status · failure rate</div>
+      <StatusChart bins={bins} />
+
+      <div style={s.chartLabel}>Volume by currency · in {reportingCurrency}</div>
+      <VolumeChart bins={bins} reportingCurrency={reportingCurrency} fxRates={fxRates} display={amountDisplay} />
+
+      <div style={s.axis}>
+        <span>-{seriesWindow}</span>
+        <span>now</span>
+      </div>
+    </div>
+  );
+}
+
+// ─── Charts ───────────────────────────────────────────────────────────────
+
+function StatusChart({ bins }: { bins: SeriesBucket[] }) {
+  const max = Math.max(1, ...bins.map(b => b.pending + b.completed + b.failed));
+  const barW = W / bins.length;
+
+  const ratePoints = bins
+    .map((b, i) => {
+      const settled = b.completed + b.failed;
+      if (settled === 0) return null;
+      return `${(i + 0.5) * barW},${H - (b.failed / settled) * H}`;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" style={s.svg}>
+      {bins.map((b, i) => {
+        let y = H;
+        return (['completed', 'pending', 'failed'] as const).map(key => {
+          const h = (b[key] / max) * H;
+          y -= h;
+          return h > 0 && (
+            <rect key={`${i}-${key}`} x={i * barW} y={y} width={Math.max(barW - 0.5, 0.5)} height={h}
+              fill={STATUS_CONFIG[KEY_STATUS[key]].color} opacity={0.75} />
+          );
+        });
+      })}
+      {ratePoints && (
+        <polyline points={ratePoints} fill="none" stroke="#fca5a5" strokeWidth={1.5}
+          strokeDasharray="4 2" vectorEffect="non-scaling-stroke" />
+      )}
+    </svg>
+  );
+}
+
+function VolumeChart({ bins, reportingCurrency, fxRates, display }: {
+  bins: SeriesBucket[];
+  reportingCurrency: string;
+  fxRates: FxRates | null;
+  display: AmountDisplay;
+}) {
+  // Window totals per currency, as stored and converted — a currency without a rate is left off the chart
+  const totals = useMemo(() => {
+    const stored: Record<string, Decimal> = {};
+    for (const b of bins) {
+      for (const [cur, amt] of Object.entries(b.volumeByCurrency)) stored[cur] = addDecimal(stored[cur] ?? ZERO, amt);
+    }
+    return Object.entries(stored).map(([currency, amount]) => ({
+      currency, amount, converted: convert(amount, currency, reportingCurrency, fxRates),
+    }));
+  }, [bins, reportingCurrency, fxRates]);
+
+  const currencies = useMemo(
+    () => totals
+      .filter(t => t.converted !== null)
+      .sort((a, b) => b.converted! - a.converted!)
+      .slice(0, CURRENCY_COLORS.length),
+    [totals],
+  );
+  const unconverted = totals.filter(t => t.converted === null).map(t => t.currency);
+
+  const value = (b: SeriesBucket, cur: string) =>
+    convert(b.volumeByCurrency[cur] ?? ZERO, cur, reportingCurrency, fxRates) ?? 0;
+
+  const max = Math.max(1, ...bins.flatMap(b => currencies.map(c => value(b, c.currency))));
+  const step = W / bins.length;
+
+  return (
+    <>
+      <svg viewBox={`0 0 ${W} ${H}`} preserveAspectRatio="none" style={s.svg}>
+        {currencies.map((c, ci) => (
+          <polyline key={c.currency} fill="none" stroke={CURRENCY_COLORS[ci]} strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            points={bins.map((b, i) => `${(i + 0.5) * step},${H - (value(b, c.currency) / max) * H}`).join(' ')} />
+        ))}
+      </svg>
+      <div style={s.legend}>
+        {currencies.map((c, ci) => (
+          <span key={c.currency} style={{ color: CURRENCY_COLORS[ci] }}
+            title={`${formatMoney(c.amount, c.currency)} ${c.currency}`}>
+            ■ {c.currency} {formatMoney(c.converted!, reportingCurrency, { display })}
+          </span>
+        ))}
+        {unconverted.length > 0 && (
+          <span style={{ color: '#64748b' }} title="No FX rate — not charted">
+            + {unconverted.join(', ')}
+          </span>
+        )}
+      </div>
+    </>
+  );
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+const KEY_STATUS = { completed: 'Completed', pending: 'Pending', failed: 'Failed' } as const;
+
+/** Dense bins of `binMs` covering [now - spanMs, now] — empty buckets included so gaps show. */
+function rebin(buckets: SeriesBucket[], now: number, spanMs: number, binMs: number): SeriesBucket[] {
+  const end   = now - (now % binMs) + binMs;
+  const start = end - spanMs;
+  const count = Math.round(spanMs / binMs);
+  const bins: SeriesBucket[] = Array.from({ length: count }, (_, i) => ({
+    start: start + i * binMs, pending: 0, completed: 0, failed: 0, volumeByCurrency: {},
+  }));
+
+  for (const b of buckets) {
+    if (b.start < start || b.start >= end) continue;
+    const bin = bins[Math.floor((b.start - start) / binMs)];
+    bin.pending   += b.pending;
+    bin.completed += b.completed;
+    bin.failed    += b.failed;
+    for (const [cur, amt] of Object.entries(b.volumeByCurrency)) {
+      bin.volumeByCurrency[cur] = addDecimal(bin.volumeByCurrency[cur] ?? ZERO, amt);
+    }
+  }
+  return bins;
+}
+
+const s: Record<string, React.CSSProperties> = {
+  panel:           { background: 'rgba(255,255,255,0.04)', border: '1px solid rgba(255,255,255,0.08)', borderRadius: 10, padding: '0.75rem 1rem', marginBottom: '1rem' },
+  header:          { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' },
+  summary:         { display: 'flex', gap: '1rem', color: '#94a3b8', fontSize: '0.8rem' },
+  windowBtn:       { padding: '0.25rem 0.7rem', borderRadius: 20, border: '1px solid rgba(255,255,255,0.12)', background: 'transparent', color: '#94a3b8', cursor: 'pointer', fontSize: '0.75rem' },
+  windowBtnActive: { background: 'rgba(255,255,255,0.1)', color: '#f1f5f9', borderColor: 'rgba(255,255,255,0.25)' },
+  chartLabel:      { color: '#64748b', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em', margin: '0.5rem 0 0.25rem' },
+  svg:             { display: 'block', width: '100%', height: 90, background: 'rgba(0,0,0,0.15)', borderRadius: 6 },
+  legend:          { display: 'flex', gap: '0.75rem', fontSize: '0.75rem', marginTop: '0.25rem' },
+  axis:            { display: 'flex', justifyContent: 'space-between', color: '#475569', fontSize: '0.7rem', marginTop: '0.25rem', fontFamily: 'monospace' },
+};
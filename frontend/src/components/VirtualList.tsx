@@ -0,0 +1,71 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface Props<T> {
+  items: T[];
+  /** Fixed slot height in px (row + gap) — windowing math depends on it */
+  itemHeight: number;
+  /** Max viewport height in px; shrinks to fit when there are few items */
+  height: number;
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  /** Extra rows rendered above/below the viewport to hide scroll gaps */
+  overscan?: number;
+  /** Called when the viewport gets within `endThreshold` px of the bottom */
+  onEndReached?: () => void;
+  endThreshold?: number;
+}
+
+/**
+ * Windowed list — only the rows in (or near) the viewport are mounted.
+ * Lets the Monitor keep thousands of rows without thousands of
+ * TransactionRow effects and animations running at once.
+ *
+ * Dependency-free on purpose: fixed row height keeps the math trivial.
+ */
+export default function VirtualList<T>({
+  items, itemHeight, height, getKey, renderItem,
+  overscan = 8, onEndReached, endThreshold = itemHeight * 10,
+}: Props<T>) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  const totalHeight    = items.length * itemHeight;
+  const viewportHeight = Math.min(height, totalHeight);
+  const start = Math.max(0, Math.floor(scrollTop / itemHeight) - overscan);
+  const end   = Math.min(items.length, Math.ceil((scrollTop + viewportHeight) / itemHeight) + overscan);
+
+  // Fires on scroll and when the list is still too short to scroll
+  useEffect(() => {
+    if (onEndReached && scrollTop + height >= totalHeight - endThreshold) onEndReached();
+  }, [onEndReached, scrollTop, height, totalHeight, endThreshold]);
+
+  // List got shorter (filter / clear) — don't leave the viewport past the end
+  useEffect(() => {
+    const el = ref.current;
+    if (el && el.scrollTop > totalHeight) el.scrollTop = 0;
+  }, [totalHeight]);
+
+  const visible: React.ReactNode[] = [];
+  for (let i = start; i < end; i++) {
+    const item = items[i];
+    visible.push(
+      <div key={getKey(item)} style={{ ...s.slot, top: i * itemHeight, height: itemHeight }}>
+        {renderItem(item, i)}
+      </div>,
+    );
+  }
+
+  return (
+    <div ref={ref} style={{ ...s.viewport, height: viewportHeight }}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}>
+      <div style={{ position: 'relative', height: totalHeight }}>
+        {visible}
+      </div>
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  viewport: { overflowY: 'auto', overflowAnchor: 'none' },
+  slot:     { position: 'absolute', left: 0, right: 0, paddingBottom: '0.4rem' },
+};
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TransactionHubService } from '../services/TransactionHubService';
+import { submitImport, type ImportProgress, type ImportReport } from '../services/transactionImport';
+import type { Transaction } from '../types/transaction';
+
+interface BulkImport {
+  isRunning: boolean;
+  progress:  ImportProgress | null;
+  report:    ImportReport | null;
+  start:     (rows: { row: number; transaction: Transaction }[], concurrency: number) => void;
+  cancel:    () => void;
+  reset:     () => void;
+}
+
+/**
+ * Submits validated import rows through TransactionHubService.sendTransaction,
+ * a bounded number at a time. Cancelling lets in-flight requests finish;
+ * unmounting cancels.
+ */
+export function useBulkImport(hubService: TransactionHubService): BulkImport {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress,  setProgress]  = useState<ImportProgress | null>(null);
+  const [report,    setReport]    = useState<ImportReport | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback((rows: { row: number; transaction: Transaction }[], concurrency: number) => {
+    if (controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setReport(null);
+    setProgress({ done: 0, total: rows.length });
+
+    submitImport(rows, tx => hubService.sendTransaction(tx), {
+      concurrency,
+      signal:     controller.signal,
+      onProgress: setProgress,
+    })
+      .then(setReport)
+      .finally(() => {
+        controllerRef.current = null;
+        setIsRunning(false);
+      });
+  }, [hubService]);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    setReport(null);
+    setProgress(null);
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { isRunning, progress, report, start, cancel, reset };
+}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TransactionHubService } from '../services/TransactionHubService';
+import { exportFileName, openExportSink, streamExport, type ExportProgress } from '../services/exportDownload';
+import type { ExportFormat, TransactionFilters, TransactionSort } from '../types/transaction';
+
+export type ExportStatus = 'idle' | 'running' | 'done' | 'cancelled' | 'error';
+
+interface Export {
+  status:   ExportStatus;
+  format:   ExportFormat | null;
+  progress: ExportProgress | null;
+  error:    string | null;
+  start:    (format: ExportFormat) => void;
+  cancel:   () => void;
+}
+
+/**
+ * Export of the full result set for `filters` + `sort` via GET /api/transactions/export,
+ * streamed to a file chunk by chunk. One export at a time; unmounting cancels it.
+ */
+export function useExport(
+  hubService: TransactionHubService,
+  filters: TransactionFilters,
+  sort: TransactionSort,
+): Export {
+  const [status,   setStatus]   = useState<ExportStatus>('idle');
+  const [format,   setFormat]   = useState<ExportFormat | null>(null);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const [error,    setError]    = useState<string | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback((fmt: ExportFormat) => {
+    if (controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setFormat(fmt);
+    setStatus('running');
+    setProgress(null);
+    setError(null);
+
+    // The save dialog has to open first, while the click still counts as a user gesture
+    openExportSink(fmt, exportFileName(fmt))
+      .then(async sink => {
+        if (!sink) throw new DOMException('Save dialog dismissed', 'AbortError');
+        try {
+          const response = await hubService.openExport(fmt, filters, sort, controller.signal);
+          setProgress({ rows: 0, total: response.total, bytes: 0 });
+          await streamExport(response, fmt, sink, setProgress, controller.signal);
+        } catch (err) {
+          await sink.abort().catch(() => undefined);
+          throw err;
+        }
+        setStatus('done');
+      })
+      .catch(err => {
+        if (err instanceof DOMException && err.name === 'AbortError') {
+          setStatus('cancelled');
+          return;
+        }
+        console.error('Export failed:', err);
+        setError(err instanceof Error ? err.message : String(err));
+        setStatus('error');
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) controllerRef.current = null;
+      });
+  }, [hubService, filters, sort]);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { status, format, progress, error, start, cancel };
+}
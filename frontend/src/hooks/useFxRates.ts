@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { useDispatch } from 'react-redux';
+import { FxRatesProvider } from '../services/fxRates';
+import { setFxRates, setFxRatesError } from '../store/fxSlice';
+import type { AppDispatch } from '../store';
+
+/** Reload interval — picks up a refreshed rates file / endpoint without a page reload */
+const FX_REFRESH_MS = 10 * 60_000;
+
+const provider = new FxRatesProvider();
+
+/**
+ * Loads the FX rates table into the store while mounted, and keeps it fresh.
+ * A failed load keeps the previous table; totals fall back to as-stored amounts
+ * only when there has never been one.
+ */
+export function useFxRates(): void {
+  const dispatch = useDispatch<AppDispatch>();
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => provider.load()
+      .then(rates => { if (!cancelled) dispatch(setFxRates(rates)); })
+      .catch(err => {
+        console.error('Failed to load FX rates:', err);
+        if (!cancelled) dispatch(setFxRatesError(err instanceof Error ? err.message : String(err)));
+      });
+
+    load();
+    const id = setInterval(load, FX_REFRESH_MS);
+    return () => { cancelled = true; clearInterval(id); };
+  }, [dispatch]);
+}
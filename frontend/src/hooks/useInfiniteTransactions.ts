@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TransactionHubService } from '../services/TransactionHubService';
+import type { Transaction, TransactionFilters } from '../types/transaction';
+
+interface InfiniteTransactions {
+  items:     Transaction[];
+  hasMore:   boolean;
+  isLoading: boolean;
+  error:     string | null;
+  loadMore:  () => void;
+}
+
+/**
+ * Cursor-based infinite list over GET /api/transactions/cursor.
+ *
+ * Keyset paging means rows never shift while live inserts arrive, so
+ * appending page after page can't skip or repeat — IDs are still de-duplicated
+ * defensively. Resets whenever the filters change.
+ */
+export function useInfiniteTransactions(
+  hubService: TransactionHubService,
+  filters: TransactionFilters,
+  enabled: boolean,
+  pageSize = 50,
+): InfiniteTransactions {
+  const [items,     setItems]     = useState<Transaction[]>([]);
+  const [hasMore,   setHasMore]   = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error,     setError]     = useState<string | null>(null);
+
+  // Refs so loadMore stays stable and never runs two requests at once
+  const cursorRef   = useRef<string | null>(null);
+  const inFlightRef = useRef(false);
+  const genRef      = useRef(0);
+
+  const filtersKey = JSON.stringify(filters);
+
+  const loadMore = useCallback(() => {
+    if (!enabled || inFlightRef.current) return;
+    const gen = genRef.current;
+    inFlightRef.current = true;
+    setIsLoading(true);
+    setError(null);
+
+    hubService.fetchCursorPage(cursorRef.current, pageSize, filters)
+      .then(page => {
+        if (gen !== genRef.current) return; // filters changed mid-flight
+        cursorRef.current = page.nextCursor;
+        setHasMore(page.hasMore);
+        setItems(prev => {
+          const seen = new Set(prev.map(t => t.transactionId));
+          return [...prev, ...page.items.filter(t => !seen.has(t.transactionId))];
+        });
+      })
+      .catch(err => {
+        if (gen !== genRef.current) return;
+        console.error('Failed to load next page:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (gen !== genRef.current) return;
+        inFlightRef.current = false;
+        setIsLoading(false);
+      });
+  }, [hubService, filtersKey, enabled, pageSize]);
+
+  // New filters (or re-enabled) → start over from the newest row
+  useEffect(() => {
+    genRef.current += 1;
+    cursorRef.current   = null;
+    inFlightRef.current = false;
+    setItems([]);
+    setHasMore(true);
+    setIsLoading(false);
+    if (enabled) loadMore();
+  }, [loadMore, enabled]);
+
+  return { items, hasMore, isLoading, error, loadMore };
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { TransactionHubService } from '../services/TransactionHubService';
+import {
+  runLoadTest,
+  type LoadScenario,
+  type LoadTestProgress,
+  type LoadTestReport,
+} from '../services/loadTest';
+
+/** Runs kept for side-by-side comparison — newest first */
+const MAX_RUNS = 10;
+
+interface LoadTest {
+  isRunning: boolean;
+  progress:  LoadTestProgress | null;
+  runs:      LoadTestReport[];
+  start:     (scenario: LoadScenario) => void;
+  cancel:    () => void;
+  clearRuns: () => void;
+}
+
+/**
+ * Runs load-test scenarios through TransactionHubService and keeps the last
+ * MAX_RUNS reports. Cancelling lets in-flight requests finish; unmounting cancels.
+ */
+export function useLoadTest(hubService: TransactionHubService): LoadTest {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress,  setProgress]  = useState<LoadTestProgress | null>(null);
+  const [runs,      setRuns]      = useState<LoadTestReport[]>([]);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const start = useCallback((scenario: LoadScenario) => {
+    if (controllerRef.current) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setProgress({ sent: 0, total: scenario.total, succeeded: 0, failed: 0 });
+
+    runLoadTest(scenario, hubService, { signal: controller.signal, onProgress: setProgress })
+      .then(report => setRuns(r => [report, ...r].slice(0, MAX_RUNS)))
+      .finally(() => {
+        controllerRef.current = null;
+        setIsRunning(false);
+        setProgress(null);
+      });
+  }, [hubService]);
+
+  const cancel    = useCallback(() => controllerRef.current?.abort(), []);
+  const clearRuns = useCallback(() => setRuns([]), []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { isRunning, progress, runs, start, cancel, clearRuns };
+}
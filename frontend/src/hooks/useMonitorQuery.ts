@@ -0,0 +1,113 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DEFAULT_SORT, SORT_FIELDS, TRANSACTION_STATUSES } from '../types/transaction';
+import { parseDecimal } from '../services/decimal';
+import type {
+  SortField,
+  TransactionFilters,
+  TransactionSort,
+  TransactionStatus,
+} from '../types/transaction';
+
+export type ViewMode   = 'live' | 'history';
+export type PagingMode = 'pages' | 'scroll';
+
+/** Monitor state that lives in the URL — shareable and bookmarkable. */
+export interface MonitorQuery {
+  view:    ViewMode;
+  paging:  PagingMode;
+  page:    number;
+  filters: TransactionFilters;
+  sort:    TransactionSort;
+}
+
+/**
+ * Reads / writes the Monitor's view, history page, filters and sort
+ * from the query string (e.g. `?view=history&page=3&status=Failed&sortBy=amount&sortDir=desc`).
+ *
+ * Defaults are omitted from the URL so a plain /monitor stays clean.
+ * Invalid values are ignored rather than sent to the server.
+ */
+export function useMonitorQuery(): [MonitorQuery, (patch: Partial<MonitorQuery>) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const query = useMemo(() => parseQuery(searchParams), [searchParams]);
+
+  const update = useCallback((patch: Partial<MonitorQuery>) => {
+    setSearchParams(prev => serializeQuery({ ...parseQuery(prev), ...patch }));
+  }, [setSearchParams]);
+
+  return [query, update];
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────
+
+function parseQuery(params: URLSearchParams): MonitorQuery {
+  const page = Number(params.get('page'));
+  return {
+    view:    params.get('view') === 'history' ? 'history' : 'live',
+    paging:  params.get('paging') === 'scroll' ? 'scroll' : 'pages',
+    page:    Number.isInteger(page) && page > 0 ? page : 1,
+    filters: parseFilters(params),
+    sort:    parseSort(params),
+  };
+}
+
+function parseSort(params: URLSearchParams): TransactionSort {
+  const sortBy  = params.get('sortBy');
+  const sortDir = params.get('sortDir');
+  return {
+    sortBy:  SORT_FIELDS.includes(sortBy as SortField) ? sortBy as SortField : DEFAULT_SORT.sortBy,
+    sortDir: sortDir === 'asc' || sortDir === 'desc' ? sortDir : DEFAULT_SORT.sortDir,
+  };
+}
+
+function parseFilters(params: URLSearchParams): TransactionFilters {
+  const filters: TransactionFilters = {};
+
+  const status = params.get('status');
+  if (status && TRANSACTION_STATUSES.includes(status as TransactionStatus)) {
+    filters.status = status as TransactionStatus;
+  }
+
+  const idPrefix = params.get('idPrefix')?.trim();
+  if (idPrefix) filters.idPrefix = idPrefix;
+
+  const currency = params.get('currency')?.trim();
+  if (currency) filters.currency = currency.toUpperCase();
+
+  const minAmount = parseDecimal(params.get('minAmount') ?? '');
+  if (minAmount !== null) filters.minAmount = minAmount;
+
+  const maxAmount = parseDecimal(params.get('maxAmount') ?? '');
+  if (maxAmount !== null) filters.maxAmount = maxAmount;
+
+  const from = parseDate(params.get('from'));
+  if (from) filters.from = from;
+
+  const to = parseDate(params.get('to'));
+  if (to) filters.to = to;
+
+  return filters;
+}
+
+function parseDate(value: string | null): string | undefined {
+  return value && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+// ─── Serializing ──────────────────────────────────────────────────────────
+
+function serializeQuery(query: MonitorQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.view !== 'live')    params.set('view', query.view);
+  if (query.paging !== 'pages') params.set('paging', query.paging);
+  if (query.page > 1)        params.set('page', String(query.page));
+  for (const [key, value] of Object.entries(query.filters)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  if (query.sort.sortBy !== DEFAULT_SORT.sortBy || query.sort.sortDir !== DEFAULT_SORT.sortDir) {
+    params.set('sortBy',  query.sort.sortBy);
+    params.set('sortDir', query.sort.sortDir);
+  }
+  return params;
+}
@@ -1,7 +1,7 @@
 import { useEffect, useRef } from 'react';
-import { useDispatch } from 'react-redux';
+import { useDispatch, useStore } from 'react-redux';
 import { TransactionHubService } from '../services/TransactionHubService';
-import type { AppDispatch } from '../store';
+import type { AppDispatch, RootState } from '../store';
 
 /**
  * Initializes and manages the TransactionHubService lifecycle.
@@ -11,6 +11,7 @@ import type { AppDispatch } from '../store';
  */
 export function useTransactionHub(): TransactionHubService {
   const dispatch = useDispatch<AppDispatch>();
+  const store = useStore<RootState>();
   const serviceRef = useRef<TransactionHubService | null>(null);
 
   if (!serviceRef.current) {
@@ -18,7 +19,7 @@ export function useTransactionHub(): TransactionHubService {
   }
 
   useEffect(() => {
-    serviceRef.current!.start();
+    serviceRef.current!.start(store.getState);
     return () => { serviceRef.current!.stop(); };
   }, []);
 
@@ -1,65 +1,177 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
+import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { useTransactionHub } from '../hooks/useTransactionHub';
+import { useMonitorQuery } from '../hooks/useMonitorQuery';
+import { useInfiniteTransactions } from '../hooks/useInfiniteTransactions';
+import { useFxRates } from '../hooks/useFxRates';
+import { useExport } from '../hooks/useExport';
 import {
   selectRecentTransactions,
+  selectArrivedIds,
   selectDbStats,
+  selectStatsWindow,
   selectConnectionState,
   selectFilteredRecent,
+  selectRecentLimit,
+  selectFeedPaused,
+  selectPausedCount,
   clearRecent,
+  pauseFeed,
+  resumeFeed,
+  RECENT_LIMIT_OPTIONS,
 } from '../store/transactionSlice';
 import type { RootState } from '../store/transactionSlice';
-import { STATUS_CONFIG, TRANSACTION_STATUSES } from '../types/transaction';
-import type { TransactionStatus } from '../types/transaction';
+import {
+  selectAlertRules,
+  selectAlerts,
+  selectUnacknowledgedCount,
+  acknowledgeAlert,
+  acknowledgeAll,
+  clearAlerts,
+  addRule,
+  updateRule,
+  removeRule,
+} from '../store/alertSlice';
+import { selectSeries, selectSeriesWindow, setSeriesWindow } from '../store/timeSeriesSlice';
+import type { RootState as SeriesRootState } from '../store/timeSeriesSlice';
+import {
+  selectLastQuery,
+  selectLiveFilter,
+  selectSearchText,
+  setLastQuery,
+  setLiveFilter,
+  setSearchText,
+} from '../store/monitorSlice';
+import {
+  selectAmountDisplay,
+  selectFxError,
+  selectFxRates,
+  selectReportingCurrency,
+  setAmountDisplay,
+  setReportingCurrency,
+} from '../store/fxSlice';
+import { DEFAULT_SORT, STATUS_CONFIG, TRANSACTION_STATUSES } from '../types/transaction';
+import type { PagedTransactions, Transaction, TransactionStatus } from '../types/transaction';
 import ConnectionBadge from '../components/ConnectionBadge';
 import TransactionRow from '../components/TransactionRow';
 import StatsBar from '../components/StatsBar';
 import Pagination from '../components/Pagination';
-import type { PagedTransactions } from '../services/TransactionHubService';
+import HistoryFilterBar from '../components/HistoryFilterBar';
+import SortableHeader from '../components/SortableHeader';
+import VirtualList from '../components/VirtualList';
+import AlertPanel from '../components/AlertPanel';
+import TrendsPanel from '../components/TrendsPanel';
+import ExportPanel from '../components/ExportPanel';
+import type { MonitorOutletContext } from './TransactionDetail';
 
 
 type FilterOption = 'All' | TransactionStatus;
-type ViewMode     = 'live' | 'history';
 const FILTERS: FilterOption[] = ['All', ...TRANSACTION_STATUSES];
 const PAGE_SIZE = 50;
 
+// Windowed rendering — row slot height (row + gap) and list viewport height
+const ROW_HEIGHT  = 56;
+const LIST_HEIGHT = 640;
+const txKey = (tx: Transaction) => tx.transactionId;
+
 export default function Monitor() {
   const dispatch        = useDispatch();
   const hubService      = useTransactionHub();
   const recentAll       = useSelector(selectRecentTransactions);
+  const arrivedIds      = useSelector(selectArrivedIds);
   const dbStats         = useSelector(selectDbStats);
+  const statsWindow     = useSelector(selectStatsWindow);
   const connectionState = useSelector(selectConnectionState);
+  const recentLimit     = useSelector(selectRecentLimit);
+  const feedPaused      = useSelector(selectFeedPaused);
+  const pausedCount     = useSelector(selectPausedCount);
+  const alerts          = useSelector(selectAlerts);
+  const alertRules      = useSelector(selectAlertRules);
+  const unreadAlerts    = useSelector(selectUnacknowledgedCount);
+  const seriesWindow    = useSelector(selectSeriesWindow);
+  const seriesSeconds   = useSelector((state: SeriesRootState) => selectSeries(state, 'seconds'));
+  const seriesMinutes   = useSelector((state: SeriesRootState) => selectSeries(state, 'minutes'));
+  const reportingCurrency = useSelector(selectReportingCurrency);
+  const fxRates         = useSelector(selectFxRates);
+  const fxError         = useSelector(selectFxError);
+  const amountDisplay   = useSelector(selectAmountDisplay);
+  const navigate        = useNavigate();
+  const location        = useLocation();
+  useFxRates();
+
+  // DB-wide count only when the stats aren't windowed
+  const dbTotal = statsWindow === 'all' ? dbStats.total : null;
 
-  // Live feed filters
-  const [liveFilter, setLiveFilter] = useState<FilterOption>('All');
-  const [searchText, setSearchText] = useState('');
+  // Live feed filters — in Redux so they survive a reload
+  const liveFilter = useSelector(selectLiveFilter);
+  const searchText = useSelector(selectSearchText);
+  const lastQuery  = useSelector(selectLastQuery);
+  const [showAlerts, setShowAlerts] = useState(false);
 
   const filteredRecent = useSelector((state: RootState) =>
     selectFilteredRecent(state, liveFilter, searchText));
 
-  // History / pagination state (local — not in Redux, it's transient UI state)
-  const [viewMode,       setViewMode]       = useState<ViewMode>('live');
-  const [historyFilter,  setHistoryFilter]  = useState<FilterOption>('All');
+  // History view, page, filters and sort live in the URL — shareable / bookmarkable
+  const [query, setQuery] = useMonitorQuery();
+  const viewMode      = query.view;
+  const historyFilter: FilterOption = query.filters.status ?? 'All';
+
+  // A link or bookmark with a query wins; a plain /monitor reopens the last view, filters and sort.
+  // The restore happens once per mount (the ref) — after that the URL is only recorded; re-running
+  // on lastQuery is harmless, it's the value just dispatched.
+  const restoredQuery = useRef(false);
+  useEffect(() => {
+    const search = location.search.replace(/^\?/, '');
+    if (!restoredQuery.current) {
+      restoredQuery.current = true;
+      if (!search && lastQuery) {
+        navigate({ pathname: location.pathname, search: `?${lastQuery}` }, { replace: true });
+        return;
+      }
+    }
+    dispatch(setLastQuery(search));
+  }, [location.search, location.pathname, lastQuery, navigate, dispatch]);
+
+  // The fetched page itself is transient UI state — local, not in Redux
   const [currentPage,    setCurrentPage]    = useState<PagedTransactions | null>(null);
-  const [historyPage,    setHistoryPage]    = useState(1);
   const [isLoading,      setIsLoading]      = useState(false);
+  const [loadError,      setLoadError]      = useState<string | null>(null);
 
-  const loadPage = useCallback(async (page: number, filter: FilterOption) => {
+  const isScrollMode = query.paging === 'scroll';
+  const historyKey = JSON.stringify([query.page, query.filters, query.sort]);
+  useEffect(() => {
+    if (viewMode !== 'history' || isScrollMode) return;
+    let cancelled = false;
     setIsLoading(true);
-    try {
-      const status = filter === 'All' ? undefined : filter as TransactionStatus;
-      const result = await hubService.fetchPage(page, PAGE_SIZE, status);
-      setCurrentPage(result);
-      setHistoryPage(page);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [hubService]);
+    setLoadError(null);
+    hubService.fetchPage(query.page, PAGE_SIZE, query.filters, query.sort)
+      .then(result => { if (!cancelled) setCurrentPage(result); })
+      .catch(err => {
+        console.error('Failed to load history page:', err);
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [viewMode, isScrollMode, historyKey, hubService]);
 
-  const switchToHistory = async () => {
-    setViewMode('history');
-    await loadPage(1, historyFilter);
-  };
+  // Trend charts — backfill each window from the server, live events keep it moving
+  useEffect(() => {
+    hubService.loadTimeSeries(seriesWindow);
+  }, [seriesWindow, hubService]);
+
+  // Infinite-scroll mode — keyset cursor, stable while live inserts stream in
+  const infinite = useInfiniteTransactions(
+    hubService, query.filters, viewMode === 'history' && isScrollMode, PAGE_SIZE);
+
+  // Export — the full filtered result set in the order on screen, streamed to a file
+  const exporter = useExport(hubService, query.filters, isScrollMode ? DEFAULT_SORT : query.sort);
+
+  const openTransaction = useCallback((id: string) =>
+    navigate({ pathname: `/monitor/tx/${encodeURIComponent(id)}`, search: location.search }),
+  [navigate, location.search]);
+
+  const switchToHistory = () => setQuery({ view: 'history', page: 1 });
 
   return (
     <>
@@ -71,27 +183,67 @@ export default function Monitor() {
             <h1 style={s.title}>Live Monitor</h1>
             <p style={s.subtitle}>Real-time transaction feed</p>
           </div>
-          <ConnectionBadge state={connectionState} />
+          <div style={s.headerActions}>
+            <button style={{ ...s.alertBtn, ...(unreadAlerts > 0 ? s.alertBtnUnread : {}) }}
+              onClick={() => setShowAlerts(v => !v)}
+              title="Alert rules and triggered alerts">
+              🔔 {unreadAlerts > 0 ? unreadAlerts : ''}
+            </button>
+            <ConnectionBadge state={connectionState} />
+          </div>
         </div>
 
+        {showAlerts && (
+          <AlertPanel
+            alerts={alerts}
+            rules={alertRules}
+            onAcknowledge={id => dispatch(acknowledgeAlert(id))}
+            onAcknowledgeAll={() => dispatch(acknowledgeAll())}
+            onClear={() => dispatch(clearAlerts())}
+            onSelectTransaction={openTransaction}
+            onAddRule={rule => dispatch(addRule(rule))}
+            onUpdateRule={rule => dispatch(updateRule(rule))}
+            onRemoveRule={id => dispatch(removeRule(id))}
+          />
+        )}
+
         {/* Stats */}
         <div style={s.sectionLabel}>📊 Database</div>
         <StatsBar
           stats={dbStats}
+          statsWindow={statsWindow}
+          onWindowChange={w => hubService.setStatsWindow(w)}
+          reportingCurrency={reportingCurrency}
+          fxRates={fxRates}
+          fxError={fxError}
+          onReportingCurrencyChange={c => dispatch(setReportingCurrency(c))}
+          amountDisplay={amountDisplay}
+          onAmountDisplayChange={d => dispatch(setAmountDisplay(d))}
           onRefresh={() => hubService.refreshStats()}
         />
 
+        <div style={s.sectionLabel}>📈 Trends</div>
+        <TrendsPanel
+          seriesWindow={seriesWindow}
+          onWindowChange={w => dispatch(setSeriesWindow(w))}
+          seconds={seriesSeconds}
+          minutes={seriesMinutes}
+          reportingCurrency={reportingCurrency}
+          fxRates={fxRates}
+          amountDisplay={amountDisplay}
+        />
+
         {/* View Mode Tabs */}
         <div style={s.tabs}>
           <button style={{ ...s.tab, ...(viewMode === 'live' ? s.tabActive : {}) }}
-            onClick={() => setViewMode('live')}>
+            onClick={() => setQuery({ view: 'live' })}>
             ⚡ Live Feed
             <span style={s.tabBadge}>{recentAll.length}</span>
           </button>
           <button style={{ ...s.tab, ...(viewMode === 'history' ? s.tabActive : {}) }}
             onClick={switchToHistory}>
             📋 Full History
-            <span style={s.tabBadge}>{dbStats.total.toLocaleString()}</span>
+            {dbTotal !== null && <span style={s.tabBadge}>{dbTotal.toLocaleString()}</span>}
           </button>
         </div>
 
@@ -102,10 +254,10 @@ export default function Monitor() {
               <input style={s.searchInput}
                 placeholder="🔍  Search by ID or currency..."
                 value={searchText}
-                onChange={e => setSearchText(e.target.value)} />
+                onChange={e => dispatch(setSearchText(e.target.value))} />
               <div style={s.filterGroup}>
                 {FILTERS.map(f => (
-                  <button key={f} onClick={() => setLiveFilter(f)}
+                  <button key={f} onClick={() => dispatch(setLiveFilter(f))}
                     style={{
                       ...s.filterBtn,
                       ...(liveFilter === f ? s.filterBtnActive : {}),
@@ -115,16 +267,32 @@ export default function Monitor() {
                   </button>
                 ))}
               </div>
+              <button style={{ ...s.filterBtn, ...(feedPaused ? s.filterBtnActive : {}) }}
+                onClick={() => dispatch(feedPaused ? resumeFeed() : pauseFeed())}
+                title="Freeze the feed while you inspect — new events are queued, not lost">
+                {feedPaused ? '▶ Resume' : '⏸ Pause'}
+              </button>
+              <select style={s.bufferSelect} value={recentLimit}
+                onChange={e => hubService.setRecentLimit(Number(e.target.value))}
+                title="How many recent transactions the live feed keeps">
+                {RECENT_LIMIT_OPTIONS.map(n => <option key={n} value={n}>Keep {n.toLocaleString()}</option>)}
+              </select>
               <button style={s.clearBtn} onClick={() => dispatch(clearRecent())}
                 title="Clears display only — DB is preserved">
                 🗑 Clear
               </button>
             </div>
 
+            {feedPaused && (
+              <button style={s.pausedBanner} onClick={() => dispatch(resumeFeed())}>
+                ⏸ {pausedCount.toLocaleString()} new transaction{pausedCount === 1 ? '' : 's'}, paused — click to resume
+              </button>
+            )}
+
             <div style={s.countLabel}>
               Showing {filteredRecent.length} of {recentAll.length} recent
-              {dbStats.total > recentAll.length && (
-                <span style={{ color: '#6366f1' }}> ({dbStats.total.toLocaleString()} total in DB →
+              {dbTotal !== null && dbTotal > recentAll.length && (
+                <span style={{ color: '#6366f1' }}> ({dbTotal.toLocaleString()} total in DB →
                   <button style={s.inlineBtn} onClick={switchToHistory}>view all</button>)
                 </span>
               )}
@@ -134,16 +302,22 @@ export default function Monitor() {
               <div style={s.emptyState}>
                 <div style={{ fontSize: '3rem', marginBottom: '1rem' }}>📡</div>
                 <p style={{ color: '#94a3b8' }}>
-                  {dbStats.total > 0
-                    ? `Display cleared — ${dbStats.total.toLocaleString()} transactions in DB`
+                  {dbTotal
+                    ? `Display cleared — ${dbTotal.toLocaleString()} transactions in DB`
                     : 'Waiting for transactions...'}
                 </p>
               </div>
             )}
 
-            <div style={s.grid}>
-              {filteredRecent.map(tx => <TransactionRow key={tx.transactionId} transaction={tx} />)}
-            </div>
+            <VirtualList
+              items={filteredRecent}
+              itemHeight={ROW_HEIGHT}
+              height={LIST_HEIGHT}
+              getKey={txKey}
+              renderItem={tx =>
+                // Only rows the latest batch added slide in — not rows scrolled into view
+                <TransactionRow transaction={tx} onSelect={openTransaction} animateIn={!!arrivedIds[tx.transactionId]} />}
+            />
           </>
         )}
 
@@ -154,7 +328,10 @@ export default function Monitor() {
               <div style={s.filterGroup}>
                 {FILTERS.map(f => (
                   <button key={f}
-                    onClick={async () => { setHistoryFilter(f); await loadPage(1, f); }}
+                    onClick={() => setQuery({
+                      page: 1,
+                      filters: { ...query.filters, status: f === 'All' ? undefined : f },
+                    })}
                     style={{
                       ...s.filterBtn,
                       ...(historyFilter === f ? s.filterBtnActive : {}),
@@ -164,31 +341,92 @@ export default function Monitor() {
                   </button>
                 ))}
               </div>
+              <div style={{ ...s.filterGroup, marginLeft: 'auto' }}>
+                <button style={{ ...s.filterBtn, ...(!isScrollMode ? s.filterBtnActive : {}) }}
+                  onClick={() => setQuery({ paging: 'pages' })}
+                  title="Numbered pages, any sort order">
+                  Pages
+                </button>
+                <button style={{ ...s.filterBtn, ...(isScrollMode ? s.filterBtnActive : {}) }}
+                  onClick={() => setQuery({ paging: 'scroll', page: 1 })}
+                  title="Infinite scroll, newest first — stable while new transactions arrive">
+                  ∞ Scroll
+                </button>
+              </div>
             </div>
 
-            {isLoading && <div style={s.loadingBanner}>⏳ Loading...</div>}
+            <HistoryFilterBar
+              filters={query.filters}
+              onApply={filters => setQuery({ page: 1, filters })}
+            />
+
+            <ExportPanel
+              status={exporter.status}
+              format={exporter.format}
+              progress={exporter.progress}
+              error={exporter.error}
+              onExport={exporter.start}
+              onCancel={exporter.cancel}
+            />
+
+            {isScrollMode && (
+              <>
+                <div style={s.countLabel}>
+                  Newest first · {infinite.items.length.toLocaleString()} loaded
+                  {!infinite.hasMore && ' (end)'}
+                </div>
+                <VirtualList
+                  items={infinite.items}
+                  itemHeight={ROW_HEIGHT}
+                  height={LIST_HEIGHT}
+                  getKey={txKey}
+                  renderItem={tx =>
+                    <TransactionRow transaction={tx} onSelect={openTransaction} animateIn={false} />}
+                  onEndReached={infinite.hasMore && !infinite.error ? infinite.loadMore : undefined}
+                />
+                {infinite.isLoading && <div style={{ ...s.loadingBanner, marginTop: '0.75rem' }}>⏳ Loading...</div>}
+                {infinite.error && !infinite.isLoading && (
+                  <div style={{ ...s.errorBanner, marginTop: '0.75rem' }}>
+                    ❌ {infinite.error}
+                    <button style={s.inlineBtn} onClick={infinite.loadMore}>retry</button>
+                  </div>
+                )}
+              </>
+            )}
+
+            {!isScrollMode && isLoading && <div style={s.loadingBanner}>⏳ Loading...</div>}
+            {!isScrollMode && loadError && !isLoading && <div style={s.errorBanner}>❌ {loadError}</div>}
 
-            {currentPage && !isLoading && (
+            {!isScrollMode && currentPage && !isLoading && (
               <>
                 <div style={s.countLabel}>
                   Page {currentPage.page} of {currentPage.totalPages}
                   ({currentPage.totalCount.toLocaleString()} total)
                 </div>
-                <div style={s.grid}>
-                  {currentPage.items.map(tx => <TransactionRow key={tx.transactionId} transaction={tx} />)}
-                </div>
+                <SortableHeader sort={query.sort} onSort={sort => setQuery({ page: 1, sort })} />
+                <VirtualList
+                  items={currentPage.items}
+                  itemHeight={ROW_HEIGHT}
+                  height={LIST_HEIGHT}
+                  getKey={txKey}
+                  renderItem={tx =>
+                    <TransactionRow transaction={tx} onSelect={openTransaction} animateIn={false} />}
+                />
                 <Pagination
                   page={currentPage.page}
                   totalPages={currentPage.totalPages}
                   hasNext={currentPage.hasNext}
                   hasPrev={currentPage.hasPrev}
-                  onPage={p => loadPage(p, historyFilter)}
+                  onPage={p => setQuery({ page: p })}
                 />
               </>
             )}
           </>
         )}
       </div>
+
+      {/* Child route: /monitor/tx/:id detail drawer */}
+      <Outlet context={{ hubService } satisfies MonitorOutletContext} />
     </>
   );
 }
@@ -198,6 +436,9 @@ const s: Record<string, React.CSSProperties> = {
   header:        { display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '1.5rem' },
   title:         { fontSize: '2rem', fontWeight: 700, color: '#f1f5f9', margin: 0 },
   subtitle:      { color: '#94a3b8', marginTop: '0.25rem' },
+  headerActions: { display: 'flex', gap: '0.5rem', alignItems: 'center' },
+  alertBtn:      { padding: '0.5rem 0.9rem', borderRadius: 20, border: '1px solid rgba(255,255,255,0.12)', background: 'transparent', color: '#94a3b8', cursor: 'pointer', fontSize: '0.9rem', fontWeight: 600 },
+  alertBtnUnread:{ background: 'rgba(239,68,68,0.15)', borderColor: 'rgba(239,68,68,0.4)', color: '#fca5a5' },
   sectionLabel:  { color: '#475569', fontSize: '0.75rem', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: '0.5rem', marginTop: '1rem' },
   tabs:          { display: 'flex', gap: '0.5rem', marginBottom: '1rem', borderBottom: '1px solid rgba(255,255,255,0.08)', paddingBottom: 0 },
   tab:           { padding: '0.6rem 1.2rem', background: 'transparent', border: 'none', color: '#64748b', cursor: 'pointer', fontSize: '0.9rem', fontWeight: 500, borderBottom: '2px solid transparent', marginBottom: '-1px', display: 'flex', gap: '0.5rem', alignItems: 'center' },
@@ -212,6 +453,8 @@ const s: Record<string, React.CSSProperties> = {
   countLabel:    { color: '#64748b', fontSize: '0.8rem', marginBottom: '0.75rem' },
   inlineBtn:     { background: 'none', border: 'none', color: '#818cf8', cursor: 'pointer', textDecoration: 'underline', fontSize: 'inherit', padding: '0 0.25rem' },
   loadingBanner: { background: 'rgba(99,102,241,0.1)', border: '1px solid rgba(99,102,241,0.2)', borderRadius: 8, padding: '0.75rem', textAlign: 'center', color: '#a5b4fc', marginBottom: '1rem' },
+  pausedBanner:  { display: 'block', width: '100%', background: 'rgba(245,158,11,0.1)', border: '1px solid rgba(245,158,11,0.3)', borderRadius: 8, padding: '0.6rem', textAlign: 'center', color: '#fcd34d', marginBottom: '0.75rem', cursor: 'pointer', fontSize: '0.85rem' },
+  errorBanner:   { background: 'rgba(239,68,68,0.1)', border: '1px solid rgba(239,68,68,0.3)', borderRadius: 8, padding: '0.75rem', textAlign: 'center', color: '#fca5a5', marginBottom: '1rem' },
   emptyState:    { textAlign: 'center', padding: '4rem 2rem', color: '#475569' },
-  grid:          { display: 'flex', flexDirection: 'column', gap: '0.4rem' },
+  bufferSelect:  { background: 'rgba(255,255,255,0.07)', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 8, padding: '0.5rem 0.75rem', color: '#94a3b8', fontSize: '0.85rem', outline: 'none', colorScheme: 'dark' },
 };
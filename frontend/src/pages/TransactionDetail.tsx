@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useLocation, useNavigate, useOutletContext, useParams } from 'react-router-dom';
+import {
+  openDetail,
+  setDetailTransaction,
+  closeDetail,
+  selectDetailTransaction,
+  selectStatusHistory,
+} from '../store/transactionSlice';
+import type { RootState } from '../store/transactionSlice';
+import { STATUS_CONFIG } from '../types/transaction';
+import { formatMoney } from '../services/formatting';
+import type { TransactionHubService } from '../services/TransactionHubService';
+import StatusTimeline from '../components/StatusTimeline';
+
+export interface MonitorOutletContext {
+  hubService: TransactionHubService;
+}
+
+/**
+ * Detail drawer — rendered as a child route of /monitor (/monitor/tx/:id),
+ * so it can be deep-linked and the page behind it keeps its state.
+ *
+ * Fetches the transaction and its status history by ID once; live
+ * ReceiveTransaction events for the same ID keep both current through Redux.
+ */
+export default function TransactionDetail() {
+  const { id = '' }    = useParams();
+  const { hubService } = useOutletContext<MonitorOutletContext>();
+  const dispatch       = useDispatch();
+  const navigate       = useNavigate();
+  const location       = useLocation();
+  const tx             = useSelector(selectDetailTransaction);
+  const history        = useSelector((state: RootState) => selectStatusHistory(state, id));
+
+  const [loadState, setLoadState] = useState<'loading' | 'loaded' | 'notFound' | 'error'>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    dispatch(openDetail(id));
+    setLoadState('loading');
+
+    hubService.fetchTransaction(id)
+      .then(result => {
+        if (cancelled) return;
+        if (result) dispatch(setDetailTransaction(result));
+        setLoadState(result ? 'loaded' : 'notFound');
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('Failed to load transaction:', err);
+        setLoadState('error');
+      });
+    hubService.loadStatusHistory(id);
+
+    return () => {
+      cancelled = true;
+      dispatch(closeDetail());
+    };
+  }, [id, hubService, dispatch]);
+
+  // Back to /monitor, keeping whatever query string the list behind us had
+  const close = () => navigate({ pathname: '/monitor', search: location.search });
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') close(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const cfg = tx ? STATUS_CONFIG[tx.status] : null;
+
+  return (
+    <div style={s.backdrop} onClick={close}>
+      <aside style={s.drawer} onClick={e => e.stopPropagation()}>
+        <div style={s.header}>
+          <h2 style={s.title}>Transaction</h2>
+          <button style={s.closeBtn} onClick={close} title="Close (Esc)">✕</button>
+        </div>
+
+        {!tx && loadState === 'loading'  && <div style={s.notice}>⏳ Loading...</div>}
+        {!tx && loadState === 'notFound' && <div style={s.notice}>Transaction {id} not found</div>}
+        {!tx && loadState === 'error'    && <div style={{ ...s.notice, color: '#fca5a5' }}>❌ Failed to load transaction</div>}
+
+        {tx && cfg && (
+          <dl style={s.fields}>
+            <Field label="Status">
+              <span style={{ ...s.statusBadge, background: cfg.bg, color: cfg.color }}>{cfg.label}</span>
+            </Field>
+            <Field label="Transaction ID">
+              <span style={s.mono}>{tx.transactionId}</span>
+            </Field>
+            <Field label="Amount">
+              <span style={s.amount}>{formatMoney(tx.amount, tx.currency)}</span>
+            </Field>
+            <Field label="Exact amount">
+              {/* The decimal string as the API sent it — every digit, no rounding */}
+              <span style={s.mono}>{tx.amount}</span> <span style={s.muted}>{tx.currency}</span>
+            </Field>
+            <Field label="Currency">{tx.currency}</Field>
+            <Field label="Timestamp (ISO 8601)">
+              <span style={s.mono}>{tx.timestamp}</span>
+            </Field>
+            <Field label="Local time">
+              <span style={s.muted}>{new Date(tx.timestamp).toString()}</span>
+            </Field>
+            <Field label="Status history">
+              <StatusTimeline history={history} />
+            </Field>
+          </dl>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div style={s.field}>
+      <dt style={s.fieldLabel}>{label}</dt>
+      <dd style={s.fieldValue}>{children}</dd>
+    </div>
+  );
+}
+
+const s: Record<string, React.CSSProperties> = {
+  backdrop:    { position: 'fixed', inset: 0, background: 'rgba(2,6,23,0.55)', zIndex: 200, display: 'flex', justifyContent: 'flex-end' },
+  drawer:      { width: 'min(440px, 100%)', height: '100%', overflowY: 'auto', background: '#0f172a', borderLeft: '1px solid rgba(255,255,255,0.1)', padding: '1.5rem', animation: 'slideIn 0.2s ease-out' },
+  header:      { display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' },
+  title:       { fontSize: '1.25rem', fontWeight: 700, color: '#f1f5f9', margin: 0 },
+  closeBtn:    { background: 'transparent', border: '1px solid rgba(255,255,255,0.12)', borderRadius: 8, color: '#94a3b8', cursor: 'pointer', padding: '0.3rem 0.6rem', fontSize: '0.9rem' },
+  notice:      { color: '#94a3b8', textAlign: 'center', padding: '2rem 0' },
+  fields:      { display: 'flex', flexDirection: 'column', gap: '1rem' },
+  field:       { display: 'flex', flexDirection: 'column', gap: '0.3rem' },
+  fieldLabel:  { color: '#64748b', fontSize: '0.7rem', textTransform: 'uppercase', letterSpacing: '0.05em' },
+  fieldValue:  { color: '#e2e8f0', fontSize: '0.95rem', wordBreak: 'break-all' },
+  statusBadge: { padding: '0.3rem 0.7rem', borderRadius: 20, fontSize: '0.75rem', fontWeight: 700, letterSpacing: '0.05em' },
+  mono:        { fontFamily: 'monospace' },
+  amount:      { fontWeight: 700, fontSize: '1.1rem', fontFamily: 'monospace' },
+  muted:       { color: '#94a3b8' },
+};
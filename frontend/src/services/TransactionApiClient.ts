@@ -0,0 +1,334 @@
+import {
+  array, boolean, decimal, integer, isoDateTime, nullable, number, object, oneOf, optional, parse,
+  record, string,
+  SchemaError,
+  type Schema,
+} from './schema';
+import {
+  TIME_SERIES_WINDOWS,
+  TRANSACTION_FIELDS,
+  TRANSACTION_STATUSES,
+  UPSERT_OUTCOMES,
+  type BatchUpsertResult,
+  type ChangeFeed,
+  type CursorPage,
+  type DbStats,
+  type FieldErrors,
+  type ExportFormat,
+  type ExportResponse,
+  type PagedTransactions,
+  type StatsWindow,
+  type StatusChange,
+  type TimeSeries,
+  type TimeSeriesBucket,
+  type TimeSeriesWindow,
+  type Transaction,
+  type TransactionFilters,
+  type TransactionSort,
+  type UpsertResult,
+} from '../types/transaction';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+const API_URL = '/api/transactions';
+
+// ─── Schemas ──────────────────────────────────────────────────────────────
+// Mirror the backend DTOs (camelCase, enums as strings). Annotated with the
+// TS interfaces so the schema and the type can never drift apart silently.
+
+export const TransactionSchema: Schema<Transaction> = object({
+  transactionId: string,
+  amount:        decimal,
+  currency:      string,
+  status:        oneOf(TRANSACTION_STATUSES),
+  timestamp:     isoDateTime,
+  updatedAt:     optional(isoDateTime),
+});
+
+export const StatusChangeSchema: Schema<StatusChange> = object({
+  status:    oneOf(TRANSACTION_STATUSES),
+  timestamp: isoDateTime,
+});
+
+export const PagedTransactionsSchema: Schema<PagedTransactions> = object({
+  items:      array(TransactionSchema),
+  page:       integer,
+  pageSize:   integer,
+  totalCount: integer,
+  totalPages: integer,
+  hasNext:    boolean,
+  hasPrev:    boolean,
+});
+
+export const CursorPageSchema: Schema<CursorPage> = object({
+  items:      array(TransactionSchema),
+  nextCursor: nullable(string),
+  hasMore:    boolean,
+});
+
+export const ChangeFeedSchema: Schema<ChangeFeed> = object({
+  items:   array(TransactionSchema),
+  hasMore: boolean,
+});
+
+export const UpsertResultSchema: Schema<UpsertResult> = object({
+  index:         integer,
+  transactionId: nullable(string),
+  outcome:       oneOf(UPSERT_OUTCOMES),
+  error:         nullable(string),
+});
+
+export const BatchUpsertResultSchema: Schema<BatchUpsertResult> = object({
+  created:  integer,
+  updated:  integer,
+  rejected: integer,
+  results:  array(UpsertResultSchema),
+});
+
+export const DbStatsSchema: Schema<DbStats> = object({
+  total:            integer,
+  completed:        integer,
+  failed:           integer,
+  pending:          integer,
+  volumeByCurrency: record(decimal),
+  failureRate:      number,
+  averageAmount:    decimal,
+  p50Amount:        decimal,
+  p95Amount:        decimal,
+  p99Amount:        decimal,
+  from:             nullable(isoDateTime),
+});
+
+export const TimeSeriesBucketSchema: Schema<TimeSeriesBucket> = object({
+  start:            isoDateTime,
+  pending:          integer,
+  completed:        integer,
+  failed:           integer,
+  volumeByCurrency: record(decimal),
+});
+
+export const TimeSeriesSchema: Schema<TimeSeries> = object({
+  window:        oneOf(TIME_SERIES_WINDOWS),
+  bucketSeconds: integer,
+  from:          isoDateTime,
+  to:            isoDateTime,
+  buckets:       array(TimeSeriesBucketSchema),
+});
+
+// ─── Errors ───────────────────────────────────────────────────────────────
+
+/**
+ * Non-2xx HTTP response. `message` carries the backend's `{ error }` text when present,
+ * `fieldErrors` its `{ errors: { field: message } }` map.
+ */
+export class ApiError extends Error {
+  readonly status:      number;
+  readonly url:         string;
+  readonly fieldErrors: FieldErrors;
+
+  constructor(status: number, url: string, message: string, fieldErrors: FieldErrors = {}) {
+    super(message);
+    this.name        = 'ApiError';
+    this.status      = status;
+    this.url         = url;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * A response that got through (usually 2xx) but doesn't match its schema — the
+ * server may well have done what was asked, so it's no reason to resend.
+ * Wraps the SchemaError that names the offending field.
+ */
+export class ResponseContractError extends Error {
+  readonly status: number;
+  readonly url:    string;
+  readonly cause:  SchemaError;
+
+  constructor(status: number, url: string, cause: SchemaError) {
+    super(`Response contract: ${cause.message}`);
+    this.name   = 'ResponseContractError';
+    this.status = status;
+    this.url    = url;
+    this.cause  = cause;
+  }
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────
+
+/**
+ * TransactionApiClient — the only place that talks HTTP to /api/transactions.
+ *
+ * Every response is validated against its schema; a mismatch throws
+ * ResponseContractError (wrapping the SchemaError that names the offending
+ * field), a non-2xx status throws ApiError.
+ * It never touches Redux — TransactionHubService decides what to dispatch.
+ */
+export class TransactionApiClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl = API_URL) {
+    this.baseUrl = baseUrl;
+  }
+
+  /** GET /api/transactions?page&pageSize&status&idPrefix&currency&minAmount&maxAmount&from&to&sortBy&sortDir */
+  getPage(
+    page: number,
+    pageSize: number,
+    filters: TransactionFilters = {},
+    sort?: TransactionSort,
+  ): Promise<PagedTransactions> {
+    const params = toParams({ page, pageSize, ...filters, ...sort });
+    return this.request(`${this.baseUrl}?${params}`, PagedTransactionsSchema);
+  }
+
+  /** GET /api/transactions/cursor?cursor&pageSize (+ filters) — keyset page, newest first. */
+  getCursorPage(
+    cursor: string | null,
+    pageSize: number,
+    filters: TransactionFilters = {},
+  ): Promise<CursorPage> {
+    const params = toParams({ pageSize, ...filters, cursor: cursor ?? undefined });
+    return this.request(`${this.baseUrl}/cursor?${params}`, CursorPageSchema);
+  }
+
+  /**
+   * GET /api/transactions/changes?since&afterId&limit — everything upserted at or
+   * after `since` (server clock), oldest first. Page with the last item's
+   * updatedAt + transactionId.
+   */
+  getChanges(since: string, afterId?: string, limit?: number): Promise<ChangeFeed> {
+    const params = toParams({ since, afterId, limit });
+    return this.request(`${this.baseUrl}/changes?${params}`, ChangeFeedSchema);
+  }
+
+  /** GET /api/transactions/stats?window — all-time when window is 'all'. */
+  getStats(window: StatsWindow = 'all'): Promise<DbStats> {
+    const params = toParams({ window: window === 'all' ? undefined : window });
+    return this.request(`${this.baseUrl}/stats?${params}`, DbStatsSchema);
+  }
+
+  /** GET /api/transactions/stats/timeseries?window — bucketed transitions + volume. */
+  getTimeSeries(window: TimeSeriesWindow): Promise<TimeSeries> {
+    return this.request(`${this.baseUrl}/stats/timeseries?${toParams({ window })}`, TimeSeriesSchema);
+  }
+
+  /** GET /api/transactions/{id} — resolves to null on 404. */
+  async getById(id: string): Promise<Transaction | null> {
+    try {
+      return await this.request(`${this.baseUrl}/${encodeURIComponent(id)}`, TransactionSchema);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) return null;
+      throw err;
+    }
+  }
+
+  /** GET /api/transactions/{id}/history — status transitions, oldest first. */
+  getStatusHistory(id: string): Promise<StatusChange[]> {
+    return this.request(
+      `${this.baseUrl}/${encodeURIComponent(id)}/history`,
+      array(StatusChangeSchema),
+    );
+  }
+
+  /** POST /api/transactions — create (201) or update (200); resolves with the stored transaction. */
+  async upsert(tx: Transaction): Promise<{ transaction: Transaction; status: number }> {
+    const { body, status } = await this.send(this.baseUrl, TransactionSchema, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(tx),
+    });
+    return { transaction: body, status };
+  }
+
+  /**
+   * GET /api/transactions/export?format (+ filters and sort) — opens the download
+   * without reading it; the caller consumes `body` as a stream. Abort via `signal`.
+   */
+  async openExport(
+    format: ExportFormat,
+    filters: TransactionFilters = {},
+    sort?: TransactionSort,
+    signal?: AbortSignal,
+  ): Promise<ExportResponse> {
+    const url = `${this.baseUrl}/export?${toParams({ format, ...filters, ...sort })}`;
+    const res = await fetch(url, { signal });
+
+    if (!res.ok || !res.body) {
+      throw toApiError(res, url, await res.json().catch(() => undefined));
+    }
+
+    const total = Number.parseInt(res.headers.get('X-Total-Count') ?? '', 10);
+    return {
+      body:     res.body,
+      total:    Number.isNaN(total) ? null : total,
+      fileName: fileNameFrom(res.headers.get('Content-Disposition')) ?? `transactions.${format}`,
+    };
+  }
+
+  /** POST /api/transactions/batch — at most 1000 items; a result per item, in order. */
+  upsertBatch(txs: Transaction[]): Promise<BatchUpsertResult> {
+    return this.request(`${this.baseUrl}/batch`, BatchUpsertResultSchema, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(txs),
+    });
+  }
+
+  // ─── Private ──────────────────────────────────────────────────────────
+
+  private async request<T>(url: string, schema: Schema<T>, init?: RequestInit): Promise<T> {
+    return (await this.send(url, schema, init)).body;
+  }
+
+  private async send<T>(url: string, schema: Schema<T>, init?: RequestInit): Promise<{ body: T; status: number }> {
+    const res = await fetch(url, init);
+    const body: unknown = await res.json().catch(() => undefined);
+
+    if (!res.ok) throw toApiError(res, url, body);
+    try {
+      return { body: parse(schema, body), status: res.status };
+    } catch (err) {
+      throw err instanceof SchemaError ? new ResponseContractError(res.status, url, err) : err;
+    }
+  }
+}
+
+/** Build a query string, skipping unset values. */
+function toParams(values: Record<string, string | number | undefined>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  return params;
+}
+
+/** filename="x.csv" / filename*=UTF-8''x.csv from a Content-Disposition header */
+function fileNameFrom(header: string | null): string | null {
+  if (!header) return null;
+  const extended = /filename\*=UTF-8''([^;]+)/i.exec(header);
+  if (extended) return decodeURIComponent(extended[1]);
+  const plain = /filename="?([^";]+)"?/i.exec(header);
+  return plain ? plain[1] : null;
+}
+
+function toApiError(res: Response, url: string, body: unknown): ApiError {
+  if (!isErrorBody(body)) return new ApiError(res.status, url, `${res.status} ${res.statusText}`);
+  return new ApiError(res.status, url, body.error, fieldErrorsOf(body.errors));
+}
+
+function isErrorBody(body: unknown): body is { error: string; errors?: unknown } {
+  return typeof body === 'object' && body !== null
+    && typeof (body as { error?: unknown }).error === 'string';
+}
+
+/** Keep only the fields a client sends — anything else stays in the top-level message */
+function fieldErrorsOf(errors: unknown): FieldErrors {
+  const result: FieldErrors = {};
+  if (typeof errors !== 'object' || errors === null) return result;
+  for (const field of TRANSACTION_FIELDS) {
+    const message = (errors as Record<string, unknown>)[field];
+    if (typeof message === 'string') result[field] = message;
+  }
+  return result;
+}
@@ -1,40 +1,65 @@
 import * as signalR from '@microsoft/signalr';
 import type { AppDispatch } from '../store';
 import {
-  receiveTransaction,
+  receiveTransactions,
   setRecentTransactions,
   setStats,
+  setStatsWindow,
   setConnectionState,
-  type DbStats,
+  setRecentLimit,
+  mergeStatusHistory,
+  DEFAULT_RECENT_LIMIT,
+  selectRecentTransactions,
+  type ConnectionState,
+  type RootState,
 } from '../store/transactionSlice';
-import type { Transaction, TransactionStatus } from '../types/transaction';
+import { mergeSeriesBackfill } from '../store/timeSeriesSlice';
+import { putOutboxEntry, removeOutboxEntry, setOutbox } from '../store/outboxSlice';
+import type {
+  BatchUpsertResult,
+  CursorPage,
+  ExportFormat,
+  ExportResponse,
+  OutboxEntry,
+  PagedTransactions,
+  SendResult,
+  StatsWindow,
+  TimeSeriesWindow,
+  Transaction,
+  TransactionFilters,
+  TransactionSort,
+} from '../types/transaction';
+import { TransactionApiClient, TransactionSchema } from './TransactionApiClient';
+import { upsertTransaction, upsertTransactions } from './transactionUpsert';
+import { afterFailure, isRetryable, loadOutbox, queueEntry } from './outbox';
+import { TabCoordinator, type TabMessage } from './tabCoordinator';
+import { parse } from './schema';
 
 // ─── Config ────────────────────────────────────────────────────────────────
 
-const HUB_URL       = '/hubs/transactions';
-const API_URL       = '/api/transactions';
-const STATS_URL     = '/api/transactions/stats';
-const RECENT_LIMIT  = 100;
-
-// ─── Types ────────────────────────────────────────────────────────────────
-
-export interface PagedTransactions {
-  items:      Transaction[];
-  page:       number;
-  pageSize:   number;
-  totalCount: number;
-  totalPages: number;
-  hasNext:    boolean;
-  hasPrev:    boolean;
-}
+const HUB_URL         = '/hubs/transactions';
+const MAX_PAGE_SIZE   = 200; // server-side clamp on GET /api/transactions
+const HIDDEN_FLUSH_MS = 250; // batch interval when the tab is hidden (no rAF)
+const CHANGES_PAGE    = 500;  // rows per GET /api/transactions/changes request
+const MAX_GAP_PAGES   = 20;   // beyond this a fresh snapshot is cheaper than a replay
+const GAP_OVERLAP_MS  = 5000; // replay a little before the last event — pods' clocks differ
+const POLL_MIN_MS     = 1000;   // polling fallback: interval while changes keep arriving
+const POLL_MAX_MS     = 15_000; // ...backing off towards this while the feed is quiet
+const UPGRADE_RETRY_MS = 30_000; // how often polling mode retries the WebSocket
+const WINDOWED_STATS_REFRESH_MS = 15_000; // windowed stats also change as old rows age out
+const ALL_STATS_REFRESH_MS = 60_000;      // all-time stats only drift from optimistic counting
+const FOLLOWER_BOOTSTRAP_MS = 3000; // a follower the leader hasn't answered loads its own snapshot
 
 // ─── Service ─────────────────────────────────────────────────────────────
 
 /**
  * TransactionHubService:
  *   - Owns the SignalR HubConnection lifecycle (connect / reconnect / disconnect)
- *   - Owns all HTTP calls to /api/transactions
+ *   - Owns all HTTP calls to /api/transactions (via TransactionApiClient)
  *   - Dispatches Redux actions — components never touch the network directly
+ *   - Across tabs, only the leader connects to the hub and sends the outbox; it
+ *     relays events, snapshots, stats, connection state and outbox to the others
+ *     (TabCoordinator), and followers hand their queued submissions to it
  *
  * This separation means:
  *   - Components are pure UI (read from store, dispatch actions)
@@ -44,141 +69,657 @@ export interface PagedTransactions {
 export class TransactionHubService {
   private connection: signalR.HubConnection | null = null;
   private dispatch: AppDispatch;
+  private recentLimit = DEFAULT_RECENT_LIMIT;
+  /** Events received since the last flush — dispatched together once per frame */
+  private pending: Transaction[] = [];
+  private cancelFlush: (() => void) | null = null;
+  /** Newest server `updatedAt` seen (live or snapshot) — where gap recovery resumes */
+  private lastSeenAt: number | null = null;
+  /** Polling fallback — active only while SignalR is unreachable */
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollDelay = POLL_MIN_MS;
+  private nextUpgradeAt = 0;
+  private stopped = false;
+  private statsWindow: StatsWindow = 'all';
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  /** Raw ReceiveTransaction subscribers — see onTransaction */
+  private listeners = new Set<(tx: Transaction) => void>();
+  /** Mirror of the outbox slice — changed only through this service */
+  private outbox = new Map<string, OutboxEntry>();
+  private outboxTimer: ReturnType<typeof setTimeout> | null = null;
+  private outboxDraining = false;
+  /** Leader election and relay between tabs — null while stopped */
+  private tabs: TabCoordinator | null = null;
+  private getState: () => RootState = () => { throw new Error('TransactionHubService not started'); };
+  private connectionState: ConnectionState = 'connecting';
+  private bootstrapTimer: ReturnType<typeof setTimeout> | null = null;
+  readonly api: TransactionApiClient;
 
-  constructor(dispatch: AppDispatch) {
+  constructor(dispatch: AppDispatch, api = new TransactionApiClient()) {
     this.dispatch = dispatch;
+    this.api      = api;
+  }
+
+  /**
+   * Start the SignalR connection and load initial data.
+   * If the WebSocket can't be established (e.g. a proxy blocks it), fall back
+   * to polling the change feed until an upgrade attempt succeeds.
+   *
+   * With other tabs open, only the leader does this; a follower gets the same
+   * events, snapshot, stats and outbox from it and takes over when it goes away.
+   * `getState` reads the store — buffer size and stats window (restored from
+   * the last session, or changed on another page), and the feed to share.
+   */
+  start(getState: () => RootState): void {
+    this.stopped  = false;
+    this.getState = getState;
+    ({ recentLimit: this.recentLimit, statsWindow: this.statsWindow } = getState().transactions);
+    this.setConnection('connecting');
+    if (typeof window !== 'undefined') window.addEventListener('online', this.retryOutboxNow);
+
+    this.tabs = new TabCoordinator();
+    this.tabs.start(message => this.onTabMessage(message), {
+      onLeader:   () => this.lead(),
+      onFollower: () => this.follow(),
+    });
+  }
+
+  /** Stop the connection and any polling (called on component unmount). */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.tabs?.stop();
+    this.tabs = null;
+    this.stopPolling();
+    if (this.bootstrapTimer) clearTimeout(this.bootstrapTimer);
+    this.bootstrapTimer = null;
+    if (this.statsTimer) clearInterval(this.statsTimer);
+    this.statsTimer = null;
+    if (this.outboxTimer) clearTimeout(this.outboxTimer);
+    this.outboxTimer = null;
+    if (typeof window !== 'undefined') window.removeEventListener('online', this.retryOutboxNow);
+    this.flush();
+    await this.connection?.stop();
+  }
+
+  /**
+   * Be told about each live ReceiveTransaction event as it arrives — before the
+   * per-frame batching into Redux, so the timing is usable for measurements.
+   * In a follower tab these are the leader's events, relayed over BroadcastChannel.
+   * Change-feed replays (reconnect, polling) are not reported. Returns the unsubscribe.
+   */
+  onTransaction(listener: (tx: Transaction) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // ─── HTTP Methods ──────────────────────────────────────────────────────
+
+  /** Resize the live feed buffer; the next snapshot load fetches up to this many rows. */
+  setRecentLimit(limit: number): void {
+    this.recentLimit = limit;
+    this.dispatch(setRecentLimit(limit));
+  }
+
+  /** Fetch a paginated page and return it (does NOT update Redux — caller decides). */
+  fetchPage(
+    page: number,
+    pageSize = 50,
+    filters: TransactionFilters = {},
+    sort?: TransactionSort,
+  ): Promise<PagedTransactions> {
+    return this.api.getPage(page, pageSize, filters, sort);
+  }
+
+  /** Fetch a keyset page for infinite scroll (does NOT update Redux — caller decides). */
+  fetchCursorPage(
+    cursor: string | null,
+    pageSize = 50,
+    filters: TransactionFilters = {},
+  ): Promise<CursorPage> {
+    return this.api.getCursorPage(cursor, pageSize, filters);
   }
 
-  /** Start the SignalR connection and load initial data. */
-  async start(): Promise<void> {
-    this.dispatch(setConnectionState('connecting'));
+  /** Open a streaming export of every row matching `filters` (does NOT update Redux). */
+  openExport(
+    format: ExportFormat,
+    filters: TransactionFilters = {},
+    sort?: TransactionSort,
+    signal?: AbortSignal,
+  ): Promise<ExportResponse> {
+    return this.api.openExport(format, filters, sort, signal);
+  }
+
+  /** Fetch a single transaction by ID — null if the server doesn't know it. */
+  fetchTransaction(id: string): Promise<Transaction | null> {
+    return this.api.getById(id);
+  }
+
+  /** Backfill a transaction's status timeline from the server into Redux. */
+  async loadStatusHistory(id: string): Promise<void> {
+    try {
+      const history = await this.api.getStatusHistory(id);
+      this.dispatch(mergeStatusHistory({ transactionId: id, history }));
+    } catch (err) {
+      console.error('Failed to load status history:', err);
+    }
+  }
+
+  /**
+   * Switch the stats window (all-time / 5m / 1h / 24h) and fetch the matching stats.
+   * Tabs share one window: a follower's choice goes to the leader, which fetches for everyone.
+   */
+  async setStatsWindow(window: StatsWindow): Promise<void> {
+    this.statsWindow = window;
+    this.dispatch(setStatsWindow(window));
+    this.scheduleStatsRefresh();
+    await this.refreshStats();
+  }
+
+  /** Refresh stats for the current window from server and update Redux — in a follower, via the leader. */
+  async refreshStats(): Promise<void> {
+    if (this.tabs && !this.isLeading()) {
+      this.tabs.post({ type: 'stats-request', window: this.statsWindow });
+      return;
+    }
+    await this.fetchStats();
+  }
 
-    this.connection = new signalR.HubConnectionBuilder()
+  /** Backfill the trend charts for a window from the server's bucketed stats. */
+  async loadTimeSeries(window: TimeSeriesWindow): Promise<void> {
+    try {
+      const series = await this.api.getTimeSeries(window);
+      this.dispatch(mergeSeriesBackfill({
+        resolution: series.bucketSeconds < 60 ? 'seconds' : 'minutes',
+        from:       series.from,
+        to:         series.to,
+        buckets:    series.buckets,
+      }));
+    } catch (err) {
+      // Charts still fill up from live events
+      console.error('Failed to load time series:', err);
+    }
+  }
+
+  /** Send a single transaction to the API — never throws, see upsertTransaction. */
+  sendTransaction(tx: Transaction): Promise<SendResult> {
+    return upsertTransaction(this.api, tx);
+  }
+
+  /** Send many transactions through the batch endpoint — never throws, see upsertTransactions. */
+  sendBatch(txs: Transaction[]): Promise<BatchUpsertResult> {
+    return upsertTransactions(this.api, txs);
+  }
+
+  // ─── Outbox ───────────────────────────────────────────────────────────
+
+  /**
+   * Send a transaction; if the API can't be reached (or answers 408 / 429 / 5xx)
+   * keep it in the outbox and retry with backoff until it's accepted. Offline,
+   * it's queued without an attempt. Validation errors come straight back.
+   * Any tab makes the first attempt; the retries are the leader's.
+   */
+  async submitTransaction(tx: Transaction): Promise<SendResult> {
+    if (!isOnline()) {
+      this.putOutbox(queueEntry(tx, null));
+      return { ok: false, status: null, error: 'You are offline', fieldErrors: {}, queued: true };
+    }
+
+    const result = await this.sendTransaction(tx);
+    if (result.ok) {
+      // A queued older version would only be ignored as stale now
+      const queued = this.outbox.get(tx.transactionId);
+      if (queued && queued.status !== 'retrying' && Date.parse(queued.transaction.timestamp) <= Date.parse(tx.timestamp)) {
+        this.discardOutboxEntry(tx.transactionId);
+      }
+      return result;
+    }
+    if (!isRetryable(result)) return result;
+    this.putOutbox(queueEntry(tx, result));
+    return { ...result, queued: true };
+  }
+
+  /** Send an outbox entry now. A failed one gets a fresh round of attempts. */
+  retryOutboxEntry(id: string): void {
+    const entry = this.outbox.get(id);
+    if (!entry || entry.status === 'retrying') return;
+    this.putOutbox({
+      ...entry,
+      status:        'pending',
+      attempts:      entry.status === 'failed' ? 0 : entry.attempts,
+      nextAttemptAt: Date.now(),
+    });
+    this.drainOutbox();
+  }
+
+  discardOutboxEntry(id: string): void {
+    if (!this.outbox.delete(id)) return;
+    this.dispatch(removeOutboxEntry(id));
+    if (this.isLeading()) this.shareOutbox();
+    else this.tabs?.post({ type: 'outbox-discard', id });
+  }
+
+  // ─── Private ──────────────────────────────────────────────────────────
+
+  /** GET the current window's stats into Redux — and to the followers, as leader */
+  private async fetchStats(): Promise<void> {
+    try {
+      const window = this.statsWindow;
+      const stats  = await this.api.getStats(window);
+      if (window !== this.statsWindow) return; // window changed in flight
+      this.dispatch(setStats(stats));
+      this.share({ type: 'stats', window, stats });
+    } catch (err) {
+      // Keep the last good stats on screen rather than zeroing them out
+      console.error('Failed to load stats:', err);
+    }
+  }
+
+  /**
+   * Optimistic updates only ever add events; in a sliding window old rows also
+   * drop out, so windowed stats are re-fetched often. All-time stats less so —
+   * they only drift when an update to a row trimmed from the feed is counted
+   * as new. By the leader only, followers get them relayed.
+   */
+  private scheduleStatsRefresh(): void {
+    if (this.statsTimer) clearInterval(this.statsTimer);
+    this.statsTimer = this.isLeading()
+      ? setInterval(() => this.refreshStats(),
+          this.statsWindow === 'all' ? ALL_STATS_REFRESH_MS : WINDOWED_STATS_REFRESH_MS)
+      : null;
+  }
+
+  /**
+   * Buffer an event and schedule a flush on the next animation frame.
+   * Hidden tabs get no frames, so fall back to a timer there.
+   */
+  private enqueue(tx: Transaction): void {
+    this.markSeen([tx]);
+    this.pending.push(tx);
+    if (this.cancelFlush) return;
+
+    if (typeof document !== 'undefined' && !document.hidden) {
+      const handle = requestAnimationFrame(() => this.flush());
+      this.cancelFlush = () => cancelAnimationFrame(handle);
+    } else {
+      const handle = setTimeout(() => this.flush(), HIDDEN_FLUSH_MS);
+      this.cancelFlush = () => clearTimeout(handle);
+    }
+  }
+
+  private flush(): void {
+    this.cancelFlush?.();
+    this.cancelFlush = null;
+    if (this.pending.length === 0) return;
+    const batch = this.pending;
+    this.pending = [];
+    this.dispatch(receiveTransactions(batch));
+  }
+
+  private markSeen(txs: Transaction[]): void {
+    for (const tx of txs) {
+      const at = tx.updatedAt ? Date.parse(tx.updatedAt) : NaN;
+      if (!Number.isNaN(at) && (this.lastSeenAt === null || at > this.lastSeenAt)) {
+        this.lastSeenAt = at;
+      }
+    }
+  }
+
+  /**
+   * After a reconnect, replay only what was missed — through the same batched
+   * receive path as live events — instead of replacing the feed with a snapshot.
+   */
+  private async recoverGap(): Promise<void> {
+    try {
+      await this.catchUp();
+      // Server totals are the truth — replayed events for rows outside the buffer skew the optimistic ones
+      await this.fetchStats();
+    } catch (err) {
+      console.error('Gap recovery failed, reloading snapshot:', err);
+      await this.loadInitialData();
+    }
+  }
+
+  /**
+   * Enqueue everything the change feed has since the last event we saw.
+   * The overlap window can replay a few events twice; receiveTransactions
+   * treats a known ID as an in-place update, so duplicates are harmless.
+   * Resolves to the number of genuinely new changes.
+   */
+  private async catchUp(): Promise<number> {
+    const seenBefore = this.lastSeenAt;
+    if (seenBefore === null) {
+      await this.loadInitialData();
+      return 0;
+    }
+
+    let since = new Date(seenBefore - GAP_OVERLAP_MS).toISOString();
+    let afterId: string | undefined;
+    let changes = 0;
+
+    for (let i = 0; i < MAX_GAP_PAGES; i++) {
+      const feed = await this.api.getChanges(since, afterId, CHANGES_PAGE);
+      for (const tx of feed.items) {
+        if (tx.updatedAt && Date.parse(tx.updatedAt) > seenBefore) changes++;
+        this.enqueue(tx);
+      }
+      this.share({ type: 'transactions', transactions: feed.items, live: false });
+
+      const last = feed.items[feed.items.length - 1];
+      if (!feed.hasMore || !last?.updatedAt) return changes;
+      since   = last.updatedAt;
+      afterId = last.transactionId;
+    }
+
+    await this.loadInitialData();
+    return changes;
+  }
+
+  /**
+   * On taking the lead: merge what earlier sessions — and tabs that led or
+   * followed before — left in IndexedDB, then send it. A reload counts as a retry point.
+   */
+  private async restoreOutbox(): Promise<void> {
+    const stored = await loadOutbox();
+    if (this.stopped) return;
+    // Anything queued while loading is newer than its stored copy
+    for (const entry of stored) if (!this.outbox.has(entry.id)) this.outbox.set(entry.id, entry);
+    this.dispatch(setOutbox([...this.outbox.values()]));
+    this.shareOutbox();
+    this.retryOutboxNow();
+  }
+
+  /**
+   * Record an entry here and in IndexedDB. The leader schedules it; a follower
+   * hands it over — should the leader be gone, its successor finds it stored.
+   */
+  private putOutbox(entry: OutboxEntry): void {
+    this.outbox.set(entry.id, entry);
+    this.dispatch(putOutboxEntry(entry));
+    if (this.isLeading()) {
+      this.scheduleOutbox();
+      this.shareOutbox();
+    } else {
+      this.tabs?.post({ type: 'outbox-put', entry });
+    }
+  }
+
+  private shareOutbox(): void {
+    this.share({ type: 'outbox', entries: [...this.outbox.values()] });
+  }
+
+  /** The connection is back — waiting entries go now instead of at the end of their backoff */
+  private retryOutboxNow = (): void => {
+    if (!this.isLeading()) return;
+    const now = Date.now();
+    for (const entry of this.outbox.values()) {
+      if (entry.status === 'pending' && (entry.nextAttemptAt ?? 0) > now) {
+        this.putOutbox({ ...entry, nextAttemptAt: now });
+      }
+    }
+    this.drainOutbox();
+  };
+
+  /** Timer for the earliest due entry — none while offline; the `online` event restarts it */
+  private scheduleOutbox(): void {
+    if (this.outboxTimer) clearTimeout(this.outboxTimer);
+    this.outboxTimer = null;
+    if (this.stopped || !isOnline() || !this.isLeading()) return;
+
+    let due = Infinity;
+    for (const entry of this.outbox.values()) {
+      if (entry.status === 'pending' && entry.nextAttemptAt !== null) due = Math.min(due, entry.nextAttemptAt);
+    }
+    if (due === Infinity) return;
+    this.outboxTimer = setTimeout(() => this.drainOutbox(), Math.max(0, due - Date.now()));
+  }
+
+  /** Send every due entry, one at a time, oldest first — the leader's job only */
+  private async drainOutbox(): Promise<void> {
+    if (this.outboxDraining || !this.isLeading()) return;
+    this.outboxDraining = true;
+    try {
+      for (const id of [...this.outbox.keys()]) {
+        if (this.stopped || !isOnline()) break;
+        const entry = this.outbox.get(id);
+        if (entry?.status !== 'pending' || (entry.nextAttemptAt ?? Infinity) > Date.now()) continue;
+
+        const sending: OutboxEntry = { ...entry, status: 'retrying' };
+        this.putOutbox(sending);
+        const result = await this.sendTransaction(entry.transaction);
+        if (this.outbox.get(id) !== sending) continue; // discarded or resubmitted meanwhile
+
+        if (result.ok) this.discardOutboxEntry(id);
+        else this.putOutbox(afterFailure(sending, result));
+      }
+    } finally {
+      this.outboxDraining = false;
+      this.scheduleOutbox();
+    }
+  }
+
+  // ─── Tabs ─────────────────────────────────────────────────────────────
+
+  /**
+   * This tab won the election — connect to the hub. A follower that was
+   * promoted already has the feed, so it only replays what it missed.
+   */
+  private async lead(): Promise<void> {
+    if (this.stopped) return;
+    if (this.bootstrapTimer) clearTimeout(this.bootstrapTimer);
+    this.bootstrapTimer = null;
+    this.setConnection('connecting');
+    this.scheduleStatsRefresh();
+    this.restoreOutbox();
+
+    const connection = this.connection = new signalR.HubConnectionBuilder()
       .withUrl(HUB_URL)
       .withAutomaticReconnect([0, 2000, 5000, 10000])
       .configureLogging(signalR.LogLevel.Warning)
       .build();
 
-    this.connection.on('ReceiveTransaction', (tx: Transaction) => {
-      this.dispatch(receiveTransaction(this.normalize(tx)));
+    connection.on('ReceiveTransaction', (payload: unknown) => {
+      let tx: Transaction;
+      try {
+        tx = parse(TransactionSchema, payload);
+      } catch (err) {
+        console.error('Dropped malformed ReceiveTransaction event:', err);
+        return;
+      }
+      this.enqueue(tx);
+      this.share({ type: 'transactions', transactions: [tx], live: true });
+      this.listeners.forEach(listener => listener(tx));
     });
 
-    this.connection.onreconnecting(() =>
-      this.dispatch(setConnectionState('connecting')));
+    connection.onreconnecting(() =>
+      this.setConnection('connecting'));
 
-    this.connection.onreconnected(async () => {
-      this.dispatch(setConnectionState('connected'));
-      await this.loadInitialData();
+    connection.onreconnected(async () => {
+      this.setConnection('connected');
+      this.retryOutboxNow();
+      await this.recoverGap();
     });
 
-    this.connection.onclose(() =>
-      this.dispatch(setConnectionState('disconnected')));
+    // Automatic reconnect gave up — keep the page updating over REST
+    connection.onclose(() => {
+      if (this.stopped || connection !== this.connection) return;
+      this.setConnection('disconnected');
+      this.startPolling();
+    });
 
     try {
-      await this.connection.start();
-      this.dispatch(setConnectionState('connected'));
-      await this.loadInitialData();
+      await connection.start();
+      this.setConnection('connected');
+      this.retryOutboxNow();
+      await (this.lastSeenAt === null ? this.loadInitialData() : this.recoverGap());
     } catch (err) {
-      console.error('SignalR connection failed:', err);
-      this.dispatch(setConnectionState('error'));
+      if (this.stopped || connection !== this.connection) return; // stopped mid-negotiation
+      console.error('SignalR connection failed, falling back to polling:', err);
       // Even without WebSocket — load data from REST
       await this.loadInitialData();
+      this.startPolling();
     }
   }
 
-  /** Stop the connection (called on component unmount). */
-  async stop(): Promise<void> {
-    await this.connection?.stop();
+  /** Another tab leads — ask it for what it has, load our own if it doesn't answer */
+  private follow(): void {
+    if (this.stopped) return;
+    this.scheduleStatsRefresh(); // clears any timer — stats come from the leader
+    this.tabs?.post({ type: 'hello' });
+    this.bootstrapTimer = setTimeout(() => {
+      this.bootstrapTimer = null;
+      this.loadInitialData();
+    }, FOLLOWER_BOOTSTRAP_MS);
   }
 
-  // ─── HTTP Methods ──────────────────────────────────────────────────────
+  private onTabMessage(message: TabMessage): void {
+    if (this.stopped) return;
+    const leader = this.isLeading();
 
-  /** Fetch a paginated page and return it (does NOT update Redux — caller decides). */
-  async fetchPage(
-    page: number,
-    pageSize = 50,
-    status?: TransactionStatus,
-  ): Promise<PagedTransactions> {
-    const params = new URLSearchParams({
-      page: String(page),
-      pageSize: String(pageSize),
-      ...(status ? { status } : {}),
-    });
-    const res = await fetch(`${API_URL}?${params}`);
-    if (!res.ok) throw new Error('Failed to fetch page');
-    const data = await res.json();
-
-    if (Array.isArray(data)) {
-      return {
-        items: data, page: 1, pageSize: data.length,
-        totalCount: data.length, totalPages: 1,
-        hasNext: false, hasPrev: false,
-      };
-    }
-    return {
-      items:      data.items      ?? data.Items      ?? [],
-      page:       data.page       ?? data.Page       ?? page,
-      pageSize:   data.pageSize   ?? data.PageSize   ?? pageSize,
-      totalCount: data.totalCount ?? data.TotalCount ?? 0,
-      totalPages: data.totalPages ?? data.TotalPages ?? 1,
-      hasNext:    data.hasNext    ?? data.HasNext    ?? false,
-      hasPrev:    data.hasPrev    ?? data.HasPrev    ?? false,
-    };
-  }
-
-  /** Refresh stats from server and update Redux. */
-  async refreshStats(): Promise<void> {
+    switch (message.type) {
+      case 'hello':
+        if (leader) this.shareState();
+        break;
+      case 'transactions':
+        if (leader) break;
+        for (const tx of message.transactions) this.enqueue(tx);
+        if (message.live) message.transactions.forEach(tx => this.listeners.forEach(listener => listener(tx)));
+        break;
+      case 'snapshot':
+        if (leader) break;
+        if (this.bootstrapTimer) clearTimeout(this.bootstrapTimer);
+        this.bootstrapTimer = null;
+        this.markSeen(message.transactions);
+        this.dispatch(setRecentTransactions(message.transactions));
+        break;
+      case 'stats':
+        if (leader) break;
+        if (message.window !== this.statsWindow) {
+          this.statsWindow = message.window;
+          this.dispatch(setStatsWindow(message.window));
+        }
+        this.dispatch(setStats(message.stats));
+        break;
+      case 'stats-request':
+        if (leader) this.setStatsWindow(message.window);
+        break;
+      case 'connection':
+        if (!leader) this.setConnection(message.state);
+        break;
+      case 'outbox':
+        if (leader) break;
+        this.outbox = new Map(message.entries.map(entry => [entry.id, entry]));
+        this.dispatch(setOutbox(message.entries));
+        break;
+      case 'outbox-put':
+        if (leader) this.putOutbox(message.entry);
+        break;
+      case 'outbox-discard':
+        if (leader) this.discardOutboxEntry(message.id);
+        break;
+    }
+  }
+
+  /** Answer a new follower — the feed as this tab shows it (queued events too), stats, connection and outbox */
+  private shareState(): void {
+    const recentTransactions = selectRecentTransactions(this.getState());
+    const { pausedIds, pausedById, dbStats } = this.getState().transactions;
+    const queued = pausedIds.map(id => pausedById[id]);
+    this.share({ type: 'connection', state: this.connectionState });
+    this.share({ type: 'snapshot', transactions: [...recentTransactions, ...queued] });
+    this.share({ type: 'stats', window: this.statsWindow, stats: dbStats });
+    this.shareOutbox();
+  }
+
+  /** Dispatch — and as leader, tell the followers, which mirror it */
+  private setConnection(state: ConnectionState): void {
+    this.connectionState = state;
+    this.dispatch(setConnectionState(state));
+    this.share({ type: 'connection', state });
+  }
+
+  /** Relay to the other tabs — only the leader speaks for the hub */
+  private share(message: TabMessage): void {
+    if (this.isLeading()) this.tabs?.post(message);
+  }
+
+  /** False while the election is still out, as well as for a follower */
+  private isLeading(): boolean {
+    return this.tabs?.isLeader ?? false;
+  }
+
+  // ─── Polling fallback ─────────────────────────────────────────────────
+
+  private startPolling(): void {
+    if (this.stopped || this.pollTimer) return;
+    this.setConnection('polling');
+    this.pollDelay     = POLL_MIN_MS;
+    this.nextUpgradeAt = Date.now() + UPGRADE_RETRY_MS;
+    this.pollTimer     = setTimeout(() => this.poll(), this.pollDelay);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  /**
+   * One polling round. Adaptive: back to POLL_MIN_MS whenever something changed,
+   * doubling up to POLL_MAX_MS while quiet or failing. Every UPGRADE_RETRY_MS
+   * it tries the WebSocket again and stops polling once that succeeds.
+   */
+  private async poll(): Promise<void> {
     try {
-      const res = await fetch(STATS_URL);
-      if (!res.ok) return;
-      const data = await res.json();
-      const stats: DbStats = {
-        total:            data.total            ?? data.Total            ?? 0,
-        completed:        data.completed        ?? data.Completed        ?? 0,
-        failed:           data.failed           ?? data.Failed           ?? 0,
-        pending:          data.pending          ?? data.Pending          ?? 0,
-        volumeByCurrency: data.volumeByCurrency ?? data.VolumeByCurrency ?? {},
-      };
-      this.dispatch(setStats(stats));
+      const changes = await this.catchUp();
+      this.setConnection('polling');
+      if (changes > 0) await this.fetchStats();
+      this.pollDelay = changes > 0 ? POLL_MIN_MS : Math.min(this.pollDelay * 2, POLL_MAX_MS);
     } catch (err) {
-      console.warn('Failed to load stats:', err);
+      console.error('Polling for changes failed:', err);
+      this.setConnection('error');
+      this.pollDelay = Math.min(this.pollDelay * 2, POLL_MAX_MS);
     }
+    if (this.stopped) return;
+
+    if (Date.now() >= this.nextUpgradeAt && await this.tryUpgrade()) return;
+    if (!this.stopped) this.pollTimer = setTimeout(() => this.poll(), this.pollDelay);
   }
 
-  /** Send a single transaction to the API. */
-  async sendTransaction(tx: Transaction): Promise<boolean> {
+  private async tryUpgrade(): Promise<boolean> {
+    this.nextUpgradeAt = Date.now() + UPGRADE_RETRY_MS;
+    const connection = this.connection;
+    if (!connection || connection.state !== signalR.HubConnectionState.Disconnected) return false;
+
     try {
-      const res = await fetch(API_URL, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(tx),
-      });
-      return res.ok;
+      await connection.start();
     } catch {
-      return false;
+      return false; // still blocked — keep polling
     }
-  }
+    if (this.stopped) return true;
 
-  // ─── Private ──────────────────────────────────────────────────────────
+    this.pollTimer = null;
+    this.setConnection('connected');
+    this.retryOutboxNow();
+    // Anything published between the last poll and the hub joining
+    await this.recoverGap();
+    return true;
+  }
 
   private async loadInitialData(): Promise<void> {
     const [page] = await Promise.allSettled([
-      this.fetchPage(1, RECENT_LIMIT),
-      this.refreshStats(),
+      // Snapshot is one page; a larger buffer fills up from live events
+      this.fetchPage(1, Math.min(this.recentLimit, MAX_PAGE_SIZE)),
+      this.fetchStats(),
     ]);
     if (page.status === 'fulfilled') {
+      this.markSeen(page.value.items);
       this.dispatch(setRecentTransactions(page.value.items));
+      this.share({ type: 'snapshot', transactions: page.value.items });
+    } else {
+      console.error('Failed to load recent transactions:', page.reason);
     }
   }
+}
 
-  /** Normalize camelCase vs PascalCase from backend. */
-  private normalize(tx: Transaction): Transaction {
-    return {
-      transactionId: tx.transactionId ?? (tx as never as Record<string, string>)['TransactionId'],
-      amount:        tx.amount        ?? (tx as never as Record<string, number>)['Amount'],
-      currency:      tx.currency      ?? (tx as never as Record<string, string>)['Currency'],
-      status:        tx.status        ?? (tx as never as Record<string, string>)['Status'] as Transaction['status'],
-      timestamp:     tx.timestamp     ?? (tx as never as Record<string, string>)['Timestamp'],
-    };
-  }
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
 }
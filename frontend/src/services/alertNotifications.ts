@@ -0,0 +1,50 @@
+// services/alertNotifications.ts
+// Browser-side alert delivery — desktop notifications and a short beep.
+// Both are best-effort: unsupported or denied simply means the panel is the only channel.
+
+import type { Alert } from '../types/transaction';
+
+const SOUND_THROTTLE_MS = 1000; // a burst of alerts beeps once, not fifty times
+
+let audio: AudioContext | null = null;
+let lastBeepAt = 0;
+
+export function notificationsSupported(): boolean {
+  return typeof window !== 'undefined' && 'Notification' in window;
+}
+
+/**
+ * Ask for notification permission — call from a click handler,
+ * browsers ignore (or penalise) requests without a user gesture.
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!notificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+export function showNotification(alert: Alert): void {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  // Same tag per rule — a burst replaces the previous notification instead of stacking
+  new Notification(`🔔 ${alert.ruleName}`, { body: alert.message, tag: alert.ruleId });
+}
+
+export function playAlertSound(): void {
+  const now = Date.now();
+  if (now - lastBeepAt < SOUND_THROTTLE_MS) return;
+  lastBeepAt = now;
+
+  try {
+    audio ??= new AudioContext();
+    const osc  = audio.createOscillator();
+    const gain = audio.createGain();
+    osc.frequency.value = 880;
+    gain.gain.setValueAtTime(0.15, audio.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, audio.currentTime + 0.3);
+    osc.connect(gain).connect(audio.destination);
+    osc.start();
+    osc.stop(audio.currentTime + 0.3);
+  } catch (err) {
+    console.error('Failed to play alert sound:', err);
+  }
+}
@@ -0,0 +1,162 @@
+// services/alertRules.ts
+// Client-side alert rules — matching, rolling-window rates and the stored-rule schema.
+// Pure logic: no Redux, no DOM. The alert listener feeds it events and dispatches the result.
+
+import {
+  array, boolean, decimal, integer, object, oneOf, optional, parse, string,
+  type Schema,
+} from './schema';
+import { compareDecimal } from './decimal';
+import { formatMoney } from './formatting';
+import {
+  TRANSACTION_STATUSES,
+  type Alert,
+  type AlertCondition,
+  type AlertRule,
+  type Transaction,
+} from '../types/transaction';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+/** Match alerts already raised, remembered so replayed events don't alert twice */
+const MAX_REMEMBERED = 5_000;
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'large-failure', name: 'Large failure', enabled: true,
+    condition: { status: 'Failed', currency: 'USD', minAmount: '10000' },
+    notify: false, sound: false,
+  },
+  {
+    id: 'failure-burst', name: 'Failure burst', enabled: true,
+    condition: { status: 'Failed' },
+    rate: { count: 20, windowSec: 60 },
+    notify: false, sound: false,
+  },
+];
+
+// ─── Schema ───────────────────────────────────────────────────────────────
+
+/** Rules as stored with the Monitor state (services/monitorState) */
+export const AlertRuleSchema: Schema<AlertRule> = object({
+  id:      string,
+  name:    string,
+  enabled: boolean,
+  condition: object({
+    status:    optional(oneOf(TRANSACTION_STATUSES)),
+    currency:  optional(string),
+    minAmount: optional(decimal),
+    maxAmount: optional(decimal),
+  }),
+  rate: optional(object({
+    count:     integer,
+    windowSec: integer,
+  })),
+  notify: boolean,
+  sound:  boolean,
+});
+
+// ─── Matching ─────────────────────────────────────────────────────────────
+
+export function matchesCondition(condition: AlertCondition, tx: Transaction): boolean {
+  const { status, currency, minAmount, maxAmount } = condition;
+  if (status && tx.status !== status) return false;
+  if (currency && tx.currency.toUpperCase() !== currency.toUpperCase()) return false;
+  if (minAmount !== undefined && compareDecimal(tx.amount, minAmount) < 0) return false;
+  if (maxAmount !== undefined && compareDecimal(tx.amount, maxAmount) > 0) return false;
+  return true;
+}
+
+/** One-line summary of a rule, e.g. "Failed · USD · ≥ 10000 · > 20 in 60s" */
+export function describeRule(rule: AlertRule): string {
+  const { status, currency, minAmount, maxAmount } = rule.condition;
+  const parts = [
+    status ?? 'Any status',
+    currency,
+    minAmount !== undefined ? `≥ ${minAmount}` : undefined,
+    maxAmount !== undefined ? `≤ ${maxAmount}` : undefined,
+    rule.rate ? `> ${rule.rate.count} in ${rule.rate.windowSec}s` : undefined,
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+// ─── Engine ───────────────────────────────────────────────────────────────
+
+/**
+ * AlertEngine — evaluates rules against incoming events.
+ *
+ * Keeps the per-rule rolling windows and a memory of what already alerted, so the
+ * same event seen twice (reconnect replay, polling overlap) raises nothing new.
+ * Rate windows use arrival time: "20 failures per minute" means per minute of feed.
+ */
+export class AlertEngine {
+  /** Arrival times of recent matches, per rate rule */
+  private windows = new Map<string, number[]>();
+  /** `${ruleId}|${transactionId}|${status}|${timestamp}` — events already counted */
+  private seen = new Set<string>();
+  private sequence = 0;
+
+  evaluate(rules: AlertRule[], txs: Transaction[], now = Date.now()): Alert[] {
+    const alerts: Alert[] = [];
+
+    for (const rule of rules) {
+      if (!rule.enabled) continue;
+
+      for (const tx of txs) {
+        if (!matchesCondition(rule.condition, tx)) continue;
+        if (!this.remember(`${rule.id}|${tx.transactionId}|${tx.status}|${tx.timestamp}`)) continue;
+
+        if (!rule.rate) {
+          alerts.push(this.alert(rule, now, describeMatch(tx), tx.transactionId));
+          continue;
+        }
+
+        const cutoff = now - rule.rate.windowSec * 1000;
+        const window = (this.windows.get(rule.id) ?? []).filter(at => at > cutoff);
+        window.push(now);
+
+        if (window.length > rule.rate.count) {
+          alerts.push(this.alert(rule, now,
+            `${window.length} matches in the last ${rule.rate.windowSec}s`, tx.transactionId));
+          // Start counting afresh — one alert per burst, not one per event in it
+          this.windows.set(rule.id, []);
+        } else {
+          this.windows.set(rule.id, window);
+        }
+      }
+    }
+
+    return alerts;
+  }
+
+  /** Forget a rule's window — call when the rule is edited or removed. */
+  reset(ruleId: string): void {
+    this.windows.delete(ruleId);
+  }
+
+  private remember(key: string): boolean {
+    if (this.seen.has(key)) return false;
+    if (this.seen.size >= MAX_REMEMBERED) {
+      // Set iterates in insertion order — drop the oldest
+      this.seen.delete(this.seen.values().next().value!);
+    }
+    this.seen.add(key);
+    return true;
+  }
+
+  private alert(rule: AlertRule, now: number, message: string, transactionId?: string): Alert {
+    return {
+      id:           `${rule.id}-${now}-${this.sequence++}`,
+      ruleId:       rule.id,
+      ruleName:     rule.name,
+      message,
+      transactionId,
+      triggeredAt:  new Date(now).toISOString(),
+      acknowledged: false,
+    };
+  }
+}
+
+function describeMatch(tx: Transaction): string {
+  return `${tx.status} ${formatMoney(tx.amount, tx.currency)} · ${tx.transactionId.slice(0, 8)}…`;
+}
@@ -0,0 +1,124 @@
+// services/decimal.ts
+// Exact decimal arithmetic on amount strings — no floating-point rounding.
+// Amounts stay plain strings in Redux (serializable); BigInt only lives inside these helpers.
+
+import type { Decimal } from '../types/currency';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+export const ZERO: Decimal = '0';
+
+/** Fraction digits kept by divideDecimal — enough for wei (ETH) */
+const DIVISION_SCALE = 18;
+
+/** Exponents beyond this are rejected rather than expanded into huge strings */
+const MAX_EXPONENT = 100;
+
+const DECIMAL_RE = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+// ─── Parsing ──────────────────────────────────────────────────────────────
+
+/**
+ * Canonical decimal string for `input` — "1500.5", "0.00012345", "-3" — or null
+ * when it isn't a number. Accepts exponents ("1e-8") and finite JS numbers
+ * (taken at their shortest round-trip form, so 0.1 stays "0.1").
+ */
+export function parseDecimal(input: string | number): Decimal | null {
+  if (typeof input === 'number') {
+    if (!Number.isFinite(input)) return null;
+    input = String(input);
+  }
+  const m = DECIMAL_RE.exec(input.trim());
+  if (!m) return null;
+
+  const [, sign, int = '', frac = '', exp] = m;
+  if (int === '' && frac === '') return null;
+  const exponent = exp ? Number(exp) : 0;
+  if (Math.abs(exponent) > MAX_EXPONENT) return null;
+
+  let digits = int + frac;
+  let scale  = frac.length - exponent;
+  if (scale < 0) {
+    digits += '0'.repeat(-scale);
+    scale = 0;
+  }
+  return fromFixed({ units: BigInt((sign === '-' ? '-' : '') + (digits || '0')), scale });
+}
+
+/** For charts, ratios and FX — anything that is approximate anyway. */
+export function decimalToNumber(value: Decimal): number {
+  return Number(value);
+}
+
+// ─── Arithmetic ───────────────────────────────────────────────────────────
+
+export function addDecimal(a: Decimal, b: Decimal): Decimal {
+  const [x, y, scale] = align(a, b);
+  return fromFixed({ units: x + y, scale });
+}
+
+export function subtractDecimal(a: Decimal, b: Decimal): Decimal {
+  const [x, y, scale] = align(a, b);
+  return fromFixed({ units: x - y, scale });
+}
+
+/** Negative, zero or positive as a < b, a = b, a > b */
+export function compareDecimal(a: Decimal, b: Decimal): number {
+  const [x, y] = align(a, b);
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/** a × n for an integer n (e.g. an average times its count) */
+export function multiplyDecimal(a: Decimal, n: number): Decimal {
+  const { units, scale } = toFixed(a);
+  return fromFixed({ units: units * BigInt(n), scale });
+}
+
+/** a ÷ n for a non-zero integer n, rounded half away from zero to 18 places */
+export function divideDecimal(a: Decimal, n: number): Decimal {
+  const { units, scale } = toFixed(a);
+  const scaled  = units * 10n ** BigInt(Math.max(DIVISION_SCALE - scale, 0));
+  const divisor = BigInt(n);
+  let quotient  = scaled / divisor;
+  const remainder = scaled % divisor;
+  const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+  if (twice >= (divisor < 0n ? -divisor : divisor)) {
+    quotient += (scaled < 0n) !== (divisor < 0n) ? -1n : 1n;
+  }
+  return fromFixed({ units: quotient, scale: Math.max(DIVISION_SCALE, scale) });
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/** `units` × 10^-scale */
+interface Fixed {
+  units: bigint;
+  scale: number;
+}
+
+/** Canonical strings only — run untrusted input through parseDecimal first. */
+function toFixed(value: Decimal): Fixed {
+  const negative = value.startsWith('-');
+  const [int, frac = ''] = (negative ? value.slice(1) : value).split('.');
+  const units = BigInt(int + frac);
+  return { units: negative ? -units : units, scale: frac.length };
+}
+
+function fromFixed({ units, scale }: Fixed): Decimal {
+  const negative = units < 0n;
+  const digits = (negative ? -units : units).toString().padStart(scale + 1, '0');
+  const int  = digits.slice(0, digits.length - scale);
+  const frac = digits.slice(digits.length - scale).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${int}${frac ? `.${frac}` : ''}`;
+}
+
+function align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+  const x = toFixed(a);
+  const y = toFixed(b);
+  const scale = Math.max(x.scale, y.scale);
+  return [
+    x.units * 10n ** BigInt(scale - x.scale),
+    y.units * 10n ** BigInt(scale - y.scale),
+    scale,
+  ];
+}
@@ -0,0 +1,182 @@
+// services/exportDownload.ts
+// Streams an export response to a file. Where the File System Access API exists
+// (Chromium) chunks go straight to disk as they arrive; elsewhere they are
+// collected as Blob parts and handed to a regular download at the end — held
+// in memory until then, so those exports are capped at MEMORY_EXPORT_MAX_ROWS.
+
+import type { ExportFormat, ExportResponse } from '../types/transaction';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+/** Minimum gap between progress callbacks — chunks arrive far faster than React needs */
+const PROGRESS_INTERVAL_MS = 100;
+
+/** Lines that aren't rows: the CSV header, JSON's "[" and "]" */
+const FRAMING_LINES: Record<ExportFormat, number> = { csv: 1, json: 2, ndjson: 0 };
+
+const FILE_TYPES: Record<ExportFormat, { description: string; mime: string }> = {
+  csv:    { description: 'CSV',    mime: 'text/csv' },
+  json:   { description: 'JSON',   mime: 'application/json' },
+  ndjson: { description: 'NDJSON', mime: 'application/x-ndjson' },
+};
+
+const NEWLINE = 0x0a;
+
+/** Most rows the in-memory fallback takes — a few hundred bytes each, so tens of MB */
+export const MEMORY_EXPORT_MAX_ROWS = 100_000;
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export interface ExportProgress {
+  rows:  number;
+  /** Rows matching when the export started — null when the server didn't say */
+  total: number | null;
+  bytes: number;
+}
+
+/** Where the bytes go — a file on disk, or Blob parts downloaded on close */
+export interface ExportSink {
+  /** Rows this sink can hold — null when it writes to disk */
+  readonly maxRows: number | null;
+  write(chunk: Uint8Array<ArrayBuffer>): Promise<void>;
+  close(fileName: string): Promise<void>;
+  abort(): Promise<void>;
+}
+
+/** Not in lib.dom yet — Chromium only */
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+// ─── Sinks ────────────────────────────────────────────────────────────────
+
+/** Whether exports can stream to disk here, or fall back to memory (and MEMORY_EXPORT_MAX_ROWS) */
+export function canStreamToDisk(): boolean {
+  return typeof (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker === 'function';
+}
+
+/**
+ * Ask where to save — call straight from the click handler, before any await,
+ * or the browser refuses the picker. Resolves null if the user cancels it.
+ */
+export async function openExportSink(format: ExportFormat, suggestedName: string): Promise<ExportSink | null> {
+  const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+  if (!picker) return blobSink();
+
+  const type = FILE_TYPES[format];
+  try {
+    const handle = await picker({
+      suggestedName,
+      types: [{ description: type.description, accept: { [type.mime]: [`.${format}`] } }],
+    });
+    return fileSink(await handle.createWritable());
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') return null;
+    throw err;
+  }
+}
+
+function fileSink(writable: FileSystemWritableFileStream): ExportSink {
+  return {
+    maxRows: null,
+    write: chunk => writable.write(chunk),
+    close: () => writable.close(),
+    // Discards the partially written file instead of leaving half an export behind
+    abort: () => writable.abort(),
+  };
+}
+
+/** Fallback — the browser may page large Blobs to disk, but nothing is saved until the end */
+function blobSink(): ExportSink {
+  let parts: Uint8Array<ArrayBuffer>[] = [];
+  return {
+    maxRows: MEMORY_EXPORT_MAX_ROWS,
+    write: async chunk => { parts.push(chunk); },
+    close: async fileName => {
+      const blob = new Blob(parts);
+      parts = [];
+      downloadBlob(blob, fileName);
+    },
+    abort: async () => { parts = []; },
+  };
+}
+
+/** Hand a Blob to the browser as a download named `fileName` */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  // Give the download a moment to start before the URL is revoked
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// ─── Streaming ────────────────────────────────────────────────────────────
+
+/**
+ * Pipe `response.body` into `sink`, reporting progress by counting newlines —
+ * the server writes one row per line in every format. Aborting `signal` cancels
+ * the download and discards the sink; the returned promise then rejects with AbortError.
+ * An export over `sink.maxRows` fails up front when the server sent a total,
+ * otherwise as soon as it passes the limit.
+ */
+export async function streamExport(
+  response: ExportResponse,
+  format: ExportFormat,
+  sink: ExportSink,
+  onProgress: (progress: ExportProgress) => void,
+  signal?: AbortSignal,
+): Promise<ExportProgress> {
+  const reader  = response.body.getReader();
+  const framing = FRAMING_LINES[format];
+  let lines = 0;
+  let bytes = 0;
+  let lastReport = 0;
+
+  const progress = (): ExportProgress =>
+    ({ rows: Math.max(0, lines - framing), total: response.total, bytes });
+
+  try {
+    if (sink.maxRows !== null && response.total !== null && response.total > sink.maxRows) {
+      throw tooLarge(sink.maxRows);
+    }
+    for (;;) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      await sink.write(value);
+      bytes += value.byteLength;
+      for (let i = 0; i < value.length; i++) if (value[i] === NEWLINE) lines++;
+      if (sink.maxRows !== null && progress().rows > sink.maxRows) throw tooLarge(sink.maxRows);
+
+      const now = Date.now();
+      if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress(progress());
+      }
+    }
+  } catch (err) {
+    await reader.cancel().catch(() => undefined);
+    await sink.abort().catch(() => undefined);
+    throw err;
+  }
+
+  await sink.close(response.fileName);
+  const final = progress();
+  onProgress(final);
+  return final;
+}
+
+function tooLarge(maxRows: number): Error {
+  return new Error(
+    `This browser can only export up to ${maxRows.toLocaleString()} rows — narrow the filters, or use a Chromium browser to save straight to disk`);
+}
+
+/** Client-side name for the save dialog — the server's Content-Disposition names the fallback download */
+export function exportFileName(format: ExportFormat, now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, 'Z');
+  return `transactions-${stamp}.${format}`;
+}
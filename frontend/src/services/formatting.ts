@@ -0,0 +1,66 @@
+// services/formatting.ts
+// Amount formatting on Intl.NumberFormat — the user's locale, each currency's
+// minor units, full or compact. Decimal strings are formatted without going
+// through a double, so satoshis and wei survive to the screen.
+
+import { currencyInfo, type AmountDisplay, type Decimal } from '../types/currency';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+export const DEFAULT_AMOUNT_DISPLAY: AmountDisplay = 'full';
+
+export interface FormatOptions {
+  display?: AmountDisplay;
+  /** BCP 47 tag — defaults to the browser's locale */
+  locale?: string;
+}
+
+// ─── Formatting ───────────────────────────────────────────────────────────
+
+/**
+ * "$1,500.50", "¥1,501", "₿0.00012345", "€1.2M" (compact).
+ * Full display shows up to every minor unit the currency has, and at least
+ * two where it has them — so fiat keeps its cents and crypto isn't padded to 18 zeros.
+ */
+export function formatMoney(amount: Decimal | number, currency: string, options: FormatOptions = {}): string {
+  const info = currencyInfo(currency);
+  if (info.iso) return format(formatter(options, info.code, info.decimals), amount);
+
+  // Intl has no symbols for crypto / unknown codes — sign, then our symbol, then the number
+  const negative = typeof amount === 'number' ? amount < 0 : amount.startsWith('-');
+  const magnitude = typeof amount === 'number' ? Math.abs(amount) : amount.replace(/^-/, '');
+  return `${negative ? '-' : ''}${info.symbol}${format(formatter(options, null, info.decimals), magnitude)}`;
+}
+
+/** A currency-less amount (e.g. an average across currencies) — at most two decimals. */
+export function formatAmount(amount: Decimal | number, options: FormatOptions = {}): string {
+  return format(formatter(options, null, 2), amount);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/** Intl.NumberFormat construction is slow — one per locale / currency / digits / display */
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function formatter({ display = DEFAULT_AMOUNT_DISPLAY, locale }: FormatOptions, currency: string | null, decimals: number) {
+  const key = `${locale ?? ''}|${currency ?? ''}|${decimals}|${display}`;
+  let fmt = formatters.get(key);
+  if (!fmt) {
+    const digits: Intl.NumberFormatOptions = display === 'compact'
+      ? { notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: Math.min(decimals, 1) }
+      : { minimumFractionDigits: Math.min(decimals, 2), maximumFractionDigits: decimals };
+    fmt = new Intl.NumberFormat(locale, currency
+      ? { style: 'currency', currency, currencyDisplay: 'narrowSymbol', ...digits }
+      : digits);
+    formatters.set(key, fmt);
+  }
+  return fmt;
+}
+
+/**
+ * Intl.NumberFormat formats numeric strings exactly (ES2023). The lib typings
+ * here only declare number | bigint; older engines coerce the string to a number.
+ */
+function format(fmt: Intl.NumberFormat, amount: Decimal | number): string {
+  return (fmt.format as (value: Decimal | number) => string)(amount);
+}
@@ -0,0 +1,74 @@
+// services/fxRates.ts
+// FX rates provider and conversion into the reporting currency.
+// The provider fetches a rates table (a static file by default, any endpoint serving
+// the same shape works); conversion is pure and never touches Redux.
+
+import { isoDateTime, number, object, parse, record, string, type Schema } from './schema';
+import { decimalToNumber } from './decimal';
+import type { Decimal, FxRates } from '../types/currency';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+/** Served from public/ — point the provider at an API endpoint to use live rates */
+const FX_RATES_URL = '/fx-rates.json';
+
+// ─── Provider ─────────────────────────────────────────────────────────────
+
+const FxRatesSchema: Schema<FxRates> = object({
+  base:  string,
+  asOf:  isoDateTime,
+  rates: record(number),
+});
+
+/**
+ * FxRatesProvider — loads and validates the rates table.
+ * A non-2xx response throws; a malformed table throws SchemaError.
+ */
+export class FxRatesProvider {
+  private readonly url: string;
+
+  constructor(url = FX_RATES_URL) {
+    this.url = url;
+  }
+
+  async load(): Promise<FxRates> {
+    const res = await fetch(this.url, { cache: 'no-cache' });
+    if (!res.ok) throw new Error(`FX rates: ${res.status} ${res.statusText}`);
+    const rates = parse(FxRatesSchema, await res.json());
+    // The base must convert to itself, whatever the table says
+    return { ...rates, rates: { ...rates.rates, [rates.base]: 1 } };
+  }
+}
+
+// ─── Conversion ───────────────────────────────────────────────────────────
+
+/**
+ * `amount` of `from` in `to` — null when either currency has no (positive) rate.
+ * A number: rates are approximate, so converted figures are for display only.
+ */
+export function convert(amount: Decimal, from: string, to: string, fx: FxRates | null): number | null {
+  if (from === to) return decimalToNumber(amount);
+  const fromRate = fx?.rates[from];
+  const toRate   = fx?.rates[to];
+  if (!fromRate || !toRate || fromRate <= 0 || toRate <= 0) return null;
+  return (decimalToNumber(amount) / fromRate) * toRate;
+}
+
+/**
+ * Sum of per-currency amounts in `to`. Currencies without a rate are left out
+ * of `total` and listed in `missing`, so callers can say the total is partial.
+ */
+export function convertTotal(
+  byCurrency: Record<string, Decimal>,
+  to: string,
+  fx: FxRates | null,
+): { total: number; missing: string[] } {
+  let total = 0;
+  const missing: string[] = [];
+  for (const [cur, amt] of Object.entries(byCurrency)) {
+    const converted = convert(amt, cur, to, fx);
+    if (converted === null) missing.push(cur);
+    else total += converted;
+  }
+  return { total, missing };
+}
@@ -0,0 +1,69 @@
+// services/idb.ts
+// Promise wrapper over the app's IndexedDB database. Every object store is
+// created in `upgrade` — bump DB_VERSION when adding one.
+
+const DB_NAME    = 'finmonitor';
+const DB_VERSION = 1;
+
+export type StoreName = 'outbox';
+
+function upgrade(db: IDBDatabase): void {
+  if (!db.objectStoreNames.contains('outbox')) db.createObjectStore('outbox', { keyPath: 'id' });
+}
+
+let opening: Promise<IDBDatabase> | null = null;
+
+/** The shared connection — rejects where IndexedDB is unavailable (some private modes) */
+function openDb(): Promise<IDBDatabase> {
+  if (!opening) {
+    opening = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => {
+        const db = req.result;
+        // Another tab is upgrading — let it, and reopen on next use
+        db.onversionchange = () => { db.close(); opening = null; };
+        resolve(db);
+      };
+      req.onerror = () => reject(req.error);
+    });
+    opening.catch(() => { opening = null; });
+  }
+  return opening;
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  return request(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+export async function put<T>(store: StoreName, value: T): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value);
+  await completion(tx);
+}
+
+export async function remove(store: StoreName, key: IDBValidKey): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  await completion(tx);
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror   = () => reject(req.error);
+  });
+}
+
+/** Resolves once the writes are durable, not merely queued */
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror    = () => reject(tx.error);
+    tx.onabort    = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
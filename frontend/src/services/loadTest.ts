@@ -0,0 +1,445 @@
+// services/loadTest.ts
+// Load-test scenarios for the simulator: flat-out or paced at a target rate
+// with an optional ramp-up, a weighted mix of statuses and currencies, and a
+// share of status-change upserts to IDs the run already created. Measures
+// latency per request and the time until each transaction comes back on the
+// live feed.
+
+import { MAX_BATCH_SIZE } from './transactionUpsert';
+import { CURRENCY_CODES } from '../types/currency';
+import {
+  TRANSACTION_STATUSES,
+  type BatchUpsertResult,
+  type SendResult,
+  type Transaction,
+  type TransactionStatus,
+} from '../types/transaction';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+export const MAX_LOAD_TOTAL       = 100_000;
+export const MAX_LOAD_CONCURRENCY = 50;
+export const MAX_LOAD_BATCH_SIZE  = MAX_BATCH_SIZE;
+
+/** Ramps start at this fraction of the target rate */
+const RAMP_FLOOR = 0.1;
+const RAMP_STEPS = 4;
+const PACE_TICK_MS = 10;
+/** After the last send, how long to keep waiting for stragglers on the feed */
+const FEED_GRACE_MS = 5000;
+/** Status-change upserts pick from at most this many IDs the run created */
+const UPDATE_POOL_SIZE = 1000;
+const PROGRESS_INTERVAL_MS = 100;
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** One POST per transaction, or up to `batchSize` per POST /batch */
+export type SendMode = 'single' | 'batched';
+
+/** How the rate climbs to the target over `rampSeconds` — linearly, or in four equal steps */
+export type RampProfile = 'none' | 'linear' | 'step';
+export const RAMP_PROFILES: RampProfile[] = ['none', 'linear', 'step'];
+
+export interface LoadScenario {
+  name:            string;
+  mode:            SendMode;
+  total:           number;
+  /** Requests in flight at most */
+  concurrency:     number;
+  /** Transactions per request in batched mode */
+  batchSize:       number;
+  /** Target tx/sec — null sends as fast as `concurrency` allows (no ramp) */
+  rate:            number | null;
+  ramp:            RampProfile;
+  rampSeconds:     number;
+  statusWeights:   Record<TransactionStatus, number>;
+  currencyWeights: Record<string, number>;
+  /** 0–1 — share of sends that change the status of an ID this run already created */
+  updateShare:     number;
+}
+
+/** Milliseconds, nearest-rank percentiles */
+export interface LatencySummary {
+  count: number;
+  min:   number;
+  mean:  number;
+  p50:   number;
+  p95:   number;
+  p99:   number;
+  max:   number;
+}
+
+export interface LoadTestProgress {
+  sent:      number;
+  total:     number;
+  succeeded: number;
+  failed:    number;
+}
+
+export interface LoadTestReport {
+  id:             string;
+  scenario:       LoadScenario;
+  startedAt:      string;
+  /** First request to last response — the feed grace period is not included */
+  durationMs:     number;
+  sent:           number;
+  succeeded:      number;
+  failed:         number;
+  /** Status-change upserts among `sent` */
+  updates:        number;
+  requests:       number;
+  /** Succeeded transactions per second */
+  txPerSecond:    number;
+  requestLatency: LatencySummary | null;
+  /** Request start until the transaction's ReceiveTransaction event */
+  feedLatency:    LatencySummary | null;
+  /** Succeeded sends never seen on the live feed */
+  feedMissing:    number;
+  /** Failures grouped by the server's (or the network's) message, most frequent first */
+  failureReasons: { reason: string; count: number }[];
+  cancelled:      boolean;
+}
+
+/** What a run needs from TransactionHubService */
+export interface LoadTarget {
+  sendTransaction(tx: Transaction): Promise<SendResult>;
+  sendBatch(txs: Transaction[]): Promise<BatchUpsertResult>;
+  /** Live feed events — without it the run has no feed latency */
+  onTransaction?(listener: (tx: Transaction) => void): () => void;
+}
+
+// ─── Scenarios ────────────────────────────────────────────────────────────
+
+const EVEN_CURRENCIES = Object.fromEntries(CURRENCY_CODES.map(c => [c, 1]));
+
+export const DEFAULT_SCENARIO: LoadScenario = {
+  name:            'Burst',
+  mode:            'single',
+  total:           100,
+  concurrency:     10,
+  batchSize:       100,
+  rate:            null,
+  ramp:            'none',
+  rampSeconds:     0,
+  statusWeights:   { Pending: 1, Completed: 1, Failed: 1 },
+  currencyWeights: EVEN_CURRENCIES,
+  updateShare:     0,
+};
+
+/** Keyed by the name the CLI's --scenario takes */
+export const SCENARIO_PRESETS: Record<string, LoadScenario> = {
+  burst: DEFAULT_SCENARIO,
+  steady: {
+    ...DEFAULT_SCENARIO,
+    name:            'Steady 50 tx/s',
+    total:           3000,
+    rate:            50,
+    statusWeights:   { Pending: 2, Completed: 7, Failed: 1 },
+  },
+  ramp: {
+    ...DEFAULT_SCENARIO,
+    name:            'Ramp to 500 tx/s',
+    mode:            'batched',
+    total:           20_000,
+    concurrency:     4,
+    batchSize:       50,
+    rate:            500,
+    ramp:            'linear',
+    rampSeconds:     30,
+    statusWeights:   { Pending: 2, Completed: 7, Failed: 1 },
+  },
+  churn: {
+    ...DEFAULT_SCENARIO,
+    name:            'Settlement churn',
+    total:           2000,
+    rate:            20,
+    ramp:            'step',
+    rampSeconds:     20,
+    statusWeights:   { Pending: 6, Completed: 3, Failed: 1 },
+    currencyWeights: { ...Object.fromEntries(CURRENCY_CODES.map(c => [c, 0])), USD: 5, EUR: 3, GBP: 2 },
+    updateShare:     0.5,
+  },
+};
+
+/** Why `scenario` can't run, or null */
+export function scenarioError(scenario: LoadScenario): string | null {
+  if (!(scenario.total >= 1 && scenario.total <= MAX_LOAD_TOTAL)) return `Transactions must be 1–${MAX_LOAD_TOTAL.toLocaleString()}`;
+  if (!(scenario.concurrency >= 1 && scenario.concurrency <= MAX_LOAD_CONCURRENCY)) return `Concurrency must be 1–${MAX_LOAD_CONCURRENCY}`;
+  if (scenario.mode === 'batched' && !(scenario.batchSize >= 1 && scenario.batchSize <= MAX_LOAD_BATCH_SIZE)) {
+    return `Batch size must be 1–${MAX_LOAD_BATCH_SIZE}`;
+  }
+  if (scenario.rate !== null && !(scenario.rate > 0)) return 'Target rate must be positive';
+  if (scenario.ramp !== 'none' && !(scenario.rampSeconds > 0)) return 'Ramp-up needs a duration';
+  if (!Object.values(scenario.statusWeights).some(w => w > 0))   return 'Give at least one status a weight';
+  if (!Object.values(scenario.currencyWeights).some(w => w > 0)) return 'Give at least one currency a weight';
+  return null;
+}
+
+// ─── Generation ───────────────────────────────────────────────────────────
+
+/** A new transaction drawn from the scenario's status and currency mix */
+export function randomTransaction(
+  mix: Pick<LoadScenario, 'statusWeights' | 'currencyWeights'> = DEFAULT_SCENARIO,
+): Transaction {
+  return {
+    transactionId: crypto.randomUUID(),
+    amount:        (Math.random() * 10000 + 10).toFixed(2),
+    currency:      pickWeighted(mix.currencyWeights) ?? 'USD',
+    status:        pickWeighted(mix.statusWeights) ?? 'Completed',
+    timestamp:     new Date().toISOString(),
+  };
+}
+
+/**
+ * The same transaction moved to another status — weighted by the mix, falling
+ * back to any other status. Stamped after the previous version so it isn't stale.
+ */
+function statusChange(prev: Transaction, weights: Record<TransactionStatus, number>): Transaction {
+  const others = { ...weights, [prev.status]: 0 };
+  const status = pickWeighted(others)
+    ?? TRANSACTION_STATUSES.filter(s => s !== prev.status)[Math.floor(Math.random() * (TRANSACTION_STATUSES.length - 1))];
+  const at = Math.max(Date.now(), Date.parse(prev.timestamp) + 1);
+  return { ...prev, status, timestamp: new Date(at).toISOString() };
+}
+
+/** A key drawn in proportion to its weight — null when every weight is zero */
+export function pickWeighted<K extends string>(weights: Record<K, number>): K | null {
+  const entries = (Object.entries(weights) as [K, number][]).filter(([, w]) => w > 0);
+  let r = Math.random() * entries.reduce((sum, [, w]) => sum + w, 0);
+  for (const [key, w] of entries) {
+    if ((r -= w) < 0) return key;
+  }
+  return entries.length > 0 ? entries[entries.length - 1][0] : null;
+}
+
+// ─── Pacing ───────────────────────────────────────────────────────────────
+
+/** How many transactions should have gone out `elapsedMs` into the run */
+export function plannedCount(scenario: LoadScenario, elapsedMs: number): number {
+  if (scenario.rate === null) return Infinity;
+  const rate = scenario.rate;
+  const t = elapsedMs / 1000;
+  const ramp = scenario.ramp === 'none' ? 0 : scenario.rampSeconds;
+  if (t >= ramp) return rampedCount(scenario, ramp) + rate * (t - ramp);
+  return rampedCount(scenario, t);
+}
+
+/** Transactions sent in the first `t` seconds of the ramp (t ≤ rampSeconds) */
+function rampedCount(scenario: LoadScenario, t: number): number {
+  const rate = scenario.rate ?? 0;
+  const ramp = scenario.rampSeconds;
+  if (t <= 0) return 0;
+
+  if (scenario.ramp === 'linear') {
+    const floor = rate * RAMP_FLOOR;
+    return floor * t + ((rate - floor) * t * t) / (2 * ramp);
+  }
+  // 'step' — RAMP_STEPS equal steps at 1/n, 2/n … of the target
+  const stepSeconds = ramp / RAMP_STEPS;
+  const full = Math.min(Math.floor(t / stepSeconds), RAMP_STEPS);
+  let count = 0;
+  for (let i = 0; i < full; i++) count += (rate * (i + 1)) / RAMP_STEPS * stepSeconds;
+  if (full < RAMP_STEPS) count += (rate * (full + 1)) / RAMP_STEPS * (t - full * stepSeconds);
+  return count;
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────
+
+/**
+ * Run `scenario` against `target`. Up to `concurrency` requests are in flight;
+ * with a target rate each waits for its slot in the plan. Aborting `signal`
+ * stops new requests — in-flight ones finish and are counted. Once sending
+ * is done, waits up to FEED_GRACE_MS for outstanding feed events. Never throws.
+ */
+export async function runLoadTest(
+  scenario: LoadScenario,
+  target: LoadTarget,
+  options: {
+    signal?:     AbortSignal;
+    onProgress?: (progress: LoadTestProgress) => void;
+  } = {},
+): Promise<LoadTestReport> {
+  const { signal, onProgress } = options;
+  const startedAt = new Date().toISOString();
+  const start = performance.now();
+  const perRequest = scenario.mode === 'batched' ? scenario.batchSize : 1;
+
+  const requestMs: number[] = [];
+  const feedMs:    number[] = [];
+  /** Sent and not yet seen on the feed — request start time by feedKey */
+  const awaiting = new Map<string, number>();
+  /** Latest version of IDs this run created, for status-change upserts */
+  const pool: Transaction[] = [];
+  const reasons = new Map<string, number>();
+  let claimed = 0, sent = 0, succeeded = 0, failed = 0, updates = 0, requests = 0;
+  let lastReport = 0;
+
+  const unsubscribe = target.onTransaction?.(tx => {
+    const key = feedKey(tx);
+    const at = awaiting.get(key);
+    if (at === undefined) return;
+    feedMs.push(performance.now() - at);
+    awaiting.delete(key);
+  });
+
+  const next = (): Transaction => {
+    if (pool.length > 0 && Math.random() < scenario.updateShare) {
+      // Taken out while in flight so two requests never race on one ID
+      const i = Math.floor(Math.random() * pool.length);
+      const prev = pool[i];
+      pool[i] = pool[pool.length - 1];
+      pool.pop();
+      updates++;
+      return statusChange(prev, scenario.statusWeights);
+    }
+    return randomTransaction(scenario);
+  };
+
+  /** Per transaction: null when accepted, else why not */
+  const send = async (txs: Transaction[]): Promise<(string | null)[]> => {
+    if (scenario.mode === 'single') {
+      const res = await target.sendTransaction(txs[0]);
+      return [res.ok ? null : res.error];
+    }
+    const res = await target.sendBatch(txs);
+    const errors = txs.map((): string | null => 'No result from the server');
+    for (const r of res.results) errors[r.index] = r.outcome === 'Rejected' ? r.error ?? 'Rejected' : null;
+    return errors;
+  };
+
+  const worker = async () => {
+    while (!signal?.aborted && claimed < scenario.total) {
+      const count = Math.min(perRequest, scenario.total - claimed);
+      claimed += count;
+      const due = claimed;
+      while (!signal?.aborted && plannedCount(scenario, performance.now() - start) < due) {
+        await sleep(PACE_TICK_MS);
+      }
+      if (signal?.aborted) return;
+
+      const txs = Array.from({ length: count }, next);
+      const sentAt = performance.now();
+      if (unsubscribe) for (const tx of txs) awaiting.set(feedKey(tx), sentAt);
+      requests++;
+      const errors = await send(txs);
+      requestMs.push(performance.now() - sentAt);
+
+      errors.forEach((error, i) => {
+        const tx = txs[i];
+        if (error === null) {
+          succeeded++;
+          pool.push(tx);
+          if (pool.length > UPDATE_POOL_SIZE) pool.shift();
+        } else {
+          failed++;
+          reasons.set(error, (reasons.get(error) ?? 0) + 1);
+          awaiting.delete(feedKey(tx));
+        }
+      });
+      sent += count;
+
+      const now = performance.now();
+      if (onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress({ sent, total: scenario.total, succeeded, failed });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: scenario.concurrency }, worker));
+  const durationMs = performance.now() - start;
+  onProgress?.({ sent, total: scenario.total, succeeded, failed });
+
+  const graceEnd = performance.now() + FEED_GRACE_MS;
+  while (awaiting.size > 0 && !signal?.aborted && performance.now() < graceEnd) await sleep(50);
+  unsubscribe?.();
+
+  return {
+    id:             crypto.randomUUID(),
+    scenario,
+    startedAt,
+    durationMs:     Math.round(durationMs),
+    sent,
+    succeeded,
+    failed,
+    updates,
+    requests,
+    txPerSecond:    durationMs > 0 ? Math.round((succeeded / durationMs) * 1000) : 0,
+    requestLatency: summarizeLatency(requestMs),
+    feedLatency:    summarizeLatency(feedMs),
+    feedMissing:    awaiting.size,
+    failureReasons: [...reasons].map(([reason, count]) => ({ reason, count })).sort((a, b) => b.count - a.count),
+    cancelled:      sent < scenario.total,
+  };
+}
+
+export function summarizeLatency(samples: number[]): LatencySummary | null {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (p: number) => round(sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]);
+  return {
+    count: sorted.length,
+    min:   round(sorted[0]),
+    mean:  round(sorted.reduce((sum, ms) => sum + ms, 0) / sorted.length),
+    p50:   at(50),
+    p95:   at(95),
+    p99:   at(99),
+    max:   round(sorted[sorted.length - 1]),
+  };
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS: [string, (r: LoadTestReport) => string | number | boolean | null][] = [
+  ['name',            r => r.scenario.name],
+  ['startedAt',       r => r.startedAt],
+  ['mode',            r => r.scenario.mode],
+  ['targetRate',      r => r.scenario.rate],
+  ['ramp',            r => r.scenario.ramp],
+  ['rampSeconds',     r => r.scenario.rampSeconds],
+  ['concurrency',     r => r.scenario.concurrency],
+  ['batchSize',       r => (r.scenario.mode === 'batched' ? r.scenario.batchSize : 1)],
+  ['updateShare',     r => r.scenario.updateShare],
+  ['sent',            r => r.sent],
+  ['succeeded',       r => r.succeeded],
+  ['failed',          r => r.failed],
+  ['updates',         r => r.updates],
+  ['requests',        r => r.requests],
+  ['durationMs',      r => r.durationMs],
+  ['txPerSecond',     r => r.txPerSecond],
+  ['requestP50Ms',    r => r.requestLatency?.p50 ?? null],
+  ['requestP95Ms',    r => r.requestLatency?.p95 ?? null],
+  ['requestP99Ms',    r => r.requestLatency?.p99 ?? null],
+  ['feedP50Ms',       r => r.feedLatency?.p50 ?? null],
+  ['feedP95Ms',       r => r.feedLatency?.p95 ?? null],
+  ['feedP99Ms',       r => r.feedLatency?.p99 ?? null],
+  ['feedMissing',     r => r.feedMissing],
+  ['cancelled',       r => r.cancelled],
+];
+
+/** One row per run — for pasting into a spreadsheet next to earlier runs */
+export function reportsToCsv(reports: LoadTestReport[]): string {
+  const lines = reports.map(r => CSV_COLUMNS.map(([, value]) => csvCell(value(r))).join(','));
+  return [CSV_COLUMNS.map(([name]) => name).join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/** Matches a sent transaction to its feed event — an ID alone can't tell a create from a later update */
+function feedKey(tx: Transaction): string {
+  return `${tx.transactionId.toLowerCase()}|${Date.parse(tx.timestamp)}`;
+}
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function round(ms: number): number {
+  return Math.round(ms * 10) / 10;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
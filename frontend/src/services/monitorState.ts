@@ -0,0 +1,200 @@
+// services/monitorState.ts
+// The Monitor as the operator left it — live feed buffer, Clear marker, filters,
+// view and preferences (alert rules and display settings included) — saved to
+// localStorage and read back on the next load.
+// Versioned: a stored snapshot is migrated step by step to the current shape,
+// and one that can't be is dropped rather than half-applied.
+
+import { TransactionSchema } from './TransactionApiClient';
+import { AlertRuleSchema } from './alertRules';
+import { array, integer, nullable, object, oneOf, optional, parse, string, type Schema } from './schema';
+import { AMOUNT_DISPLAYS, type AmountDisplay } from '../types/currency';
+import {
+  STATS_WINDOWS,
+  TIME_SERIES_WINDOWS,
+  TRANSACTION_STATUSES,
+  type AlertRule,
+  type StatsWindow,
+  type TimeSeriesWindow,
+  type Transaction,
+  type TransactionStatus,
+} from '../types/transaction';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export type LiveFilter = 'All' | TransactionStatus;
+
+export interface PersistedMonitorState {
+  feed: {
+    /** Newest first, capped at PERSISTED_FEED_MAX */
+    transactions: Transaction[];
+    /** Newest server change time in the feed when the operator last cleared it (ISO) — older snapshot rows stay hidden */
+    clearedAt: string | null;
+  };
+  /** Absent — never saved (e.g. imported from an older build): the slice's default applies */
+  preferences: {
+    recentLimit?:       number;
+    statsWindow?:       StatsWindow;
+    seriesWindow?:      TimeSeriesWindow;
+    reportingCurrency?: string;
+    amountDisplay?:     AmountDisplay;
+    alertRules?:        AlertRule[];
+  };
+  ui: {
+    liveFilter: LiveFilter;
+    searchText: string;
+    /** Monitor query string (view, history filters, sort) — used when the URL has none */
+    lastQuery: string;
+  };
+}
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'finmonitor.monitorState';
+
+/** Bump when the stored shape changes, and add the migration from the previous version */
+export const MONITOR_STATE_VERSION = 2;
+
+/** localStorage is small and synchronous — a 10,000-row buffer refills from live events instead */
+export const PERSISTED_FEED_MAX = 1_000;
+
+/** Before version 2, each of these preferences had a key of its own */
+const LEGACY_KEYS = {
+  reportingCurrency: 'finmonitor.reportingCurrency.v1',
+  amountDisplay:     'finmonitor.amountDisplay.v1',
+  alertRules:        'finmonitor.alertRules.v1',
+} as const;
+
+/**
+ * Upgrades keyed by the version they upgrade FROM — `MIGRATIONS[1]` turns a
+ * version 1 snapshot into version 2. Each step sees the raw stored object.
+ */
+const MIGRATIONS: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  /** Fold the per-preference keys in. They're deleted once the result is saved — see loadMonitorState. */
+  1: state => {
+    const preferences = { ...(state.preferences as Record<string, unknown> | undefined) };
+    const currency = readLegacy(LEGACY_KEYS.reportingCurrency);
+    const display  = readLegacy(LEGACY_KEYS.amountDisplay);
+    const rules    = readLegacy(LEGACY_KEYS.alertRules);
+    if (currency !== null) preferences.reportingCurrency = currency;
+    if (display !== null)  preferences.amountDisplay = display;
+    // Unreadable rules are dropped here rather than failing the whole snapshot
+    if (rules !== null) {
+      try {
+        preferences.alertRules = parse(array(AlertRuleSchema), JSON.parse(rules));
+      } catch (err) {
+        console.error('Ignoring stored alert rules:', err);
+      }
+    }
+    return { ...state, preferences };
+  },
+};
+
+/** A browser that ran a build from before the snapshot has only the legacy keys — migrated as an empty v1 */
+const EMPTY_V1_STATE = {
+  feed:        { transactions: [], clearedAt: null },
+  preferences: {},
+  ui:          { liveFilter: 'All', searchText: '', lastQuery: '' },
+};
+
+const StoredEnvelopeSchema = object({
+  version: integer,
+  state:   object({}),
+});
+
+const MonitorStateSchema: Schema<PersistedMonitorState> = object({
+  feed: object({
+    transactions: array(TransactionSchema),
+    clearedAt:    nullable(string),
+  }),
+  preferences: object({
+    recentLimit:       optional(integer),
+    statsWindow:       optional(oneOf(STATS_WINDOWS)),
+    seriesWindow:      optional(oneOf(TIME_SERIES_WINDOWS)),
+    reportingCurrency: optional(string),
+    amountDisplay:     optional(oneOf(AMOUNT_DISPLAYS)),
+    alertRules:        optional(array(AlertRuleSchema)),
+  }),
+  ui: object({
+    liveFilter:   oneOf(['All', ...TRANSACTION_STATUSES] as const),
+    searchText:   string,
+    lastQuery:    string,
+  }),
+});
+
+// ─── Persistence ──────────────────────────────────────────────────────────
+
+let loaded: PersistedMonitorState | null | undefined;
+
+/**
+ * What the last session saved, migrated to the current version — null when
+ * nothing usable is stored. Read once: every slice's initial state comes from
+ * the same snapshot. A migrated snapshot is written back straight away, and
+ * only then are the keys it replaced deleted.
+ */
+export function loadMonitorState(): PersistedMonitorState | null {
+  if (loaded !== undefined) return loaded;
+  loaded = null;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored: unknown = raw !== null ? JSON.parse(raw)
+      : hasLegacyKeys() ? { version: 1, state: EMPTY_V1_STATE }
+      : null;
+    if (stored === null) return null;
+
+    const { version } = parse(StoredEnvelopeSchema, stored);
+    loaded = parse(MonitorStateSchema, migrate(stored));
+    if (version < MONITOR_STATE_VERSION && saveMonitorState(loaded)) removeLegacyKeys();
+  } catch (err) {
+    console.error('Ignoring stored monitor state:', err);
+  }
+  return loaded;
+}
+
+/** False when it couldn't be written */
+export function saveMonitorState(state: PersistedMonitorState): boolean {
+  try {
+    const feed = { ...state.feed, transactions: state.feed.transactions.slice(0, PERSISTED_FEED_MAX) };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: MONITOR_STATE_VERSION,
+      state:   { ...state, feed },
+    }));
+    return true;
+  } catch (err) {
+    // Private mode / quota — the Monitor still works, it just starts fresh next time
+    console.error('Failed to save monitor state:', err);
+    return false;
+  }
+}
+
+function migrate(stored: unknown): unknown {
+  const envelope = parse(StoredEnvelopeSchema, stored);
+  // Validated as an object, but keep every key for the migrations to read
+  let state = (stored as { state: Record<string, unknown> }).state;
+
+  if (envelope.version > MONITOR_STATE_VERSION) {
+    throw new Error(`saved by a newer version (v${envelope.version})`);
+  }
+  for (let version = envelope.version; version < MONITOR_STATE_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`no migration from v${version}`);
+    state = step(state);
+  }
+  return state;
+}
+
+function readLegacy(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function hasLegacyKeys(): boolean {
+  return Object.values(LEGACY_KEYS).some(key => readLegacy(key) !== null);
+}
+
+function removeLegacyKeys(): void {
+  for (const key of Object.values(LEGACY_KEYS)) localStorage.removeItem(key);
+}
@@ -0,0 +1,113 @@
+// services/outbox.ts
+// Outbox for manual submissions the API couldn't take: kept in IndexedDB so
+// they survive a reload, retried with exponential backoff. Upserts are keyed
+// by transactionId, so sending one twice is harmless — and the server ignores
+// a version older than the one it already has.
+
+import * as idb from './idb';
+import { TransactionSchema } from './TransactionApiClient';
+import { integer, nullable, object, oneOf, parse, string, type Schema } from './schema';
+import { OUTBOX_STATUSES, type OutboxEntry, type SendResult, type Transaction } from '../types/transaction';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+/** Automatic attempts, the original send included, before an entry is marked failed */
+export const OUTBOX_MAX_ATTEMPTS = 8;
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS  = 5 * 60_000;
+
+export const OutboxEntrySchema: Schema<OutboxEntry> = object({
+  id:            string,
+  transaction:   TransactionSchema,
+  status:        oneOf(OUTBOX_STATUSES),
+  attempts:      integer,
+  nextAttemptAt: nullable(integer),
+  lastError:     nullable(string),
+  queuedAt:      integer,
+});
+
+// ─── Retry policy ─────────────────────────────────────────────────────────
+
+type SendFailure = Extract<SendResult, { ok: false }>;
+
+/** Worth another try — no response, a timeout, throttling or a server error. A 4xx won't change. */
+export function isRetryable(result: SendFailure): boolean {
+  const { status } = result;
+  return status === null || status === 408 || status === 429 || status >= 500;
+}
+
+/** Backoff before attempt `attempts + 1` — doubling from RETRY_BASE_MS, capped, ±20% jitter */
+export function retryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * A new entry — after a failed first send, or unsent (`result` null) when the
+ * browser is offline, in which case it goes out as soon as the connection is back.
+ */
+export function queueEntry(tx: Transaction, result: SendFailure | null, now = Date.now()): OutboxEntry {
+  const entry: OutboxEntry = {
+    id:            tx.transactionId,
+    transaction:   tx,
+    status:        'pending',
+    attempts:      0,
+    nextAttemptAt: now,
+    lastError:     null,
+    queuedAt:      now,
+  };
+  return result ? afterFailure(entry, result, now) : entry;
+}
+
+/** The entry after a failed attempt — rescheduled, or failed for good */
+export function afterFailure(entry: OutboxEntry, result: SendFailure, now = Date.now()): OutboxEntry {
+  const attempts = entry.attempts + 1;
+  const giveUp = !isRetryable(result) || attempts >= OUTBOX_MAX_ATTEMPTS;
+  return {
+    ...entry,
+    attempts,
+    status:        giveUp ? 'failed' : 'pending',
+    nextAttemptAt: giveUp ? null : now + retryDelay(attempts),
+    lastError:     result.status !== null ? `${result.status} · ${result.error}` : result.error,
+  };
+}
+
+// ─── Persistence ──────────────────────────────────────────────────────────
+
+/** Entries saved by earlier sessions — unreadable ones are dropped, an unavailable database reads as empty. */
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const stored = await idb.getAll<unknown>('outbox');
+    return stored.flatMap(value => {
+      try {
+        // An attempt that was in flight when the page closed never finished
+        const entry = parse(OutboxEntrySchema, value);
+        return [entry.status === 'retrying' ? { ...entry, status: 'pending' as const } : entry];
+      } catch (err) {
+        console.error('Ignoring stored outbox entry:', err);
+        return [];
+      }
+    });
+  } catch (err) {
+    console.error('Failed to load the outbox:', err);
+    return [];
+  }
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry): Promise<void> {
+  try {
+    await idb.put('outbox', entry);
+  } catch (err) {
+    // The entry still retries for this session — it just won't survive a reload
+    console.error('Failed to save outbox entry:', err);
+  }
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  try {
+    await idb.remove('outbox', id);
+  } catch (err) {
+    console.error('Failed to delete outbox entry:', err);
+  }
+}
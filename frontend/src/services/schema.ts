@@ -0,0 +1,145 @@
+// services/schema.ts
+// Tiny runtime schema layer — validates untyped JSON against a declared shape.
+// Deliberately dependency-free: a handful of combinators is all the API needs.
+
+import { parseDecimal } from './decimal';
+import type { Decimal } from '../types/currency';
+
+// ─── Errors ───────────────────────────────────────────────────────────────
+
+/**
+ * Thrown when a payload does not match its schema.
+ * `path` names the offending field (e.g. `$.items[3].amount`) so a backend
+ * contract change shows up as a precise error instead of silent zeros.
+ */
+export class SchemaError extends Error {
+  readonly path:     string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(path: string, expected: string, received: unknown) {
+    super(`Invalid response at ${path}: expected ${expected}, got ${describe(received)}`);
+    this.name     = 'SchemaError';
+    this.path     = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** A schema checks `value` (found at `path`) and returns it typed, or throws SchemaError. */
+export type Schema<T> = (value: unknown, path: string) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+// ─── Primitives ───────────────────────────────────────────────────────────
+
+export const string: Schema<string> = (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+};
+
+export const number: Schema<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new SchemaError(path, 'finite number', value);
+  }
+  return value;
+};
+
+export const integer: Schema<number> = (value, path) => {
+  if (!Number.isInteger(value)) throw new SchemaError(path, 'integer', value);
+  return value as number;
+};
+
+export const boolean: Schema<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+};
+
+/**
+ * Exact decimal amount — a numeric string (how the API sends amounts) or a
+ * plain JSON number (older payloads, stored settings), normalized to a canonical Decimal.
+ */
+export const decimal: Schema<Decimal> = (value, path) => {
+  const parsed = typeof value === 'string' || typeof value === 'number' ? parseDecimal(value) : null;
+  if (parsed === null) throw new SchemaError(path, 'decimal string', value);
+  return parsed;
+};
+
+/** ISO 8601 date-time string (kept as a string — callers parse when needed). */
+export const isoDateTime: Schema<string> = (value, path) => {
+  if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+    throw new SchemaError(path, 'ISO 8601 date-time', value);
+  }
+  return value;
+};
+
+// ─── Combinators ──────────────────────────────────────────────────────────
+
+export function oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      throw new SchemaError(path, values.map(v => `'${v}'`).join(' | '), value);
+    }
+    return value as T[number];
+  };
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === null ? null : inner(value, path));
+}
+
+/** Field the server may omit (e.g. added in a later API version). */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : inner(value, path));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    return value.map((v, i) => item(v, `${path}[${i}]`));
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new SchemaError(path, 'object', value);
+    const out: Record<string, T> = {};
+    for (const [k, v] of Object.entries(value)) out[k] = item(v, `${path}.${k}`);
+    return out;
+  };
+}
+
+/** Validates the declared keys only — unknown extra keys are dropped, not rejected. */
+export function object<S extends Record<string, Schema<unknown>>>(
+  shape: S,
+): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path) => {
+    if (!isPlainObject(value)) throw new SchemaError(path, 'object', value);
+    const out = {} as { [K in keyof S]: Infer<S[K]> };
+    for (const key of Object.keys(shape) as (keyof S & string)[]) {
+      out[key] = shape[key](value[key], `${path}.${key}`) as Infer<S[typeof key]>;
+    }
+    return out;
+  };
+}
+
+/** Run a schema against a root value. */
+export function parse<T>(schema: Schema<T>, value: unknown, root = '$'): T {
+  return schema(value, root);
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'undefined (missing)';
+  if (value === null)      return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return `${typeof value} ${typeof value === 'object' ? '' : String(value)}`.trim();
+}
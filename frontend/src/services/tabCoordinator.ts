@@ -0,0 +1,154 @@
+// services/tabCoordinator.ts
+// Multi-tab coordination: one tab — the leader — holds the SignalR connection
+// and the outbox, and relays what it receives to the other tabs over
+// BroadcastChannel. Leadership is a Web Lock: the browser releases it when the
+// leader tab closes or crashes and grants it to the next tab waiting, so there
+// are no heartbeats or timeouts to tune.
+
+import { DbStatsSchema, TransactionSchema } from './TransactionApiClient';
+import { OutboxEntrySchema } from './outbox';
+import { array, boolean, object, oneOf, parse, string, type Schema } from './schema';
+import { CONNECTION_STATES, type ConnectionState } from '../store/transactionSlice';
+import { STATS_WINDOWS, type DbStats, type OutboxEntry, type StatsWindow, type Transaction } from '../types/transaction';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** Everything tabs say to each other */
+export type TabMessage =
+  /** A follower joined — the leader answers with a snapshot, its stats, connection state and outbox */
+  | { type: 'hello' }
+  /** Hub events (`live`) or change-feed replays, in arrival order */
+  | { type: 'transactions'; transactions: Transaction[]; live: boolean }
+  /** Recent rows to merge into the feed — the leader's current feed, or its fresh REST snapshot */
+  | { type: 'snapshot'; transactions: Transaction[] }
+  /** The leader's stats — a follower showing another window switches to this one */
+  | { type: 'stats'; window: StatsWindow; stats: DbStats }
+  /** A follower changed the stats window or asked for a refresh — the leader fetches and shares */
+  | { type: 'stats-request'; window: StatsWindow }
+  | { type: 'connection'; state: ConnectionState }
+  /** The leader's whole outbox, after every change — followers mirror it */
+  | { type: 'outbox'; entries: OutboxEntry[] }
+  /** A follower queued or re-queued an entry — the leader sends it */
+  | { type: 'outbox-put'; entry: OutboxEntry }
+  /** A follower discarded an entry */
+  | { type: 'outbox-discard'; id: string };
+
+type TabMessageType = TabMessage['type'];
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+const CHANNEL_NAME = 'finmonitor.hub';
+const LOCK_NAME    = 'finmonitor.hub.leader';
+
+const TAB_MESSAGE_TYPES: TabMessageType[] = [
+  'hello', 'transactions', 'snapshot', 'stats', 'stats-request', 'connection', 'outbox', 'outbox-put', 'outbox-discard',
+];
+
+const TabMessageTypeSchema = object({ type: oneOf(TAB_MESSAGE_TYPES) });
+
+/**
+ * Any page on the origin can post to the channel — another build of the app
+ * among them — so messages are checked like API responses.
+ */
+const TAB_MESSAGE_SCHEMAS: { [K in TabMessageType]: Schema<Extract<TabMessage, { type: K }>> } = {
+  'hello':          object({ type: oneOf(['hello'] as const) }),
+  'transactions':   object({ type: oneOf(['transactions'] as const), transactions: array(TransactionSchema), live: boolean }),
+  'snapshot':       object({ type: oneOf(['snapshot'] as const), transactions: array(TransactionSchema) }),
+  'stats':          object({ type: oneOf(['stats'] as const), window: oneOf(STATS_WINDOWS), stats: DbStatsSchema }),
+  'stats-request':  object({ type: oneOf(['stats-request'] as const), window: oneOf(STATS_WINDOWS) }),
+  'connection':     object({ type: oneOf(['connection'] as const), state: oneOf(CONNECTION_STATES) }),
+  'outbox':         object({ type: oneOf(['outbox'] as const), entries: array(OutboxEntrySchema) }),
+  'outbox-put':     object({ type: oneOf(['outbox-put'] as const), entry: OutboxEntrySchema }),
+  'outbox-discard': object({ type: oneOf(['outbox-discard'] as const), id: string }),
+};
+
+function parseTabMessage(value: unknown): TabMessage {
+  const { type } = parse(TabMessageTypeSchema, value);
+  const schema: Schema<TabMessage> = TAB_MESSAGE_SCHEMAS[type];
+  return parse(schema, value);
+}
+
+// ─── Coordinator ──────────────────────────────────────────────────────────
+
+export interface TabRoles {
+  /** This tab holds the lock — straight away when no other tab does, or later on a handover */
+  onLeader: () => void;
+  /** Another tab held the lock at start — this one waits in line */
+  onFollower: () => void;
+}
+
+/**
+ * One per started TransactionHubService. Without BroadcastChannel or Web Locks
+ * (older browsers) every tab leads itself — one connection per tab, as before.
+ */
+export class TabCoordinator {
+  private channel: BroadcastChannel | null = null;
+  private waiting: AbortController | null = null;
+  private release: (() => void) | null = null;
+  private leader = false;
+
+  /** False until the lock is granted — while the first request is out too */
+  get isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Listen for other tabs and find this tab's role. The lock is asked for
+   * without waiting first, so exactly one of `onLeader` / `onFollower` runs
+   * as soon as the browser answers; a follower then queues for the lock.
+   */
+  start(onMessage: (message: TabMessage) => void, roles: TabRoles): void {
+    if (typeof BroadcastChannel === 'undefined' || typeof navigator === 'undefined' || !navigator.locks) {
+      this.leader = true;
+      roles.onLeader();
+      return;
+    }
+
+    const channel = this.channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<unknown>) => {
+      let message: TabMessage;
+      try {
+        message = parseTabMessage(event.data);
+      } catch (err) {
+        console.error('Dropped malformed tab message:', err);
+        return;
+      }
+      onMessage(message);
+    };
+
+    const lead = (): Promise<void> | undefined => {
+      if (this.channel !== channel) return; // stopped meanwhile — let the lock go at once
+      this.leader = true;
+      roles.onLeader();
+      // Held until stop()
+      return new Promise<void>(resolve => { this.release = resolve; });
+    };
+
+    navigator.locks.request(LOCK_NAME, { ifAvailable: true }, lock => {
+      if (lock) return lead();
+      if (this.channel !== channel) return;
+      roles.onFollower();
+
+      const waiting = this.waiting = new AbortController();
+      navigator.locks.request(LOCK_NAME, { signal: waiting.signal }, lead).catch(err => {
+        if (!waiting.signal.aborted) console.error('Tab leader election failed:', err);
+      });
+    }).catch(err => console.error('Tab leader election failed:', err));
+  }
+
+  /** Send to every other tab — a no-op when there's no channel */
+  post(message: TabMessage): void {
+    this.channel?.postMessage(message);
+  }
+
+  /** Leave: stop waiting for the lock, or hand it to the next tab */
+  stop(): void {
+    this.waiting?.abort();
+    this.release?.();
+    this.channel?.close();
+    this.channel = null;
+    this.waiting = null;
+    this.release = null;
+    this.leader  = false;
+  }
+}
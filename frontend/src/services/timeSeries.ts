@@ -0,0 +1,68 @@
+// services/timeSeries.ts
+// Turns the live event stream into time-series increments for the trend charts.
+// Pure logic: the listener feeds it events, the timeSeries slice stores the buckets.
+
+import type { Transaction, TransactionStatus } from '../types/transaction';
+import type { Decimal } from '../types/currency';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+/** IDs whose last status we remember — beyond this the oldest is forgotten */
+const MAX_TRACKED = 50_000;
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/**
+ * One increment at `at` (ms, the transaction's own timestamp):
+ *   status — the transaction entered this status
+ *   volume — a transaction seen for the first time, counted once
+ */
+export interface SeriesEvent {
+  at:      number;
+  status?: TransactionStatus;
+  volume?: { currency: string; amount: Decimal };
+}
+
+// ─── Tracker ──────────────────────────────────────────────────────────────
+
+/**
+ * SeriesTracker — mirrors the server's bucketing rules on the client:
+ * status counts are transitions (an update that keeps its status counts nothing),
+ * volume is counted when a transaction first appears.
+ *
+ * Remembering the last status per ID is what makes replays harmless — the same
+ * event delivered twice (reconnect replay, polling overlap) is not a transition.
+ */
+export class SeriesTracker {
+  private lastStatus = new Map<string, TransactionStatus>();
+
+  toEvents(txs: Transaction[]): SeriesEvent[] {
+    const events: SeriesEvent[] = [];
+
+    for (const tx of txs) {
+      const at = Date.parse(tx.timestamp);
+      if (Number.isNaN(at)) continue;
+
+      const previous = this.lastStatus.get(tx.transactionId);
+      if (previous === tx.status) continue;
+
+      events.push({
+        at,
+        status: tx.status,
+        volume: previous === undefined ? { currency: tx.currency, amount: tx.amount } : undefined,
+      });
+      this.track(tx.transactionId, tx.status);
+    }
+
+    return events;
+  }
+
+  private track(id: string, status: TransactionStatus): void {
+    // Re-insert so Map order stays least-recently-updated first
+    this.lastStatus.delete(id);
+    this.lastStatus.set(id, status);
+    if (this.lastStatus.size > MAX_TRACKED) {
+      this.lastStatus.delete(this.lastStatus.keys().next().value!);
+    }
+  }
+}
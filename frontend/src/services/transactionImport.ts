@@ -0,0 +1,281 @@
+// services/transactionImport.ts
+// Bulk import from partner files: read CSV / JSON / NDJSON into a flat table,
+// map its columns onto transaction fields, validate every row, then submit the
+// valid ones with a bounded number of requests in flight.
+
+import { validateTransaction, type TransactionInput } from './transactionValidation';
+import {
+  TRANSACTION_FIELDS,
+  type FieldErrors,
+  type SendResult,
+  type Transaction,
+  type TransactionField,
+} from '../types/transaction';
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+/** Files are read whole into memory — refuse anything that would stall the tab */
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+export const DEFAULT_IMPORT_CONCURRENCY = 8;
+export const MAX_IMPORT_CONCURRENCY     = 32;
+
+const PROGRESS_INTERVAL_MS = 100;
+
+/** Header spellings recognised per field, compared lower-case without spaces, dashes or underscores */
+const FIELD_ALIASES: Record<TransactionField, string[]> = {
+  transactionId: ['transactionid', 'id', 'txid', 'txnid', 'reference', 'uuid', 'guid'],
+  amount:        ['amount', 'value', 'sum', 'total'],
+  currency:      ['currency', 'ccy', 'currencycode', 'cur'],
+  status:        ['status', 'state'],
+  timestamp:     ['timestamp', 'time', 'date', 'datetime', 'createdat', 'occurredat'],
+};
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** A file flattened to named columns — every cell as text */
+export interface ImportTable {
+  columns: string[];
+  rows:    Record<string, string>[];
+}
+
+/** Source column per transaction field — null when the file has none */
+export type ColumnMapping = Record<TransactionField, string | null>;
+
+/** One data row after mapping — `row` is 1-based, not counting a CSV header */
+export type ImportRow =
+  | { row: number; input: TransactionInput; ok: true;  transaction: Transaction }
+  | { row: number; input: TransactionInput; ok: false; errors: FieldErrors };
+
+export interface ImportRejection {
+  row:           number;
+  transactionId: string;
+  reason:        string;
+}
+
+export interface ImportProgress {
+  done:  number;
+  total: number;
+}
+
+export interface ImportReport {
+  total:      number;
+  succeeded:  number;
+  /** Rows the server refused or that failed to send */
+  rejected:   ImportRejection[];
+  durationMs: number;
+  cancelled:  boolean;
+}
+
+/** Sends one transaction — a failed result or a throw counts as a rejection */
+export type SendTransaction = (tx: Transaction) => Promise<SendResult>;
+
+// ─── Reading ──────────────────────────────────────────────────────────────
+
+/** Parse a dropped file by extension (content sniffed when there is none). Throws on bad input. */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  if (file.size > MAX_IMPORT_BYTES) {
+    throw new Error(`File is too large (max ${MAX_IMPORT_BYTES / 1024 / 1024} MB)`);
+  }
+  const text = (await file.text()).replace(/^\uFEFF/, '');
+  const ext  = file.name.split('.').pop()?.toLowerCase();
+
+  if (ext === 'json' || ext === 'ndjson' || ext === 'jsonl') return parseJsonTable(text);
+  if (ext === 'csv'  || ext === 'tsv'    || ext === 'txt')   return parseCsvTable(text);
+  return /^\s*[[{]/.test(text) ? parseJsonTable(text) : parseCsvTable(text);
+}
+
+/** First row is the header. Delimiter (, ; or tab) is picked from the header line. */
+export function parseCsvTable(text: string): ImportTable {
+  const records = parseCsv(text, detectDelimiter(text));
+  if (records.length === 0) throw new Error('The file is empty');
+
+  const columns = uniqueColumns(records[0].map(h => h.trim()));
+  const rows = records.slice(1)
+    .filter(r => r.some(cell => cell.trim() !== ''))
+    .map(r => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ''])));
+  return { columns, rows };
+}
+
+/**
+ * A JSON array of objects, an object with an `items` array (the API's page shape),
+ * or NDJSON — one object per line. Nested values are skipped.
+ */
+export function parseJsonTable(text: string): ImportTable {
+  let records: unknown[];
+  try {
+    const parsed: unknown = JSON.parse(text);
+    records = Array.isArray(parsed) ? parsed
+      : isRecord(parsed) && Array.isArray(parsed.items) ? parsed.items
+      : [parsed];
+  } catch {
+    records = text.split('\n').filter(l => l.trim() !== '').map((line, i) => {
+      try {
+        return JSON.parse(line) as unknown;
+      } catch {
+        throw new Error(`Line ${i + 1} is not valid JSON`);
+      }
+    });
+  }
+
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  const rows = records.map((record, i) => {
+    if (!isRecord(record)) throw new Error(`Item ${i + 1} is not an object`);
+    const row: Record<string, string> = {};
+    for (const [key, value] of Object.entries(record)) {
+      if (value !== null && typeof value === 'object') continue;
+      if (!seen.has(key)) { seen.add(key); columns.push(key); }
+      row[key] = value === null || value === undefined ? '' : String(value);
+    }
+    return row;
+  });
+  if (rows.length === 0) throw new Error('The file has no rows');
+  return { columns, rows };
+}
+
+/** RFC 4180 — quoted fields may hold delimiters, doubled quotes and line breaks. */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && field === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
+
+// ─── Mapping + validation ─────────────────────────────────────────────────
+
+/** Best-effort column per field from the header names — the user can override each. */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const normalized = columns.map(c => c.toLowerCase().replace(/[\s_-]/g, ''));
+  const mapping = {} as ColumnMapping;
+  for (const field of TRANSACTION_FIELDS) {
+    const index = FIELD_ALIASES[field]
+      .map(alias => normalized.indexOf(alias))
+      .find(i => i !== -1);
+    mapping[field] = index === undefined ? null : columns[index];
+  }
+  return mapping;
+}
+
+export function mapRows(table: ImportTable, mapping: ColumnMapping): ImportRow[] {
+  return table.rows.map((cells, i) => {
+    const input: TransactionInput = {};
+    for (const field of TRANSACTION_FIELDS) {
+      const column = mapping[field];
+      if (column) input[field] = cells[column];
+    }
+    const result = validateTransaction(input);
+    return result.ok
+      ? { row: i + 1, input, ok: true,  transaction: result.transaction }
+      : { row: i + 1, input, ok: false, errors: result.errors };
+  });
+}
+
+// ─── Submission ───────────────────────────────────────────────────────────
+
+/**
+ * Send every row through `send` with at most `concurrency` requests in flight.
+ * Aborting `signal` stops handing out new rows; in-flight ones still finish
+ * and are counted. Never throws — failures end up in `rejected`.
+ */
+export async function submitImport(
+  rows: { row: number; transaction: Transaction }[],
+  send: SendTransaction,
+  options: {
+    concurrency?: number;
+    signal?:      AbortSignal;
+    onProgress?:  (progress: ImportProgress) => void;
+  } = {},
+): Promise<ImportReport> {
+  const { signal, onProgress } = options;
+  const concurrency = Math.min(Math.max(1, options.concurrency ?? DEFAULT_IMPORT_CONCURRENCY), MAX_IMPORT_CONCURRENCY);
+  const start = performance.now();
+  const rejected: ImportRejection[] = [];
+  let succeeded = 0;
+  let done = 0;
+  let next = 0;
+  let lastReport = 0;
+
+  const worker = async () => {
+    while (!signal?.aborted && next < rows.length) {
+      const { row, transaction } = rows[next++];
+      let reason: string | null = null;
+      try {
+        const result = await send(transaction);
+        if (!result.ok) reason = result.error;
+      } catch (err) {
+        reason = err instanceof Error ? err.message : String(err);
+      }
+      if (reason) rejected.push({ row, transactionId: transaction.transactionId, reason });
+      else succeeded++;
+
+      done++;
+      const now = performance.now();
+      if (onProgress && now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        onProgress({ done, total: rows.length });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+  onProgress?.({ done, total: rows.length });
+
+  return {
+    total:      done,
+    succeeded,
+    rejected:   rejected.sort((a, b) => a.row - b.row),
+    durationMs: Math.round(performance.now() - start),
+    cancelled:  done < rows.length,
+  };
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(d => [d, header.split(d).length] as const);
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+/** Blank or repeated header names get a suffix so no column is silently dropped */
+function uniqueColumns(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((h, i) => {
+    const name = h || `column ${i + 1}`;
+    const n = seen.get(name) ?? 0;
+    seen.set(name, n + 1);
+    return n === 0 ? name : `${name} (${n + 1})`;
+  });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
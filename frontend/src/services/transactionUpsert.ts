@@ -0,0 +1,60 @@
+// services/transactionUpsert.ts
+// Sending transactions with results instead of exceptions — shared by
+// TransactionHubService and the headless load generator (cli/loadgen.ts).
+
+import { ApiError, ResponseContractError, type TransactionApiClient } from './TransactionApiClient';
+import type { BatchUpsertResult, SendResult, Transaction } from '../types/transaction';
+
+/** Server-side limit on POST /api/transactions/batch */
+export const MAX_BATCH_SIZE = 1000;
+
+/**
+ * POST one transaction. Never throws — a rejection carries the HTTP status
+ * (null only if there was no response), the server's message and per-field errors.
+ */
+export async function upsertTransaction(api: TransactionApiClient, tx: Transaction): Promise<SendResult> {
+  try {
+    const { transaction, status } = await api.upsert(tx);
+    return { ok: true, status, outcome: status === 201 ? 'Created' : 'Updated', transaction };
+  } catch (err) {
+    if (err instanceof ApiError) {
+      return { ok: false, status: err.status, error: err.message, fieldErrors: err.fieldErrors };
+    }
+    if (err instanceof ResponseContractError) {
+      // The server answered — with its real status, so the outbox won't resend a write it may have stored
+      return { ok: false, status: err.status, error: err.message, fieldErrors: {} };
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, status: null, error: `Network error: ${message}`, fieldErrors: {} };
+  }
+}
+
+/**
+ * POST many transactions through the batch endpoint, MAX_BATCH_SIZE per request.
+ * Never throws: a request that fails outright marks each of its items Rejected
+ * with the error, so callers always get one result per transaction, in order.
+ */
+export async function upsertTransactions(api: TransactionApiClient, txs: Transaction[]): Promise<BatchUpsertResult> {
+  const merged: BatchUpsertResult = { created: 0, updated: 0, rejected: 0, results: [] };
+
+  for (let offset = 0; offset < txs.length; offset += MAX_BATCH_SIZE) {
+    const chunk = txs.slice(offset, offset + MAX_BATCH_SIZE);
+    try {
+      const res = await api.upsertBatch(chunk);
+      merged.created  += res.created;
+      merged.updated  += res.updated;
+      merged.rejected += res.rejected;
+      merged.results.push(...res.results.map(r => ({ ...r, index: r.index + offset })));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      merged.rejected += chunk.length;
+      merged.results.push(...chunk.map((tx, i) => ({
+        index:         offset + i,
+        transactionId: tx.transactionId,
+        outcome:       'Rejected' as const,
+        error,
+      })));
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,99 @@
+// services/transactionValidation.ts
+// Client-side mirror of the API's upsert rules — GUID id, positive amount,
+// currency present (optionally ISO 4217), known status, ISO 8601 timestamp.
+// Catching these before sending saves a round trip per bad row and lets the
+// UI say which field is wrong.
+
+import { compareDecimal, parseDecimal, ZERO } from './decimal';
+import { CURRENCIES } from '../types/currency';
+import {
+  TRANSACTION_STATUSES,
+  type FieldErrors,
+  type Transaction,
+  type TransactionField,
+  type TransactionStatus,
+} from '../types/transaction';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** Raw text per field, as typed or read from a file */
+export type TransactionInput = Partial<Record<TransactionField, string>>;
+
+export type ValidationResult =
+  | { ok: true;  transaction: Transaction }
+  | { ok: false; errors: FieldErrors };
+
+export interface ValidationOptions {
+  /**
+   * Require a known ISO 4217 code (or one of our crypto codes). The API takes
+   * any non-empty currency, so imports leave this off; the manual form turns it on.
+   */
+  iso4217?: boolean;
+  /** Timestamp of the stored version — the API ignores an upsert that isn't newer */
+  after?: string;
+}
+
+// ─── Rules ────────────────────────────────────────────────────────────────
+
+const GUID_RE = /^[{(]?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}[)}]?$/i;
+
+/** Date and time, optional zone — the API stores zone-less times as UTC, so the client says so explicitly */
+const ISO_DATE_TIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+const ZONE_RE = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const CURRENCY_CODE_RE = /^[A-Z]{3}$/;
+
+/**
+ * Normalized transaction, or an error message per offending field.
+ * Status matches case-insensitively; currency is trimmed and upper-cased;
+ * a timestamp without a zone gets "Z".
+ */
+export function validateTransaction(input: TransactionInput, options: ValidationOptions = {}): ValidationResult {
+  const errors: FieldErrors = {};
+
+  const transactionId = input.transactionId?.trim() ?? '';
+  if (!transactionId)                    errors.transactionId = 'Transaction ID is required';
+  else if (!GUID_RE.test(transactionId)) errors.transactionId = 'Transaction ID must be a valid GUID';
+
+  const amount = parseDecimal(input.amount ?? '');
+  if (amount === null)                         errors.amount = 'Amount must be a number';
+  else if (compareDecimal(amount, ZERO) <= 0)  errors.amount = 'Amount must be positive';
+
+  const currency = input.currency?.trim().toUpperCase() ?? '';
+  if (!currency) errors.currency = 'Currency is required';
+  else if (options.iso4217 && !isKnownCurrency(currency)) errors.currency = `${currency} is not an ISO 4217 currency code`;
+
+  const status = parseStatus(input.status);
+  if (!status) errors.status = `Status must be one of ${TRANSACTION_STATUSES.join(', ')}`;
+
+  const raw = input.timestamp?.trim() ?? '';
+  const timestamp = ZONE_RE.test(raw) ? raw : `${raw}Z`;
+  if (!ISO_DATE_TIME_RE.test(raw) || Number.isNaN(Date.parse(timestamp))) {
+    errors.timestamp = 'Timestamp must be an ISO 8601 date-time (e.g. 2025-01-31T12:00:00Z)';
+  } else if (options.after && Date.parse(timestamp) <= Date.parse(options.after)) {
+    errors.timestamp = 'Timestamp must be later than the stored version\'s, or the update is ignored';
+  }
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    transaction: { transactionId, amount: amount!, currency, status: status!, timestamp },
+  };
+}
+
+function parseStatus(value: string | undefined): TransactionStatus | null {
+  const wanted = value?.trim().toLowerCase();
+  return TRANSACTION_STATUSES.find(s => s.toLowerCase() === wanted) ?? null;
+}
+
+let isoCodes: Set<string> | null | undefined;
+
+/** Intl.supportedValuesOf is ES2022 — without it any three-letter code passes */
+function isKnownCurrency(code: string): boolean {
+  if (code in CURRENCIES) return true;
+  if (isoCodes === undefined) {
+    const intl = Intl as { supportedValuesOf?: (key: 'currency') => string[] };
+    isoCodes = intl.supportedValuesOf ? new Set(intl.supportedValuesOf('currency')) : null;
+  }
+  return isoCodes ? isoCodes.has(code) : CURRENCY_CODE_RE.test(code);
+}
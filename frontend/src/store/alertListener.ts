@@ -0,0 +1,58 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState } from './index';
+import { receiveTransaction, receiveTransactions } from './transactionSlice';
+import { addRule, raiseAlerts, removeRule, updateRule } from './alertSlice';
+import { AlertEngine } from '../services/alertRules';
+import { playAlertSound, showNotification } from '../services/alertNotifications';
+import type { Transaction } from '../types/transaction';
+
+/**
+ * Alert side effects, kept out of the reducers:
+ *   - every receiveTransaction(s) is run through the AlertEngine — paused or not,
+ *     the feed being frozen must not silence alerts
+ *   - triggered alerts go to the alerts slice, and to notifications / sound per rule
+ *   - rule edits reset that rule's rolling window (the monitor listener saves them)
+ */
+export const alertListener = createListenerMiddleware();
+
+const startListening = alertListener.startListening.withTypes<RootState, AppDispatch>();
+const engine = new AlertEngine();
+
+function evaluate(txs: Transaction[], api: { getState: () => RootState; dispatch: AppDispatch }) {
+  const rules = api.getState().alerts.rules;
+  const alerts = engine.evaluate(rules, txs);
+  if (alerts.length === 0) return;
+
+  api.dispatch(raiseAlerts(alerts));
+
+  for (const alert of alerts) {
+    const rule = rules.find(r => r.id === alert.ruleId);
+    if (rule?.notify) showNotification(alert);
+    if (rule?.sound)  playAlertSound();
+  }
+}
+
+startListening({
+  actionCreator: receiveTransaction,
+  effect: (action, api) => evaluate([action.payload], api),
+});
+
+startListening({
+  actionCreator: receiveTransactions,
+  effect: (action, api) => evaluate(action.payload, api),
+});
+
+startListening({
+  actionCreator: addRule,
+  effect: action => engine.reset(action.payload.id),
+});
+
+startListening({
+  actionCreator: updateRule,
+  effect: action => engine.reset(action.payload.id),
+});
+
+startListening({
+  actionCreator: removeRule,
+  effect: action => engine.reset(action.payload),
+});
@@ -0,0 +1,84 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { Alert, AlertRule } from '../types/transaction';
+import { DEFAULT_ALERT_RULES } from '../services/alertRules';
+import { loadMonitorState } from '../services/monitorState';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export interface AlertState {
+  /** User-defined rules — persisted by the monitor listener */
+  rules: AlertRule[];
+  /** Triggered alerts, newest first, capped at MAX_ALERTS */
+  alerts: Alert[];
+}
+
+// ─── Initial State ────────────────────────────────────────────────────────
+
+const MAX_ALERTS = 200;
+
+const initialState: AlertState = {
+  rules:  loadMonitorState()?.preferences.alertRules ?? DEFAULT_ALERT_RULES,
+  alerts: [],
+};
+
+// ─── Slice ────────────────────────────────────────────────────────────────
+
+export const alertSlice = createSlice({
+  name: 'alerts',
+  initialState,
+  reducers: {
+    addRule(state, action: PayloadAction<AlertRule>) {
+      state.rules.push(action.payload);
+    },
+
+    /** Replace a rule by ID (edit, enable/disable) */
+    updateRule(state, action: PayloadAction<AlertRule>) {
+      const idx = state.rules.findIndex(r => r.id === action.payload.id);
+      if (idx !== -1) state.rules[idx] = action.payload;
+    },
+
+    removeRule(state, action: PayloadAction<string>) {
+      state.rules = state.rules.filter(r => r.id !== action.payload);
+    },
+
+    /** Output of AlertEngine.evaluate — oldest first, as triggered */
+    raiseAlerts(state, action: PayloadAction<Alert[]>) {
+      const newestFirst = [...action.payload].reverse();
+      state.alerts = [...newestFirst, ...state.alerts].slice(0, MAX_ALERTS);
+    },
+
+    acknowledgeAlert(state, action: PayloadAction<string>) {
+      const alert = state.alerts.find(a => a.id === action.payload);
+      if (alert) alert.acknowledged = true;
+    },
+
+    acknowledgeAll(state) {
+      for (const alert of state.alerts) alert.acknowledged = true;
+    },
+
+    clearAlerts(state) {
+      state.alerts = [];
+    },
+  },
+});
+
+export const {
+  addRule,
+  updateRule,
+  removeRule,
+  raiseAlerts,
+  acknowledgeAlert,
+  acknowledgeAll,
+  clearAlerts,
+} = alertSlice.actions;
+
+export default alertSlice.reducer;
+
+// ─── Selectors ────────────────────────────────────────────────────────────
+
+export type RootState = { alerts: AlertState };
+
+export const selectAlertRules = (state: RootState) => state.alerts.rules;
+export const selectAlerts     = (state: RootState) => state.alerts.alerts;
+export const selectUnacknowledgedCount = (state: RootState) =>
+  state.alerts.alerts.reduce((n, a) => n + (a.acknowledged ? 0 : 1), 0);
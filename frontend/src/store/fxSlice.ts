@@ -0,0 +1,74 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { CURRENCIES, DEFAULT_REPORTING_CURRENCY, type AmountDisplay, type FxRates } from '../types/currency';
+import { DEFAULT_AMOUNT_DISPLAY } from '../services/formatting';
+import { loadMonitorState } from '../services/monitorState';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export interface FxState {
+  /** Currency totals and volumes are shown in — persisted by the monitor listener */
+  reportingCurrency: string;
+  /** Full or compact totals and volumes — persisted by the monitor listener */
+  amountDisplay: AmountDisplay;
+  /** Last rates table loaded, null until the first load succeeds */
+  rates: FxRates | null;
+  /** Last load failure — the previous table, if any, stays in use */
+  error: string | null;
+}
+
+// ─── Initial State ────────────────────────────────────────────────────────
+
+const restored = loadMonitorState()?.preferences;
+
+const initialState: FxState = {
+  // A currency dropped from CURRENCIES since it was chosen falls back to the default
+  reportingCurrency: restored?.reportingCurrency && restored.reportingCurrency in CURRENCIES
+    ? restored.reportingCurrency
+    : DEFAULT_REPORTING_CURRENCY,
+  amountDisplay: restored?.amountDisplay ?? DEFAULT_AMOUNT_DISPLAY,
+  rates: null,
+  error: null,
+};
+
+// ─── Slice ────────────────────────────────────────────────────────────────
+
+export const fxSlice = createSlice({
+  name: 'fx',
+  initialState,
+  reducers: {
+    setReportingCurrency(state, action: PayloadAction<string>) {
+      state.reportingCurrency = action.payload;
+    },
+
+    setAmountDisplay(state, action: PayloadAction<AmountDisplay>) {
+      state.amountDisplay = action.payload;
+    },
+
+    setFxRates(state, action: PayloadAction<FxRates>) {
+      state.rates = action.payload;
+      state.error = null;
+    },
+
+    setFxRatesError(state, action: PayloadAction<string>) {
+      state.error = action.payload;
+    },
+  },
+});
+
+export const {
+  setReportingCurrency,
+  setAmountDisplay,
+  setFxRates,
+  setFxRatesError,
+} = fxSlice.actions;
+
+export default fxSlice.reducer;
+
+// ─── Selectors ────────────────────────────────────────────────────────────
+
+export type RootState = { fx: FxState };
+
+export const selectReportingCurrency = (state: RootState) => state.fx.reportingCurrency;
+export const selectAmountDisplay     = (state: RootState) => state.fx.amountDisplay;
+export const selectFxRates           = (state: RootState) => state.fx.rates;
+export const selectFxError           = (state: RootState) => state.fx.error;
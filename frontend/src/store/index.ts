@@ -1,10 +1,31 @@
 import { configureStore } from '@reduxjs/toolkit';
 import transactionReducer from './transactionSlice';
+import alertReducer from './alertSlice';
+import timeSeriesReducer from './timeSeriesSlice';
+import fxReducer from './fxSlice';
+import outboxReducer from './outboxSlice';
+import monitorReducer from './monitorSlice';
+import { alertListener } from './alertListener';
+import { timeSeriesListener } from './timeSeriesListener';
+import { outboxListener } from './outboxListener';
+import { monitorListener } from './monitorListener';
 
 export const store = configureStore({
   reducer: {
     transactions: transactionReducer,
+    alerts:       alertReducer,
+    timeSeries:   timeSeriesReducer,
+    fx:           fxReducer,
+    outbox:       outboxReducer,
+    monitor:      monitorReducer,
   },
+  middleware: getDefault =>
+    getDefault().prepend(
+      alertListener.middleware,
+      timeSeriesListener.middleware,
+      outboxListener.middleware,
+      monitorListener.middleware,
+    ),
 });
 
 export type AppDispatch = typeof store.dispatch;
@@ -0,0 +1,72 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState } from './index';
+import { selectRecentTransactions } from './transactionSlice';
+import { saveMonitorState, type PersistedMonitorState } from '../services/monitorState';
+
+/**
+ * Saves the live feed, Clear marker, filters and preferences (alert rules and
+ * display settings included) to localStorage.
+ * The feed can change every frame, so saves are throttled — what's still
+ * unsaved is written when the page goes away.
+ */
+export const monitorListener = createListenerMiddleware();
+
+const startListening = monitorListener.startListening.withTypes<RootState, AppDispatch>();
+
+const SAVE_THROTTLE_MS = 1000;
+
+function toPersisted(state: RootState): PersistedMonitorState {
+  const { transactions, timeSeries, fx, alerts, monitor } = state;
+  return {
+    feed: {
+      transactions: selectRecentTransactions(state),
+      clearedAt:    transactions.clearedAt,
+    },
+    preferences: {
+      recentLimit:       transactions.recentLimit,
+      statsWindow:       transactions.statsWindow,
+      seriesWindow:      timeSeries.window,
+      reportingCurrency: fx.reportingCurrency,
+      amountDisplay:     fx.amountDisplay,
+      alertRules:        alerts.rules,
+    },
+    ui: {
+      liveFilter: monitor.liveFilter,
+      searchText: monitor.searchText,
+      lastQuery:  monitor.lastQuery,
+    },
+  };
+}
+
+/** Reads the latest state when the throttled save runs — null when nothing is waiting */
+let unsaved: (() => RootState) | null = null;
+
+function flush() {
+  if (!unsaved) return;
+  const state = unsaved();
+  unsaved = null;
+  saveMonitorState(toPersisted(state));
+}
+
+startListening({
+  predicate: (_action, current, previous) =>
+    current.transactions.recentIds          !== previous.transactions.recentIds
+    || current.transactions.recentById      !== previous.transactions.recentById
+    || current.transactions.clearedAt       !== previous.transactions.clearedAt
+    || current.transactions.recentLimit     !== previous.transactions.recentLimit
+    || current.transactions.statsWindow     !== previous.transactions.statsWindow
+    || current.timeSeries.window            !== previous.timeSeries.window
+    || current.fx.reportingCurrency         !== previous.fx.reportingCurrency
+    || current.fx.amountDisplay             !== previous.fx.amountDisplay
+    || current.alerts.rules                 !== previous.alerts.rules
+    || current.monitor                      !== previous.monitor,
+  effect: async (_action, api) => {
+    const scheduled = unsaved !== null;
+    unsaved = api.getState;
+    if (scheduled) return;
+    await api.delay(SAVE_THROTTLE_MS);
+    flush();
+  },
+});
+
+if (typeof window !== 'undefined') window.addEventListener('pagehide', flush);
@@ -0,0 +1,60 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { loadMonitorState, type LiveFilter } from '../services/monitorState';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** Monitor page controls worth keeping across reloads — persisted by the monitor listener */
+export interface MonitorState {
+  /** Live feed status filter and search box */
+  liveFilter: LiveFilter;
+  searchText: string;
+  /** Query string the Monitor was last showing — view, history filters, paging, sort */
+  lastQuery: string;
+}
+
+// ─── Initial State ────────────────────────────────────────────────────────
+
+const restored = loadMonitorState()?.ui;
+
+const initialState: MonitorState = {
+  liveFilter: restored?.liveFilter ?? 'All',
+  searchText: restored?.searchText ?? '',
+  lastQuery:  restored?.lastQuery ?? '',
+};
+
+// ─── Slice ────────────────────────────────────────────────────────────────
+
+export const monitorSlice = createSlice({
+  name: 'monitor',
+  initialState,
+  reducers: {
+    setLiveFilter(state, action: PayloadAction<LiveFilter>) {
+      state.liveFilter = action.payload;
+    },
+
+    setSearchText(state, action: PayloadAction<string>) {
+      state.searchText = action.payload;
+    },
+
+    /** Without the leading `?` — '' is the default live view */
+    setLastQuery(state, action: PayloadAction<string>) {
+      state.lastQuery = action.payload;
+    },
+  },
+});
+
+export const {
+  setLiveFilter,
+  setSearchText,
+  setLastQuery,
+} = monitorSlice.actions;
+
+export default monitorSlice.reducer;
+
+// ─── Selectors ────────────────────────────────────────────────────────────
+
+export type RootState = { monitor: MonitorState };
+
+export const selectLiveFilter = (state: RootState) => state.monitor.liveFilter;
+export const selectSearchText = (state: RootState) => state.monitor.searchText;
+export const selectLastQuery  = (state: RootState) => state.monitor.lastQuery;
@@ -0,0 +1,19 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState } from './index';
+import { putOutboxEntry, removeOutboxEntry } from './outboxSlice';
+import { deleteOutboxEntry, saveOutboxEntry } from '../services/outbox';
+
+/** Mirrors outbox changes into IndexedDB so queued submissions survive a reload. */
+export const outboxListener = createListenerMiddleware();
+
+const startListening = outboxListener.startListening.withTypes<RootState, AppDispatch>();
+
+startListening({
+  actionCreator: putOutboxEntry,
+  effect: action => saveOutboxEntry(action.payload),
+});
+
+startListening({
+  actionCreator: removeOutboxEntry,
+  effect: action => deleteOutboxEntry(action.payload),
+});
@@ -0,0 +1,53 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { OutboxEntry } from '../types/transaction';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+export interface OutboxState {
+  /** Oldest first — persisted to IndexedDB by the outbox listener */
+  entries: OutboxEntry[];
+}
+
+// ─── Initial State ────────────────────────────────────────────────────────
+
+const initialState: OutboxState = {
+  entries: [],
+};
+
+// ─── Slice ────────────────────────────────────────────────────────────────
+
+export const outboxSlice = createSlice({
+  name: 'outbox',
+  initialState,
+  reducers: {
+    /** Replace everything with what IndexedDB holds — not written back */
+    setOutbox(state, action: PayloadAction<OutboxEntry[]>) {
+      state.entries = [...action.payload].sort((a, b) => a.queuedAt - b.queuedAt);
+    },
+
+    /** Add or replace by ID — a newer submission of the same transaction supersedes the queued one */
+    putOutboxEntry(state, action: PayloadAction<OutboxEntry>) {
+      const idx = state.entries.findIndex(e => e.id === action.payload.id);
+      if (idx === -1) state.entries.push(action.payload);
+      else state.entries[idx] = action.payload;
+    },
+
+    removeOutboxEntry(state, action: PayloadAction<string>) {
+      state.entries = state.entries.filter(e => e.id !== action.payload);
+    },
+  },
+});
+
+export const {
+  setOutbox,
+  putOutboxEntry,
+  removeOutboxEntry,
+} = outboxSlice.actions;
+
+export default outboxSlice.reducer;
+
+// ─── Selectors ────────────────────────────────────────────────────────────
+
+export type RootState = { outbox: OutboxState };
+
+export const selectOutbox = (state: RootState) => state.outbox.entries;
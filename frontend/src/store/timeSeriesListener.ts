@@ -0,0 +1,30 @@
+import { createListenerMiddleware } from '@reduxjs/toolkit';
+import type { AppDispatch, RootState } from './index';
+import { receiveTransaction, receiveTransactions } from './transactionSlice';
+import { recordSeriesEvents } from './timeSeriesSlice';
+import { SeriesTracker } from '../services/timeSeries';
+import type { Transaction } from '../types/transaction';
+
+/**
+ * Feeds every receiveTransaction(s) into the trend charts' buckets.
+ * Like alerts, this runs on the action, so a paused feed keeps charting.
+ */
+export const timeSeriesListener = createListenerMiddleware();
+
+const startListening = timeSeriesListener.startListening.withTypes<RootState, AppDispatch>();
+const tracker = new SeriesTracker();
+
+function record(txs: Transaction[], dispatch: AppDispatch) {
+  const events = tracker.toEvents(txs);
+  if (events.length > 0) dispatch(recordSeriesEvents(events));
+}
+
+startListening({
+  actionCreator: receiveTransaction,
+  effect: (action, api) => record([action.payload], api.dispatch),
+});
+
+startListening({
+  actionCreator: receiveTransactions,
+  effect: (action, api) => record(action.payload, api.dispatch),
+});
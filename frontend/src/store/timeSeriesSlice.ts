@@ -0,0 +1,138 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { TimeSeriesBucket, TimeSeriesWindow, TransactionStatus } from '../types/transaction';
+import type { Decimal } from '../types/currency';
+import type { SeriesEvent } from '../services/timeSeries';
+import { addDecimal, ZERO } from '../services/decimal';
+import { loadMonitorState } from '../services/monitorState';
+
+// ─── Types ────────────────────────────────────────────────────────────────
+
+/** Client-side bucket — `start` as epoch ms so the charts don't re-parse ISO strings */
+export interface SeriesBucket {
+  start:     number;
+  pending:   number;
+  completed: number;
+  failed:    number;
+  volumeByCurrency: Record<string, Decimal>;
+}
+
+export type SeriesResolution = 'seconds' | 'minutes';
+
+export interface TimeSeriesState {
+  /** Window shown in the trend charts — persisted by the monitor listener */
+  window: TimeSeriesWindow;
+  /** Per-second buckets, oldest first — kept for the 5m window */
+  seconds: SeriesBucket[];
+  /** Per-minute buckets, oldest first — kept for the 1h / 24h windows */
+  minutes: SeriesBucket[];
+}
+
+// ─── Config ────────────────────────────────────────────────────────────────
+
+export const RESOLUTION: Record<SeriesResolution, { bucketMs: number; retainMs: number }> = {
+  seconds: { bucketMs: 1_000,  retainMs: 5 * 60_000 },
+  minutes: { bucketMs: 60_000, retainMs: 24 * 60 * 60_000 },
+};
+
+const initialState: TimeSeriesState = {
+  window:  loadMonitorState()?.preferences.seriesWindow ?? '5m',
+  seconds: [],
+  minutes: [],
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+const STATUS_KEY: Record<TransactionStatus, 'pending' | 'completed' | 'failed'> = {
+  Pending: 'pending', Completed: 'completed', Failed: 'failed',
+};
+
+/** Bucket starting at `start`, created in order if missing. Events are mostly newest, so search from the end. */
+function bucketAt(buckets: SeriesBucket[], start: number): SeriesBucket {
+  let i = buckets.length - 1;
+  while (i >= 0 && buckets[i].start > start) i--;
+  if (i >= 0 && buckets[i].start === start) return buckets[i];
+
+  const bucket: SeriesBucket = { start, pending: 0, completed: 0, failed: 0, volumeByCurrency: {} };
+  buckets.splice(i + 1, 0, bucket);
+  return bucket;
+}
+
+/** Drop buckets older than the retention, measured from the newest bucket. */
+function prune(buckets: SeriesBucket[], resolution: SeriesResolution) {
+  const newest = buckets[buckets.length - 1]?.start;
+  if (newest === undefined) return;
+  const cutoff = newest - RESOLUTION[resolution].retainMs;
+  const firstKept = buckets.findIndex(b => b.start >= cutoff);
+  if (firstKept > 0) buckets.splice(0, firstKept);
+}
+
+function record(buckets: SeriesBucket[], resolution: SeriesResolution, events: SeriesEvent[]) {
+  const { bucketMs } = RESOLUTION[resolution];
+  for (const e of events) {
+    const bucket = bucketAt(buckets, e.at - (e.at % bucketMs));
+    if (e.status) bucket[STATUS_KEY[e.status]] += 1;
+    if (e.volume) {
+      bucket.volumeByCurrency[e.volume.currency] =
+        addDecimal(bucket.volumeByCurrency[e.volume.currency] ?? ZERO, e.volume.amount);
+    }
+  }
+  prune(buckets, resolution);
+}
+
+// ─── Slice ────────────────────────────────────────────────────────────────
+
+export const timeSeriesSlice = createSlice({
+  name: 'timeSeries',
+  initialState,
+  reducers: {
+    /** Live increments from the SeriesTracker — applied at both resolutions */
+    recordSeriesEvents(state, action: PayloadAction<SeriesEvent[]>) {
+      record(state.seconds, 'seconds', action.payload);
+      record(state.minutes, 'minutes', action.payload);
+    },
+
+    /**
+     * Backfill from GET /api/transactions/stats/timeseries. The server is the truth
+     * for [from, to): local buckets in that range are replaced, newer ones kept.
+     */
+    mergeSeriesBackfill(
+      state,
+      action: PayloadAction<{ resolution: SeriesResolution; from: string; to: string; buckets: TimeSeriesBucket[] }>,
+    ) {
+      const { resolution, buckets } = action.payload;
+      const { bucketMs } = RESOLUTION[resolution];
+      // The server aligns `from` down to its bucket grid — so do we
+      const from = Date.parse(action.payload.from);
+      const alignedFrom = from - (from % bucketMs);
+      const to = Date.parse(action.payload.to);
+
+      const local = state[resolution];
+      state[resolution] = [
+        ...local.filter(b => b.start < alignedFrom),
+        ...buckets.map(b => ({ ...b, start: Date.parse(b.start) })),
+        ...local.filter(b => b.start >= to),
+      ];
+      prune(state[resolution], resolution);
+    },
+
+    setSeriesWindow(state, action: PayloadAction<TimeSeriesWindow>) {
+      state.window = action.payload;
+    },
+  },
+});
+
+export const {
+  recordSeriesEvents,
+  mergeSeriesBackfill,
+  setSeriesWindow,
+} = timeSeriesSlice.actions;
+
+export default timeSeriesSlice.reducer;
+
+// ─── Selectors ────────────────────────────────────────────────────────────
+
+export type RootState = { timeSeries: TimeSeriesState };
+
+export const selectSeriesWindow = (state: RootState) => state.timeSeries.window;
+export const selectSeries = (state: RootState, resolution: SeriesResolution) =>
+  state.timeSeries[resolution];
@@ -1,44 +1,221 @@
-import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import type { Transaction, TransactionStatus } from '../types/transaction';
+import { createSelector, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import type { DbStats, StatsWindow, StatusChange, Transaction, TransactionStatus } from '../types/transaction';
+import { addDecimal, divideDecimal, multiplyDecimal, subtractDecimal, ZERO } from '../services/decimal';
+import { loadMonitorState } from '../services/monitorState';
 
 // ─── Types ────────────────────────────────────────────────────────────────
 
-export interface DbStats {
-  total: number;
-  completed: number;
-  failed: number;
-  pending: number;
-  volumeByCurrency: Record<string, number>;
-}
-
-export type ConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
+/** 'polling' — WebSocket unavailable, kept up to date over REST (degraded but live) */
+export type ConnectionState = 'connecting' | 'connected' | 'polling' | 'disconnected' | 'error';
+export const CONNECTION_STATES: ConnectionState[] = ['connecting', 'connected', 'polling', 'disconnected', 'error'];
 
 export interface TransactionState {
-  /** Live feed — last 100 received via SignalR */
-  recentTransactions: Transaction[];
-  /** Aggregated stats from /api/transactions/stats */
+  /** Live feed — IDs of the last `recentLimit` received via SignalR, newest first */
+  recentIds: string[];
+  /** Live feed rows by ID — an update replaces its row in place, without scanning the feed */
+  recentById: Record<string, Transaction>;
+  /** IDs the latest batch with new rows added to the feed — those rows slide in, whatever their position */
+  arrivedIds: Record<string, true>;
+  /** Live feed buffer size — user-configurable, persisted by the monitor listener */
+  recentLimit: number;
+  /**
+   * Feed position at the last Clear (ISO) — the newest server change time the feed held then.
+   * Snapshot rows unchanged since stay hidden, across reloads too; server clock, so client skew can't matter.
+   */
+  clearedAt: string | null;
+  /** Aggregated stats from /api/transactions/stats — for `statsWindow`, kept current optimistically */
   dbStats: DbStats;
-  /** SignalR connection status */
+  statsWindow: StatsWindow;
+  /** SignalR connection status — or the REST polling fallback */
   connectionState: ConnectionState;
-  /** Known IDs — prevents duplicate entries in recent feed */
-  knownIds: string[];
+  /** Status transitions per transaction ID, oldest first — live events + server backfill */
+  statusHistory: Record<string, StatusChange[]>;
+  /**
+   * Live feed frozen by the operator — events wait in the paused queue until resume.
+   * One entry per transaction (its newest version), in first-arrival order, capped at recentLimit.
+   */
+  paused: boolean;
+  pausedIds: string[];
+  pausedById: Record<string, Transaction>;
+  /** Transaction open in the detail drawer — kept live by incoming events */
+  detail: {
+    id: string | null;
+    transaction: Transaction | null;
+  };
 }
 
 // ─── Initial State ────────────────────────────────────────────────────────
 
 const EMPTY_STATS: DbStats = {
   total: 0, completed: 0, failed: 0, pending: 0, volumeByCurrency: {},
+  failureRate: 0, averageAmount: ZERO, p50Amount: ZERO, p95Amount: ZERO, p99Amount: ZERO, from: null,
 };
 
-const RECENT_LIMIT = 100;
+export const DEFAULT_RECENT_LIMIT = 100;
+export const RECENT_LIMIT_OPTIONS = [100, 1_000, 5_000, 10_000];
+
+// The feed and preferences the last session left — the monitor listener saves them
+const restored = loadMonitorState();
+
+const restoredFeed = restored?.feed.transactions ?? [];
 
 const initialState: TransactionState = {
-  recentTransactions: [],
+  recentIds: restoredFeed.map(t => t.transactionId),
+  recentById: Object.fromEntries(restoredFeed.map(t => [t.transactionId, t])),
+  arrivedIds: {},
+  recentLimit: restored?.preferences.recentLimit ?? DEFAULT_RECENT_LIMIT,
+  clearedAt: restored?.feed.clearedAt ?? null,
   dbStats: EMPTY_STATS,
+  statsWindow: restored?.preferences.statsWindow ?? 'all',
   connectionState: 'connecting',
-  knownIds: [],
+  statusHistory: {},
+  paused: false,
+  pausedIds: [],
+  pausedById: {},
+  detail: { id: null, transaction: null },
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────
+
+/** Append a transition if this event moved the transaction to a new status. */
+function appendStatusChange(state: TransactionState, tx: Transaction) {
+  const history = state.statusHistory[tx.transactionId] ??= [];
+  const last = history[history.length - 1];
+  if (last?.status === tx.status) return;
+  if (last && Date.parse(tx.timestamp) < Date.parse(last.timestamp)) return; // stale event
+  history.push({ status: tx.status, timestamp: tx.timestamp });
+}
+
+const STATUS_COUNT: Record<TransactionStatus, 'pending' | 'completed' | 'failed'> = {
+  Pending: 'pending', Completed: 'completed', Failed: 'failed',
 };
 
+/** Add (sign 1) or remove (sign -1) one transaction's contribution to the stats. */
+function countInStats(stats: DbStats, tx: Transaction, sign: 1 | -1) {
+  const from = stats.from ? Date.parse(stats.from) : -Infinity;
+  if (Date.parse(tx.timestamp) < from) return; // outside the stats window
+
+  const move = sign === 1 ? addDecimal : subtractDecimal;
+  const sum = move(multiplyDecimal(stats.averageAmount, stats.total), tx.amount);
+  stats.total += sign;
+  stats[STATUS_COUNT[tx.status]] += sign;
+  stats.volumeByCurrency[tx.currency] = move(stats.volumeByCurrency[tx.currency] ?? ZERO, tx.amount);
+  stats.averageAmount = stats.total > 0 ? divideDecimal(sum, stats.total) : ZERO;
+  const settled = stats.completed + stats.failed;
+  stats.failureRate = settled > 0 ? stats.failed / settled : 0;
+}
+
+/**
+ * Optimistic stats update without a server round-trip. An update moves the
+ * transaction between status counts (and adjusts volume) instead of adding it again.
+ * Percentiles can't be maintained incrementally — they wait for the next refresh.
+ */
+function adjustStats(stats: DbStats, previous: Transaction | undefined, next: Transaction) {
+  if (previous) countInStats(stats, previous, -1);
+  countInStats(stats, next, 1);
+}
+
+/**
+ * A replayed or out-of-order event must not roll a row back — same rule as the
+ * backend's timestamp guard on upsert.
+ */
+function isOlder(tx: Transaction, than: Transaction): boolean {
+  return Date.parse(tx.timestamp) < Date.parse(than.timestamp);
+}
+
+/** Enforce recentLimit, dropping the oldest rows (and their timelines, unless open in the drawer). */
+function trimRecent(state: TransactionState) {
+  if (state.recentIds.length <= state.recentLimit) return;
+  for (const id of state.recentIds.slice(state.recentLimit)) {
+    delete state.recentById[id];
+    if (id !== state.detail.id) delete state.statusHistory[id];
+  }
+  state.recentIds.length = state.recentLimit;
+}
+
+/** Replace the whole feed — rows newest first */
+function setFeed(state: TransactionState, rows: Transaction[]) {
+  state.recentIds  = rows.map(t => t.transactionId);
+  state.recentById = Object.fromEntries(rows.map(t => [t.transactionId, t]));
+  state.arrivedIds = {};
+}
+
+/**
+ * Apply events in arrival order: NEW rows are collected and prepended once
+ * (one ID list shift per batch, not per event), UPDATED rows are replaced in
+ * place by ID — no scan of the feed, however large the buffer.
+ *
+ * "Known" means in the buffer: nothing is remembered about trimmed rows, so
+ * memory stays bounded by recentLimit. An update to a trimmed row comes back
+ * as a new one, and may be counted twice in the optimistic stats until the
+ * next server refresh replaces them.
+ */
+function applyTransactions(state: TransactionState, txs: Transaction[]) {
+  /** This batch's new rows, in arrival order (re-setting a key keeps its place) */
+  const fresh = new Map<string, Transaction>();
+
+  for (const tx of txs) {
+    const held = fresh.get(tx.transactionId) ?? state.recentById[tx.transactionId];
+
+    // Previous version, if we still hold it — needed to move it between status counts
+    const previous = held
+      ?? (state.detail.transaction?.transactionId === tx.transactionId ? state.detail.transaction : undefined);
+    if (previous && isOlder(tx, previous)) continue; // stale — changes nothing
+
+    const open = state.detail.transaction;
+    if (state.detail.id === tx.transactionId && (!open || !isOlder(tx, open))) {
+      state.detail.transaction = tx;
+    }
+    appendStatusChange(state, tx);
+
+    // Moves `previous` (if any — e.g. a trimmed row still open in the drawer) to its new status count
+    adjustStats(state.dbStats, previous, tx);
+
+    // Update existing entry in place — it may still be in this batch's fresh rows
+    if (!held || fresh.has(tx.transactionId)) fresh.set(tx.transactionId, tx);
+    else state.recentById[tx.transactionId] = tx;
+  }
+
+  if (fresh.size > 0) {
+    state.arrivedIds = Object.fromEntries([...fresh.keys()].map(id => [id, true as const]));
+    for (const [id, tx] of fresh) state.recentById[id] = tx;
+    // Newest first
+    state.recentIds = [...[...fresh.keys()].reverse(), ...state.recentIds];
+    trimRecent(state);
+  }
+}
+
+/** Last change by the server's clock — falls back to the event time for rows without one */
+function changedAt(tx: Transaction): number {
+  return Date.parse(tx.updatedAt ?? tx.timestamp);
+}
+
+function receiveOrQueue(state: TransactionState, txs: Transaction[]) {
+  if (!state.paused) {
+    applyTransactions(state, txs);
+    return;
+  }
+  for (const tx of txs) {
+    const queued = state.pausedById[tx.transactionId];
+    if (!queued) state.pausedIds.push(tx.transactionId);
+    if (!queued || !isOlder(tx, queued)) state.pausedById[tx.transactionId] = tx;
+
+    // The drawer stays live even while the feed is frozen — same stale guard as applyTransactions
+    const open = state.detail.transaction;
+    if (state.detail.id === tx.transactionId && (!open || !isOlder(tx, open))) {
+      state.detail.transaction = tx;
+    }
+  }
+  trimPaused(state);
+}
+
+/** The queue never holds more than the feed could show on resume — the oldest arrivals go first */
+function trimPaused(state: TransactionState) {
+  const excess = state.pausedIds.length - state.recentLimit;
+  if (excess <= 0) return;
+  for (const id of state.pausedIds.splice(0, excess)) delete state.pausedById[id];
+}
+
 // ─── Slice ────────────────────────────────────────────────────────────────
 
 export const transactionSlice = createSlice({
@@ -46,37 +223,52 @@ export const transactionSlice = createSlice({
   initialState,
   reducers: {
     /**
-     * Called by TransactionHubService when a new transaction arrives via SignalR.
-     * Handles both NEW and UPDATED transactions.
+     * Single transaction — NEW or UPDATED.
+     * Prefer receiveTransactions for hub traffic; this stays for one-off updates.
      */
     receiveTransaction(state, action: PayloadAction<Transaction>) {
-      const tx = action.payload;
-      const isNew = !state.knownIds.includes(tx.transactionId);
-
-      if (isNew) {
-        state.knownIds.push(tx.transactionId);
-        state.recentTransactions.unshift(tx);
-        if (state.recentTransactions.length > RECENT_LIMIT) {
-          state.recentTransactions.length = RECENT_LIMIT;
-        }
-        // Optimistically update stats without a server round-trip
-        state.dbStats.total += 1;
-        if (tx.status === 'Completed') state.dbStats.completed += 1;
-        if (tx.status === 'Failed')    state.dbStats.failed    += 1;
-        if (tx.status === 'Pending')   state.dbStats.pending   += 1;
-        state.dbStats.volumeByCurrency[tx.currency] =
-          (state.dbStats.volumeByCurrency[tx.currency] ?? 0) + tx.amount;
-      } else {
-        // Update existing entry in place
-        const idx = state.recentTransactions.findIndex(t => t.transactionId === tx.transactionId);
-        if (idx !== -1) state.recentTransactions[idx] = tx;
-      }
+      receiveOrQueue(state, [action.payload]);
+    },
+
+    /**
+     * Bulk variant — TransactionHubService batches SignalR events per animation
+     * frame, so hundreds of tx/sec cost one dispatch and one re-render per frame.
+     * Events are in arrival order. While the feed is paused they are queued instead.
+     */
+    receiveTransactions(state, action: PayloadAction<Transaction[]>) {
+      receiveOrQueue(state, action.payload);
+    },
+
+    /** Freeze the visible feed — incoming events are queued, not lost */
+    pauseFeed(state) {
+      state.paused = true;
     },
 
-    /** Replace the live feed with freshly fetched data (e.g. after reconnect) */
+    /** Unfreeze and replay everything that arrived while paused */
+    resumeFeed(state) {
+      state.paused = false;
+      const queued = state.pausedIds.map(id => state.pausedById[id]);
+      state.pausedIds = [];
+      state.pausedById = {};
+      applyTransactions(state, queued);
+    },
+
+    /**
+     * Merge a freshly fetched snapshot (startup, or a gap too large to replay)
+     * into the feed — rows restored from the last session stay, the newer
+     * version of a row wins, and rows unchanged since the last Clear stay hidden.
+     */
     setRecentTransactions(state, action: PayloadAction<Transaction[]>) {
-      state.recentTransactions = action.payload;
-      state.knownIds = action.payload.map(t => t.transactionId);
+      const clearedAt = state.clearedAt ? Date.parse(state.clearedAt) : -Infinity;
+      const byId = new Map(state.recentIds.map(id => [id, state.recentById[id]]));
+      for (const tx of action.payload) {
+        if (changedAt(tx) <= clearedAt) continue;
+        const held = byId.get(tx.transactionId);
+        if (!held || !isOlder(tx, held)) byId.set(tx.transactionId, tx);
+      }
+      setFeed(state, [...byId.values()]
+        .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+        .slice(0, state.recentLimit));
     },
 
     /** Replace stats with server response */
@@ -84,24 +276,92 @@ export const transactionSlice = createSlice({
       state.dbStats = action.payload;
     },
 
-    /** Clear the visual live feed — DB data is preserved */
+    /** Stats window changed — the next setStats brings the matching numbers */
+    setStatsWindow(state, action: PayloadAction<StatsWindow>) {
+      state.statsWindow = action.payload;
+    },
+
+    /** Clear the visual live feed — DB data is preserved. Remembered, so a reload doesn't bring the rows back. */
     clearRecent(state) {
-      state.recentTransactions = [];
-      state.knownIds = [];
+      // Clearing an empty feed moves nothing — keep the marker already set
+      const newest = state.recentIds.reduce((max, id) => Math.max(max, changedAt(state.recentById[id])), -Infinity);
+      if (Number.isFinite(newest)) state.clearedAt = new Date(newest).toISOString();
+      setFeed(state, []);
+      state.statusHistory = {};
+    },
+
+    /** Resize the live feed buffer — shrinking drops the oldest rows */
+    setRecentLimit(state, action: PayloadAction<number>) {
+      state.recentLimit = Math.max(1, Math.floor(action.payload));
+      trimRecent(state);
+      trimPaused(state);
     },
 
     setConnectionState(state, action: PayloadAction<ConnectionState>) {
       state.connectionState = action.payload;
     },
+
+    /** Open the detail drawer for an ID — seeded from the live feed if we already have it */
+    openDetail(state, action: PayloadAction<string>) {
+      const id = action.payload;
+      state.detail = {
+        id,
+        transaction: state.recentById[id] ?? null,
+      };
+    },
+
+    /**
+     * Result of GET /api/transactions/{id}.
+     * A live event may have landed while the request was in flight — keep whichever is newer.
+     */
+    setDetailTransaction(state, action: PayloadAction<Transaction>) {
+      const tx = action.payload;
+      const current = state.detail.transaction;
+      if (state.detail.id !== tx.transactionId) return;
+      if (!current || Date.parse(tx.timestamp) >= Date.parse(current.timestamp)) {
+        state.detail.transaction = tx;
+      }
+    },
+
+    /** Backfill from GET /api/transactions/{id}/history — merged with what we saw live */
+    mergeStatusHistory(
+      state,
+      action: PayloadAction<{ transactionId: string; history: StatusChange[] }>,
+    ) {
+      const { transactionId, history } = action.payload;
+      const merged = [...(state.statusHistory[transactionId] ?? []), ...history];
+      const seen = new Set<string>();
+      state.statusHistory[transactionId] = merged
+        .filter(c => {
+          const key = `${c.status}@${Date.parse(c.timestamp)}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+    },
+
+    closeDetail(state) {
+      state.detail = { id: null, transaction: null };
+    },
   },
 });
 
 export const {
   receiveTransaction,
+  receiveTransactions,
+  pauseFeed,
+  resumeFeed,
   setRecentTransactions,
   setStats,
+  setStatsWindow,
   clearRecent,
+  setRecentLimit,
   setConnectionState,
+  openDetail,
+  setDetailTransaction,
+  mergeStatusHistory,
+  closeDetail,
 } = transactionSlice.actions;
 
 export default transactionSlice.reducer;
@@ -110,20 +370,44 @@ export default transactionSlice.reducer;
 
 export type RootState = { transactions: TransactionState };
 
-export const selectRecentTransactions = (state: RootState) => state.transactions.recentTransactions;
+const selectRecentIds  = (state: RootState) => state.transactions.recentIds;
+const selectRecentById = (state: RootState) => state.transactions.recentById;
+
+/** Memoized — the feed in order, rebuilt only when a batch changed it */
+export const selectRecentTransactions = createSelector(
+  [selectRecentIds, selectRecentById],
+  (ids, byId) => ids.map(id => byId[id]),
+);
+export const selectArrivedIds         = (state: RootState) => state.transactions.arrivedIds;
 export const selectDbStats            = (state: RootState) => state.transactions.dbStats;
+export const selectStatsWindow        = (state: RootState) => state.transactions.statsWindow;
 export const selectConnectionState    = (state: RootState) => state.transactions.connectionState;
+export const selectRecentLimit        = (state: RootState) => state.transactions.recentLimit;
+export const selectFeedPaused         = (state: RootState) => state.transactions.paused;
+/** Distinct transactions waiting — several updates to one row count once */
+export const selectPausedCount        = (state: RootState) => state.transactions.pausedIds.length;
+export const selectDetailTransaction  = (state: RootState) => state.transactions.detail.transaction;
 
-export const selectFilteredRecent = (
-  state: RootState,
-  filterStatus: TransactionStatus | 'All',
-  searchText: string,
-) =>
-  state.transactions.recentTransactions.filter(tx => {
-    const matchFilter = filterStatus === 'All' || tx.status === filterStatus;
-    const matchSearch =
-      !searchText ||
-      tx.transactionId.toLowerCase().includes(searchText.toLowerCase()) ||
-      tx.currency.toLowerCase().includes(searchText.toLowerCase());
-    return matchFilter && matchSearch;
-  });
+const NO_HISTORY: StatusChange[] = [];
+export const selectStatusHistory = (state: RootState, transactionId: string) =>
+  state.transactions.statusHistory[transactionId] ?? NO_HISTORY;
+
+/** Memoized — re-filters only when the feed or the filter inputs change, not on every dispatch */
+export const selectFilteredRecent = createSelector(
+  [
+    selectRecentTransactions,
+    (_: RootState, filterStatus: TransactionStatus | 'All') => filterStatus,
+    (_: RootState, _filterStatus: TransactionStatus | 'All', searchText: string) => searchText,
+  ],
+  (recent, filterStatus, searchText) => {
+    const needle = searchText.toLowerCase();
+    return recent.filter(tx => {
+      const matchFilter = filterStatus === 'All' || tx.status === filterStatus;
+      const matchSearch =
+        !needle ||
+        tx.transactionId.toLowerCase().includes(needle) ||
+        tx.currency.toLowerCase().includes(needle);
+      return matchFilter && matchSearch;
+    });
+  },
+);
@@ -0,0 +1,73 @@
+// types/currency.ts
+// Currency metadata — symbols, names and minor units — plus money and FX rates types.
+
+/**
+ * An exact decimal amount as a canonical string ("1500.5", "0.00012345").
+ * The API sends amounts as strings so they never pass through a JS double;
+ * do arithmetic with services/decimal, not Number.
+ */
+export type Decimal = string;
+
+/** Full — every minor unit; compact — "$1.2M" */
+export type AmountDisplay = 'full' | 'compact';
+export const AMOUNT_DISPLAYS: AmountDisplay[] = ['full', 'compact'];
+
+export interface CurrencyInfo {
+  code:     string;
+  symbol:   string;
+  name:     string;
+  /** Minor-unit digits (ISO 4217 exponent; 8 / 18 for crypto) */
+  decimals: number;
+  /** ISO 4217 code — Intl knows its symbol and placement; crypto is formatted by hand */
+  iso:      boolean;
+}
+
+export const CURRENCIES: Record<string, CurrencyInfo> = {
+  USD: { code: 'USD', symbol: '$', name: 'US Dollar',          decimals: 2,  iso: true },
+  EUR: { code: 'EUR', symbol: '€', name: 'Euro',               decimals: 2,  iso: true },
+  ILS: { code: 'ILS', symbol: '₪', name: 'Israeli New Shekel', decimals: 2,  iso: true },
+  GBP: { code: 'GBP', symbol: '£', name: 'Pound Sterling',     decimals: 2,  iso: true },
+  JPY: { code: 'JPY', symbol: '¥', name: 'Japanese Yen',       decimals: 0,  iso: true },
+  BTC: { code: 'BTC', symbol: '₿', name: 'Bitcoin',            decimals: 8,  iso: false },
+  ETH: { code: 'ETH', symbol: 'Ξ', name: 'Ether',              decimals: 18, iso: false },
+};
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES);
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+/** Codes not in CURRENCIES, resolved once each */
+const derived = new Map<string, CurrencyInfo>();
+
+/**
+ * Metadata for `code`. Other ISO 4217 codes take their minor units from Intl
+ * (KWD has 3, CLP none); codes Intl rejects get no symbol and two decimals.
+ */
+export function currencyInfo(code: string): CurrencyInfo {
+  const upper = code.toUpperCase();
+  const known = CURRENCIES[upper] ?? derived.get(upper);
+  if (known) return known;
+
+  const info = deriveInfo(code, upper);
+  derived.set(upper, info);
+  return info;
+}
+
+function deriveInfo(code: string, upper: string): CurrencyInfo {
+  try {
+    const { maximumFractionDigits } = new Intl.NumberFormat('en', { style: 'currency', currency: upper }).resolvedOptions();
+    return { code: upper, symbol: '', name: upper, decimals: maximumFractionDigits ?? 2, iso: true };
+  } catch {
+    // RangeError — not a well-formed currency code
+    return { code, symbol: '', name: code, decimals: 2, iso: false };
+  }
+}
+
+// ─── FX ───────────────────────────────────────────────────────────────────
+
+/** Rates table — `rates[X]` is how many X one unit of `base` buys */
+export interface FxRates {
+  base:  string;
+  asOf:  string; // ISO 8601 — when the rates were taken
+  rates: Record<string, number>;
+}
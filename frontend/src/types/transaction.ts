@@ -1,14 +1,168 @@
 // types/transaction.ts
 // All project types in one place
 
+import type { Decimal } from './currency';
+
 export type TransactionStatus = 'Pending' | 'Completed' | 'Failed';
 
 export interface Transaction {
   transactionId: string;
-  amount: number;
+  amount: Decimal; // exact — see types/currency
   currency: string;
   status: TransactionStatus;
   timestamp: string; // ISO 8601 string
+  /** Server clock at the last accepted upsert — set by the API, ignored on POST */
+  updatedAt?: string;
+}
+
+/** The fields a client supplies — updatedAt is set by the server */
+export type TransactionField = 'transactionId' | 'amount' | 'currency' | 'status' | 'timestamp';
+
+export const TRANSACTION_FIELDS: TransactionField[] = ['transactionId', 'amount', 'currency', 'status', 'timestamp'];
+
+/** Validation message per offending field — from the client rules or the API's 400 */
+export type FieldErrors = Partial<Record<TransactionField, string>>;
+
+/** Outcome of a single POST /api/transactions */
+export type SendResult =
+  | { ok: true;  status: number; outcome: 'Created' | 'Updated'; transaction: Transaction }
+  /**
+   * `status` is null when the request never got a response (network down, CORS, ...);
+   * `queued` when submitTransaction kept it in the outbox to retry
+   */
+  | { ok: false; status: number | null; error: string; fieldErrors: FieldErrors; queued?: boolean };
+
+/**
+ * pending — waiting for its next attempt; retrying — an attempt is in flight;
+ * failed — given up on (rejected by the API, or out of attempts)
+ */
+export type OutboxStatus = 'pending' | 'retrying' | 'failed';
+export const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'retrying', 'failed'];
+
+/** A submission the API couldn't take yet — one per transactionId, persisted in IndexedDB */
+export interface OutboxEntry {
+  id:            string; // the transactionId
+  transaction:   Transaction;
+  status:        OutboxStatus;
+  attempts:      number;
+  nextAttemptAt: number | null; // epoch ms — null once failed
+  lastError:     string | null;
+  queuedAt:      number;        // epoch ms
+}
+
+/** One step in a transaction's lifecycle — GET /api/transactions/{id}/history */
+export interface StatusChange {
+  status: TransactionStatus;
+  timestamp: string; // ISO 8601 string — when the transaction entered this status
+}
+
+/** Server-side filters for GET /api/transactions — all optional, ANDed together */
+export interface TransactionFilters {
+  status?:    TransactionStatus;
+  idPrefix?:  string;
+  currency?:  string;
+  minAmount?: Decimal;
+  maxAmount?: Decimal;
+  from?:      string; // ISO 8601, inclusive
+  to?:        string; // ISO 8601, inclusive
+}
+
+/** Server-side ordering for GET /api/transactions (?sortBy&sortDir) */
+export type SortField     = 'timestamp' | 'amount' | 'status' | 'currency';
+export type SortDirection = 'asc' | 'desc';
+
+export interface TransactionSort {
+  sortBy:  SortField;
+  sortDir: SortDirection;
+}
+
+export const SORT_FIELDS: SortField[] = ['timestamp', 'amount', 'status', 'currency'];
+export const DEFAULT_SORT: TransactionSort = { sortBy: 'timestamp', sortDir: 'desc' };
+
+/** Envelope returned by GET /api/transactions */
+export interface PagedTransactions {
+  items:      Transaction[];
+  page:       number;
+  pageSize:   number;
+  totalCount: number;
+  totalPages: number;
+  hasNext:    boolean;
+  hasPrev:    boolean;
+}
+
+/** Keyset page from GET /api/transactions/cursor — newest first, no total count */
+export interface CursorPage {
+  items:      Transaction[];
+  nextCursor: string | null; // opaque — pass back as-is for the next page
+  hasMore:    boolean;
+}
+
+/** GET /api/transactions/changes — what changed since a point in time, oldest first */
+export interface ChangeFeed {
+  items:   Transaction[];
+  hasMore: boolean;
+}
+
+/** What POST /api/transactions/batch did with one item */
+export type UpsertOutcome = 'Created' | 'Updated' | 'Rejected';
+
+export const UPSERT_OUTCOMES: UpsertOutcome[] = ['Created', 'Updated', 'Rejected'];
+
+export interface UpsertResult {
+  index:         number; // position in the request
+  transactionId: string | null;
+  outcome:       UpsertOutcome;
+  error:         string | null; // why it was rejected
+}
+
+/** POST /api/transactions/batch — one result per item, in request order */
+export interface BatchUpsertResult {
+  created:  number;
+  updated:  number;
+  rejected: number;
+  results:  UpsertResult[];
+}
+
+/** Aggregated stats returned by GET /api/transactions/stats?window */
+export interface DbStats {
+  total: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  volumeByCurrency: Record<string, Decimal>;
+  failureRate: number;    // Failed / (Completed + Failed), 0..1
+  averageAmount: Decimal; // amounts mix currencies as stored
+  p50Amount: Decimal;
+  p95Amount: Decimal;
+  p99Amount: Decimal;
+  from: string | null;   // window start (ISO 8601), null = all time
+}
+
+/** Stats window — 'all' for all-time totals */
+export type StatsWindow = 'all' | TimeSeriesWindow;
+
+// ─── Time series ──────────────────────────────────────────────────────────
+
+export type TimeSeriesWindow = '5m' | '1h' | '24h';
+export const TIME_SERIES_WINDOWS: TimeSeriesWindow[] = ['5m', '1h', '24h'];
+export const STATS_WINDOWS: StatsWindow[] = ['all', ...TIME_SERIES_WINDOWS];
+
+/** One bucket of GET /api/transactions/stats/timeseries */
+export interface TimeSeriesBucket {
+  start:     string; // ISO 8601, bucket start
+  pending:   number; // transitions INTO each status during the bucket
+  completed: number;
+  failed:    number;
+  volumeByCurrency: Record<string, Decimal>;
+}
+
+/** Time-bucketed stats — non-empty buckets only, oldest first */
+export interface TimeSeries {
+  window:        TimeSeriesWindow;
+  bucketSeconds: number;
+  from:          string;
+  to:            string;
+  buckets:       TimeSeriesBucket[];
 }
 
 // Status enum for filters
@@ -24,3 +178,58 @@ export const STATUS_CONFIG: Record<TransactionStatus, {
   Completed: { color: '#10b981', bg: 'rgba(16,185,129,0.12)',  label: 'COMPLETED' },
   Failed:    { color: '#ef4444', bg: 'rgba(239,68,68,0.12)',   label: 'FAILED'    },
 };
+
+// ─── Alerts ───────────────────────────────────────────────────────────────
+
+/** Which transactions a rule looks at — every field optional, ANDed together */
+export interface AlertCondition {
+  status?:    TransactionStatus;
+  currency?:  string;
+  minAmount?: Decimal; // inclusive
+  maxAmount?: Decimal; // inclusive
+}
+
+/** Rolling-window trigger: more than `count` matches within `windowSec` */
+export interface AlertRate {
+  count:     number;
+  windowSec: number;
+}
+
+export interface AlertRule {
+  id:        string;
+  name:      string;
+  enabled:   boolean;
+  condition: AlertCondition;
+  /** Absent → every matching transaction raises an alert */
+  rate?:     AlertRate;
+  /** Also raise a browser notification / play a sound */
+  notify:    boolean;
+  sound:     boolean;
+}
+
+/** A triggered rule, as shown in the alert panel */
+export interface Alert {
+  id:             string;
+  ruleId:         string;
+  ruleName:       string;
+  message:        string;
+  /** The transaction that matched (the last one, for rate rules) */
+  transactionId?: string;
+  triggeredAt:    string; // ISO 8601
+  acknowledged:   boolean;
+}
+
+// ─── Export ───────────────────────────────────────────────────────────────
+
+/** GET /api/transactions/export?format — one transaction per line in every format */
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+/** An export response whose body hasn't been read yet */
+export interface ExportResponse {
+  body:     ReadableStream<Uint8Array<ArrayBuffer>>;
+  /** Matching rows when the export started (X-Total-Count) — null if the header is missing */
+  total:    number | null;
+  fileName: string;
+}